@@ -6,7 +6,9 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { NotificationBell } from "@/components/NotificationBell";
+import { RunningTimer } from "@/components/RunningTimer";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import { TASK_ROUTE } from "@/lib/notifications";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import ChangePassword from "./pages/ChangePassword";
@@ -15,7 +17,12 @@ import Projects from "./pages/Projects";
 import ProjectDetail from "./pages/ProjectDetail";
 import Team from "./pages/Team";
 import MyWorkbench from "./pages/MyWorkbench";
+import MyCalendar from "./pages/MyCalendar";
+import Templates from "./pages/Templates";
+import Timesheets from "./pages/Timesheets";
 import AdminDashboard from "./pages/AdminDashboard";
+import ClientPortal from "./pages/ClientPortal";
+import ReviewLink from "./pages/ReviewLink";
 import Profile from "./pages/Profile";
 import NotFound from "./pages/NotFound";
 
@@ -28,7 +35,10 @@ const DashboardLayout = ({ children }: { children: React.ReactNode }) => (
       <div className="flex-1 flex flex-col overflow-hidden">
         <header className="sticky top-0 z-40 flex h-14 items-center justify-between gap-4 border-b bg-background/95 backdrop-blur px-4">
           <SidebarTrigger />
-          <NotificationBell />
+          <div className="flex items-center gap-2 min-w-0">
+            <RunningTimer />
+            <NotificationBell />
+          </div>
         </header>
         <main className="flex-1 p-3 sm:p-6 bg-background overflow-auto">{children}</main>
       </div>
@@ -45,7 +55,9 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/auth" element={<Auth />} />
+          <Route path="/review/:token" element={<ReviewLink />} />
           <Route path="/change-password" element={<ProtectedRoute><ChangePassword /></ProtectedRoute>} />
+          <Route path="/portal" element={<ProtectedRoute><ClientPortal /></ProtectedRoute>} />
           <Route
             path="/dashboard"
             element={
@@ -76,6 +88,16 @@ const App = () => (
               </ProtectedRoute>
             }
           />
+          <Route
+            path={TASK_ROUTE}
+            element={
+              <ProtectedRoute>
+                <DashboardLayout>
+                  <ProjectDetail />
+                </DashboardLayout>
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/team"
             element={
@@ -96,6 +118,36 @@ const App = () => (
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/calendar"
+            element={
+              <ProtectedRoute>
+                <DashboardLayout>
+                  <MyCalendar />
+                </DashboardLayout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/timesheets"
+            element={
+              <ProtectedRoute>
+                <DashboardLayout>
+                  <Timesheets />
+                </DashboardLayout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/templates"
+            element={
+              <ProtectedRoute>
+                <DashboardLayout>
+                  <Templates />
+                </DashboardLayout>
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/admin"
             element={
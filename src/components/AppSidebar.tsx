@@ -1,4 +1,4 @@
-import { LayoutDashboard, FolderKanban, Users, LogOut, Shield, User } from "lucide-react";
+import { LayoutDashboard, FolderKanban, Users, LogOut, Shield, User, CalendarDays, LayoutTemplate, ClipboardCheck } from "lucide-react";
 import { NavLink } from "@/components/NavLink";
 import { useLocation, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
@@ -23,6 +23,9 @@ const navigationItems = [
   { title: "Dashboard", url: "/dashboard", icon: LayoutDashboard },
   { title: "Projects", url: "/projects", icon: FolderKanban },
   { title: "My Workbench", url: "/workbench", icon: Users },
+  { title: "My Calendar", url: "/calendar", icon: CalendarDays },
+  { title: "Timesheets", url: "/timesheets", icon: ClipboardCheck },
+  { title: "Templates", url: "/templates", icon: LayoutTemplate },
   { title: "Team", url: "/team", icon: Users },
   { title: "Admin", url: "/admin", icon: Shield, adminOnly: true },
 ];
@@ -0,0 +1,46 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { UserAvatar } from "@/components/UserAvatar";
+import { cn } from "@/lib/utils";
+
+export interface TaskAssignee {
+  id?: string;
+  user_id: string;
+  profiles: {
+    full_name: string;
+    avatar_url: string | null;
+  } | null;
+}
+
+interface AssigneeAvatarsProps {
+  assignees: TaskAssignee[];
+  max?: number;
+  className?: string;
+}
+
+// Overlapping avatar stack for a task's assignees
+export function AssigneeAvatars({ assignees, max = 3, className }: AssigneeAvatarsProps) {
+  if (assignees.length === 0) return null;
+
+  const visible = assignees.slice(0, max);
+  const hiddenCount = assignees.length - visible.length;
+  const names = assignees.map((a) => a.profiles?.full_name || "Unknown").join(", ");
+
+  return (
+    <div className={cn("flex -space-x-2", className)} title={names}>
+      {visible.map((assignee) => (
+        <UserAvatar
+          key={assignee.user_id}
+          name={assignee.profiles?.full_name || "Unknown"}
+          avatarUrl={assignee.profiles?.avatar_url}
+          className="h-6 w-6 border-2 border-background"
+          fallbackClassName="text-[10px]"
+        />
+      ))}
+      {hiddenCount > 0 && (
+        <Avatar className="h-6 w-6 border-2 border-background">
+          <AvatarFallback className="text-[10px]">+{hiddenCount}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Slider } from "@/components/ui/slider";
+import { cropAvatar, loadImage } from "@/lib/avatars";
+import { toast } from "sonner";
+import { ZoomIn, ZoomOut } from "lucide-react";
+
+interface AvatarCropDialogProps {
+  file: File | null;
+  saving: boolean;
+  onCancel: () => void;
+  onCropped: (blob: Blob) => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Size of the crop area on screen, in CSS pixels
+const VIEWPORT = 256;
+const MAX_ZOOM = 3;
+
+// Lets the user drag and zoom a picture inside a circle before it becomes their avatar
+export function AvatarCropDialog({ file, saving, onCancel, onCropped }: AvatarCropDialogProps) {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 });
+  const dragStart = useRef<{ pointer: Point; offset: Point } | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setImage(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    loadImage(url)
+      .then((loaded) => {
+        const scale = VIEWPORT / Math.min(loaded.naturalWidth, loaded.naturalHeight);
+        setImage(loaded);
+        setZoom(1);
+        // Start centred
+        setOffset({
+          x: (VIEWPORT - loaded.naturalWidth * scale) / 2,
+          y: (VIEWPORT - loaded.naturalHeight * scale) / 2,
+        });
+      })
+      .catch((error) => {
+        toast.error(error.message);
+        onCancel();
+      });
+
+    return () => URL.revokeObjectURL(url);
+  }, [file, onCancel]);
+
+  // Pixels on screen per pixel of the image; at zoom 1 the short side fills the circle
+  const getScale = (value: number) =>
+    image ? (VIEWPORT / Math.min(image.naturalWidth, image.naturalHeight)) * value : 1;
+
+  // Keeps the image covering the whole crop area
+  const clampOffset = (point: Point, scale: number): Point => {
+    if (!image) return point;
+    const minX = VIEWPORT - image.naturalWidth * scale;
+    const minY = VIEWPORT - image.naturalHeight * scale;
+    return {
+      x: Math.min(0, Math.max(minX, point.x)),
+      y: Math.min(0, Math.max(minY, point.y)),
+    };
+  };
+
+  const handleZoom = (value: number) => {
+    const oldScale = getScale(zoom);
+    const newScale = getScale(value);
+    const center = VIEWPORT / 2;
+    // Zoom around the middle of the circle
+    setOffset(
+      clampOffset(
+        {
+          x: center - (center - offset.x) * (newScale / oldScale),
+          y: center - (center - offset.y) * (newScale / oldScale),
+        },
+        newScale
+      )
+    );
+    setZoom(value);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointer: { x: e.clientX, y: e.clientY }, offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+    const { pointer, offset: startOffset } = dragStart.current;
+    setOffset(
+      clampOffset(
+        { x: startOffset.x + e.clientX - pointer.x, y: startOffset.y + e.clientY - pointer.y },
+        getScale(zoom)
+      )
+    );
+  };
+
+  const handleSave = async () => {
+    if (!image) return;
+    const scale = getScale(zoom);
+
+    try {
+      const blob = await cropAvatar(image, {
+        x: -offset.x / scale,
+        y: -offset.y / scale,
+        size: VIEWPORT / scale,
+      });
+      onCropped(blob);
+    } catch (error) {
+      console.error("Error cropping avatar:", error);
+      toast.error(error.message || "Failed to resize the image");
+    }
+  };
+
+  const scale = getScale(zoom);
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !saving && onCancel()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Crop Photo</DialogTitle>
+          <DialogDescription>Drag the photo to position it and use the slider to zoom</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-4">
+          <div
+            className="relative overflow-hidden rounded-full bg-muted cursor-move touch-none select-none"
+            style={{ width: VIEWPORT, height: VIEWPORT }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => (dragStart.current = null)}
+            onPointerCancel={() => (dragStart.current = null)}
+          >
+            {image && (
+              <img
+                src={image.src}
+                alt=""
+                draggable={false}
+                className="absolute max-w-none pointer-events-none"
+                style={{
+                  left: offset.x,
+                  top: offset.y,
+                  width: image.naturalWidth * scale,
+                  height: image.naturalHeight * scale,
+                }}
+              />
+            )}
+          </div>
+
+          <div className="flex w-full items-center gap-2">
+            <ZoomOut className="h-4 w-4 text-muted-foreground" />
+            <Slider
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={[zoom]}
+              onValueChange={([value]) => handleZoom(value)}
+              disabled={!image}
+            />
+            <ZoomIn className="h-4 w-4 text-muted-foreground" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!image || saving}>
+            {saving ? "Saving..." : "Save Photo"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
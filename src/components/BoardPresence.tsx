@@ -0,0 +1,28 @@
+import { Eye } from "lucide-react";
+import { BoardViewer } from "@/hooks/use-board-presence";
+import { AssigneeAvatars } from "./AssigneeAvatars";
+
+interface BoardPresenceProps {
+  viewers: BoardViewer[];
+}
+
+const toAvatarUsers = (viewers: BoardViewer[]) =>
+  viewers.map((v) => ({
+    user_id: v.user_id,
+    profiles: { full_name: v.full_name, avatar_url: v.avatar_url },
+  }));
+
+// Shows teammates who currently have the board open
+export function BoardPresence({ viewers }: BoardPresenceProps) {
+  if (viewers.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <Eye className="h-4 w-4" />
+      <span>
+        {viewers.length === 1 ? `${viewers[0].full_name} is` : `${viewers.length} people are`} viewing this board
+      </span>
+      <AssigneeAvatars assignees={toAvatarUsers(viewers)} max={5} />
+    </div>
+  );
+}
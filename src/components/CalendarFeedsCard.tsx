@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { CalendarDays, Copy, Plus, RefreshCw, Trash2 } from "lucide-react";
+
+interface CalendarFeed {
+  id: string;
+  project_id: string | null;
+  token: string;
+  last_accessed_at: string | null;
+  projects: { name: string } | null;
+}
+
+interface ProjectOption {
+  id: string;
+  name: string;
+}
+
+const getFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+// Private iCalendar feed URLs for the current user: one for their own tasks
+// and optionally one per project.
+export function CalendarFeedsCard() {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [newProjectId, setNewProjectId] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const fetchFeeds = useCallback(async () => {
+    const [feedsResult, projectsResult] = await Promise.all([
+      supabase
+        .from("calendar_feed_tokens")
+        .select("id, project_id, token, last_accessed_at, projects(name)")
+        .order("created_at", { ascending: true }),
+      supabase.from("projects").select("id, name").order("name"),
+    ]);
+
+    if (feedsResult.error) {
+      console.error("Error fetching calendar feeds:", feedsResult.error);
+      toast.error("Failed to load calendar feeds");
+      return;
+    }
+    setFeeds(feedsResult.data || []);
+    setProjects(projectsResult.data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchFeeds();
+  }, [fetchFeeds]);
+
+  // Creating a feed that already exists replaces its token, so the old URL stops working
+  const createFeed = async (projectId: string | null) => {
+    setBusy(true);
+    try {
+      const { error } = await supabase.rpc("create_calendar_feed", {
+        _project_id: projectId ?? undefined,
+        _time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      if (error) throw error;
+      setNewProjectId("");
+      await fetchFeeds();
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      toast.error(error.message || "Failed to create calendar feed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revokeFeed = async (feed: CalendarFeed) => {
+    const { error } = await supabase.from("calendar_feed_tokens").delete().eq("id", feed.id);
+    if (error) {
+      console.error("Error revoking calendar feed:", error);
+      toast.error("Failed to revoke calendar feed");
+      return;
+    }
+    toast.success("Calendar feed revoked");
+    setFeeds((prev) => prev.filter((f) => f.id !== feed.id));
+  };
+
+  const copyUrl = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(getFeedUrl(feed.token));
+      toast.success("Feed URL copied");
+    } catch {
+      toast.error("Couldn't copy the URL; select it and copy it manually");
+    }
+  };
+
+  const personalFeed = feeds.find((f) => !f.project_id);
+  const projectFeeds = feeds.filter((f) => f.project_id);
+  const availableProjects = projects.filter((p) => !projectFeeds.some((f) => f.project_id === p.id));
+
+  const renderFeed = (feed: CalendarFeed) => (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input readOnly value={getFeedUrl(feed.token)} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+        <Button type="button" variant="outline" size="icon" title="Copy URL" onClick={() => copyUrl(feed)}>
+          <Copy className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          title="Regenerate URL"
+          disabled={busy}
+          onClick={() => createFeed(feed.project_id)}
+        >
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+        <Button type="button" variant="outline" size="icon" title="Revoke" onClick={() => revokeFeed(feed)}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {feed.last_accessed_at
+          ? `Last synced ${format(new Date(feed.last_accessed_at), "MMM dd, yyyy HH:mm")}`
+          : "Not synced yet"}
+      </p>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-lg sm:text-xl flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Feeds
+        </CardTitle>
+        <CardDescription>
+          Subscribe to task due dates from Google Calendar, Outlook or Apple Calendar. Anyone with a feed URL can
+          see its tasks, so keep it private; regenerate or revoke it if it leaks.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-6">
+        <div className="space-y-2">
+          <Label>My tasks</Label>
+          {personalFeed ? (
+            renderFeed(personalFeed)
+          ) : (
+            <Button type="button" variant="outline" disabled={busy} onClick={() => createFeed(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create feed
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <Label>Project feeds</Label>
+          {projectFeeds.map((feed) => (
+            <div key={feed.id} className="space-y-1">
+              <p className="text-sm font-medium">{feed.projects?.name}</p>
+              {renderFeed(feed)}
+            </div>
+          ))}
+          {availableProjects.length > 0 && (
+            <div className="flex gap-2">
+              <Select value={newProjectId} onValueChange={setNewProjectId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Choose a project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableProjects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={busy || !newProjectId}
+                onClick={() => createFeed(newProjectId)}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add feed
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,63 +1,271 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import { Calendar } from "@/components/ui/calendar";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { useToast } from "@/hooks/use-toast";
-import { format, isSameDay } from "date-fns";
-import { TaskDialog } from "./TaskDialog";
+import { getTaskLink } from "@/lib/notifications";
+import { DEFAULT_BRAND_COLOR } from "@/config/appConfig";
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  PointerSensor,
+  TouchSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  parseISO,
+  set as setDate,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { AlertCircle, ChevronLeft, ChevronRight, Diamond } from "lucide-react";
 
-interface Task {
+interface CalendarTask {
   id: string;
   title: string;
-  description: string | null;
   status: string;
   priority: string;
+  start_date: string | null;
   due_date: string | null;
-  is_blocked: boolean;
-  assignee_id: string | null;
-  comments: string | null;
-  profiles?: {
-    full_name: string;
-    avatar_url: string | null;
-  };
+  is_milestone: boolean;
+  project_id: string;
+  projects: {
+    name: string;
+    brand_color: string;
+  } | null;
+  workflow_status: {
+    color: string;
+    is_done: boolean;
+  } | null;
 }
 
 interface CalendarViewProps {
-  projectId: string;
+  // Without a project, shows the current user's tasks across all their projects
+  projectId?: string;
   refreshKey?: number;
 }
 
+type CalendarMode = "month" | "week";
+type ColorBy = "priority" | "project";
+
+const DAY_KEY = "yyyy-MM-dd";
+// Chips shown in a month cell before collapsing the rest into "+N more"
+const MONTH_CHIP_LIMIT = 3;
+
+const TASK_SELECT = `
+  id, title, status, priority, start_date, due_date, is_milestone, project_id,
+  projects (
+    name,
+    brand_color
+  ),
+  workflow_status:project_statuses!tasks_project_status_fkey (
+    color,
+    is_done
+  )
+`;
+
+const PRIORITY_CHIP_CLASSES: Record<string, string> = {
+  "P1-High": "border-l-destructive bg-destructive/10",
+  "P2-Medium": "border-l-warning bg-warning/10",
+  "P3-Low": "border-l-muted-foreground bg-muted",
+};
+
+const isOverdue = (task: CalendarTask) =>
+  !!task.due_date && new Date(task.due_date) < new Date() && !task.workflow_status?.is_done;
+
+// Moves the due date to another day, keeping its time of day. The start date
+// moves by the same number of days only if it would otherwise be after the due date.
+const rescheduleTo = (task: CalendarTask, day: Date) => {
+  const oldDue = new Date(task.due_date!);
+  const newDue = setDate(oldDue, { year: day.getFullYear(), month: day.getMonth(), date: day.getDate() });
+  let start_date = task.start_date;
+  if (start_date && new Date(start_date) > newDue) {
+    start_date = addDays(new Date(start_date), differenceInCalendarDays(newDue, oldDue)).toISOString();
+  }
+  return { due_date: newDue.toISOString(), start_date };
+};
+
+interface CalendarChipProps {
+  task: CalendarTask;
+  colorBy: ColorBy;
+  showProject: boolean;
+  onClick?: () => void;
+}
+
+function CalendarChip({ task, colorBy, showProject, onClick }: CalendarChipProps) {
+  const overdue = isOverdue(task);
+  const done = task.workflow_status?.is_done ?? false;
+  const projectColor = task.projects?.brand_color || DEFAULT_BRAND_COLOR;
+
+  return (
+    <div
+      className={`flex items-center gap-1 rounded border-l-4 px-1.5 py-0.5 text-xs cursor-pointer hover:shadow-sm ${
+        colorBy === "priority" ? PRIORITY_CHIP_CLASSES[task.priority] ?? "bg-muted" : ""
+      } ${overdue ? "ring-1 ring-destructive" : ""}`}
+      style={colorBy === "project" ? { borderLeftColor: projectColor, backgroundColor: `${projectColor}1a` } : undefined}
+      title={showProject && task.projects ? `${task.title} · ${task.projects.name}` : task.title}
+      onClick={onClick}
+    >
+      {task.is_milestone && <Diamond className="h-3 w-3 shrink-0" />}
+      {overdue && <AlertCircle className="h-3 w-3 shrink-0 text-destructive" />}
+      <span className={`truncate ${done ? "line-through text-muted-foreground" : ""}`}>{task.title}</span>
+    </div>
+  );
+}
+
+function DraggableChip(props: CalendarChipProps) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: props.task.id });
+
+  return (
+    <div ref={setNodeRef} {...attributes} {...listeners} className={`touch-none ${isDragging ? "opacity-40" : ""}`}>
+      <CalendarChip {...props} />
+    </div>
+  );
+}
+
+interface CalendarDayProps {
+  day: Date;
+  tasks: CalendarTask[];
+  mode: CalendarMode;
+  inMonth: boolean;
+  colorBy: ColorBy;
+  showProject: boolean;
+  onTaskClick: (task: CalendarTask) => void;
+  onShowMore: (day: Date) => void;
+}
+
+function CalendarDay({ day, tasks, mode, inMonth, colorBy, showProject, onTaskClick, onShowMore }: CalendarDayProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: format(day, DAY_KEY) });
+  const visible = mode === "month" ? tasks.slice(0, MONTH_CHIP_LIMIT) : tasks;
+  const hidden = tasks.length - visible.length;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex flex-col gap-1 border-b border-r p-1 min-w-0 ${mode === "month" ? "min-h-[110px]" : "min-h-[420px]"} ${
+        inMonth ? "" : "bg-muted/40"
+      } ${isOver ? "bg-primary/10" : ""}`}
+    >
+      <div className="flex justify-end">
+        <span
+          className={`text-xs h-6 min-w-6 px-1 flex items-center justify-center rounded-full ${
+            isToday(day) ? "bg-primary text-primary-foreground font-medium" : inMonth ? "" : "text-muted-foreground"
+          }`}
+        >
+          {mode === "week" ? format(day, "EEE d") : format(day, "d")}
+        </span>
+      </div>
+      {visible.map((task) => (
+        <DraggableChip
+          key={task.id}
+          task={task}
+          colorBy={colorBy}
+          showProject={showProject}
+          onClick={() => onTaskClick(task)}
+        />
+      ))}
+      {hidden > 0 && (
+        <button
+          type="button"
+          className="text-xs text-muted-foreground text-left px-1 hover:underline"
+          onClick={() => onShowMore(day)}
+        >
+          +{hidden} more
+        </button>
+      )}
+    </div>
+  );
+}
+
 export function CalendarView({ projectId, refreshKey }: CalendarViewProps) {
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const [tasks, setTasks] = useState<CalendarTask[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
-  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
-  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [colorBy, setColorBy] = useState<ColorBy>(projectId ? "priority" : "project");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [activeTask, setActiveTask] = useState<CalendarTask | null>(null);
+  const navigate = useNavigate();
   const { toast } = useToast();
 
-  useEffect(() => {
-    fetchTasks();
-  }, [projectId, refreshKey]);
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 5,
+      },
+    }),
+    useSensor(TouchSensor, {
+      activationConstraint: {
+        delay: 150,
+        tolerance: 5,
+      },
+    })
+  );
+
+  // Whole weeks covering the visible month or week
+  const days = useMemo(() => {
+    const start = startOfWeek(mode === "month" ? startOfMonth(anchor) : anchor);
+    const end = endOfWeek(mode === "month" ? endOfMonth(anchor) : anchor);
+    return eachDayOfInterval({ start, end });
+  }, [mode, anchor]);
+
+  const rangeStart = days[0].toISOString();
+  const rangeEnd = addDays(days[days.length - 1], 1).toISOString();
 
-  const fetchTasks = async () => {
+  const fetchTasks = useCallback(async () => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from("tasks")
-        .select(`
-          *,
-          profiles:profiles!tasks_assignee_id_fkey (
-            full_name,
-            avatar_url
-          )
-        `)
-        .eq("project_id", projectId)
-        .not("due_date", "is", null)
+        .select(TASK_SELECT)
+        .gte("due_date", rangeStart)
+        .lt("due_date", rangeEnd)
         .order("due_date", { ascending: true });
 
+      if (projectId) {
+        query = query.eq("project_id", projectId);
+      } else {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) return;
+
+        const { data: assignments, error: assignmentsError } = await supabase
+          .from("task_assignees")
+          .select("task_id")
+          .eq("user_id", user.id);
+
+        if (assignmentsError) throw assignmentsError;
+
+        const taskIds = assignments?.map((a) => a.task_id) || [];
+        if (taskIds.length === 0) {
+          setTasks([]);
+          return;
+        }
+        query = query.in("id", taskIds);
+      }
+
+      const { data, error } = await query;
       if (error) throw error;
       setTasks(data || []);
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error fetching tasks:", error);
       toast({
         title: "Error",
@@ -67,133 +275,167 @@ export function CalendarView({ projectId, refreshKey }: CalendarViewProps) {
     } finally {
       setLoading(false);
     }
-  };
+  }, [projectId, rangeStart, rangeEnd, toast]);
 
-  const handleTaskUpdated = () => {
+  useEffect(() => {
     fetchTasks();
-    setIsEditDialogOpen(false);
+  }, [fetchTasks, refreshKey]);
+
+  const tasksByDay = useMemo(() => {
+    const map: Record<string, CalendarTask[]> = {};
+    tasks.forEach((task) => {
+      const key = format(new Date(task.due_date!), DAY_KEY);
+      (map[key] ||= []).push(task);
+    });
+    return map;
+  }, [tasks]);
+
+  const handleTaskClick = (task: CalendarTask) => {
+    navigate(getTaskLink(task.project_id, task.id));
   };
 
-  const tasksForSelectedDate = tasks.filter(
-    (task) => task.due_date && selectedDate && isSameDay(new Date(task.due_date), selectedDate)
-  );
+  const handleShowMore = (day: Date) => {
+    setAnchor(day);
+    setMode("week");
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveTask(tasks.find((t) => t.id === event.active.id) || null);
+  };
+
+  const handleDragEnd = async ({ active, over }: DragEndEvent) => {
+    setActiveTask(null);
+    if (!over) return;
 
-  const datesWithTasks = tasks
-    .filter((task) => task.due_date)
-    .map((task) => new Date(task.due_date!));
-
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case "P1-High":
-        return "destructive" as const;
-      case "P2-Medium":
-        return "warning" as const;
-      case "P3-Low":
-        return "secondary" as const;
-      default:
-        return "secondary" as const;
+    const task = tasks.find((t) => t.id === active.id);
+    const day = parseISO(String(over.id));
+    if (!task?.due_date || isSameDay(new Date(task.due_date), day)) return;
+
+    const changes = rescheduleTo(task, day);
+    setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, ...changes } : t)));
+
+    try {
+      const { data, error } = await supabase
+        .from("tasks")
+        .update(changes)
+        .eq("id", task.id)
+        .select("id");
+
+      if (error) throw error;
+      // RLS filters out rows the user may not update instead of raising an error
+      if (!data || data.length === 0) throw new Error("You don't have permission to reschedule this task");
+    } catch (error) {
+      console.error("Error rescheduling task:", error);
+      setTasks((prev) => prev.map((t) => (t.id === task.id ? task : t)));
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reschedule task",
+        variant: "destructive",
+      });
     }
   };
 
+  const step = (direction: 1 | -1) => {
+    setAnchor((prev) => (mode === "month" ? addMonths(prev, direction) : addWeeks(prev, direction)));
+  };
+
+  const title =
+    mode === "month"
+      ? format(anchor, "MMMM yyyy")
+      : `${format(days[0], "MMM d")} – ${format(days[days.length - 1], "MMM d, yyyy")}`;
+
   if (loading) {
     return (
-      <div className="flex items-center justify-center min-h-[400px]">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      <div className="space-y-3">
+        <Skeleton className="h-9 w-full" />
+        <Skeleton className="h-[500px] w-full" />
       </div>
     );
   }
 
   return (
-    <>
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        <Card className="lg:col-span-2">
-          <CardHeader>
-            <CardTitle>Task Calendar</CardTitle>
-          </CardHeader>
-          <CardContent className="flex justify-center">
-            <Calendar
-              mode="single"
-              selected={selectedDate}
-              onSelect={setSelectedDate}
-              className="rounded-md border"
-              modifiers={{
-                hasTask: datesWithTasks,
-              }}
-              modifiersStyles={{
-                hasTask: {
-                  fontWeight: "bold",
-                  textDecoration: "underline",
-                },
-              }}
-            />
-          </CardContent>
-        </Card>
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => step(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="h-8" onClick={() => setAnchor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => step(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="text-base sm:text-lg font-semibold ml-1">{title}</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={colorBy}
+            onValueChange={(value) => value && setColorBy(value as ColorBy)}
+          >
+            <ToggleGroupItem value="priority" className="text-xs">Priority</ToggleGroupItem>
+            <ToggleGroupItem value="project" className="text-xs">Project</ToggleGroupItem>
+          </ToggleGroup>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as CalendarMode)}
+          >
+            <ToggleGroupItem value="month" className="text-xs">Month</ToggleGroupItem>
+            <ToggleGroupItem value="week" className="text-xs">Week</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>
-              {selectedDate ? format(selectedDate, "MMMM d, yyyy") : "Select a date"}
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            {tasksForSelectedDate.length > 0 ? (
-              <div className="space-y-3">
-                {tasksForSelectedDate.map((task) => (
-                  <Card
-                    key={task.id}
-                    className="cursor-pointer hover:shadow-md transition-shadow"
-                    onClick={() => {
-                      setSelectedTask(task);
-                      setIsEditDialogOpen(true);
-                    }}
-                  >
-                    <CardContent className="p-4">
-                      <div className="flex items-start justify-between gap-2 mb-2">
-                        <h4 className="font-medium line-clamp-1">{task.title}</h4>
-                        <Badge
-                          variant={getPriorityColor(task.priority)}
-                          className="text-xs shrink-0"
-                        >
-                          {task.priority}
-                        </Badge>
-                      </div>
-                      {task.description && (
-                        <p className="text-xs text-muted-foreground line-clamp-2 mb-2">
-                          {task.description}
-                        </p>
-                      )}
-                      <div className="flex items-center justify-between">
-                        <Badge variant="outline" className="text-xs">
-                          {task.status}
-                        </Badge>
-                        {task.profiles && (
-                          <span className="text-xs text-muted-foreground">
-                            {task.profiles.full_name}
-                          </span>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            ) : (
-              <p className="text-sm text-muted-foreground text-center py-8">
-                No tasks due on this date
-              </p>
-            )}
-          </CardContent>
+      <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+        <Card className="overflow-x-auto">
+          <div className="min-w-[700px]">
+            <div className="grid grid-cols-7 border-b bg-muted/50">
+              {days.slice(0, 7).map((day) => (
+                <div key={day.toISOString()} className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
+                  {format(day, "EEE")}
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-7 border-l">
+              {days.map((day) => (
+                <CalendarDay
+                  key={day.toISOString()}
+                  day={day}
+                  tasks={tasksByDay[format(day, DAY_KEY)] || []}
+                  mode={mode}
+                  inMonth={mode === "week" || isSameMonth(day, anchor)}
+                  colorBy={colorBy}
+                  showProject={!projectId}
+                  onTaskClick={handleTaskClick}
+                  onShowMore={handleShowMore}
+                />
+              ))}
+            </div>
+          </div>
         </Card>
-      </div>
 
-      {selectedTask && (
-        <TaskDialog
-          open={isEditDialogOpen}
-          onOpenChange={setIsEditDialogOpen}
-          projectId={projectId}
-          task={selectedTask}
-          onTaskCreated={handleTaskUpdated}
-        />
-      )}
-    </>
+        <DragOverlay>
+          {activeTask ? (
+            <div className="w-[160px] shadow-lg cursor-grabbing bg-card rounded">
+              <CalendarChip task={activeTask} colorBy={colorBy} showProject={!projectId} />
+            </div>
+          ) : null}
+        </DragOverlay>
+      </DndContext>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <AlertCircle className="h-3 w-3 text-destructive" /> Overdue
+        </span>
+        <span className="flex items-center gap-1">
+          <Diamond className="h-3 w-3" /> Milestone
+        </span>
+        <span>Drag a task to another day to change its due date</span>
+      </div>
+    </div>
   );
 }
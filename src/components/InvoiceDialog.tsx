@@ -0,0 +1,391 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BillingProject,
+  downloadFile,
+  formatMoney,
+  getInvoiceCsv,
+  getInvoiceTotal,
+  getLineAmount,
+  Invoice,
+  INVOICE_LINE_KINDS,
+  InvoiceLine,
+  InvoiceLineKind,
+  printInvoice,
+} from "@/lib/billing";
+import { format, parseISO } from "date-fns";
+import { Calendar as CalendarIcon, FileDown, FileText, Plus, Send, Trash2, X } from "lucide-react";
+
+interface InvoiceDialogProps {
+  invoiceId: string | null;
+  project: BillingProject;
+  onOpenChange: (open: boolean) => void;
+  // Called after the invoice or its lines change
+  onChanged: () => void;
+}
+
+const NEW_LINES: Record<Exclude<InvoiceLineKind, "time">, Pick<InvoiceLine, "description" | "unit_price">> = {
+  fixed: { description: "Fixed fee", unit_price: 0 },
+  adjustment: { description: "Discount", unit_price: 0 },
+};
+
+export function InvoiceDialog({ invoiceId, project, onOpenChange, onChanged }: InvoiceDialogProps) {
+  const { toast } = useToast();
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [lines, setLines] = useState<InvoiceLine[]>([]);
+  const [notes, setNotes] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const isDraft = invoice?.status === "draft";
+
+  const showError = useCallback(
+    (error: { message?: string }, fallback: string) =>
+      toast({
+        title: "Error",
+        description: error.message || fallback,
+        variant: "destructive",
+      }),
+    [toast]
+  );
+
+  const fetchInvoice = useCallback(async () => {
+    if (!invoiceId) return;
+
+    const { data, error } = await supabase
+      .from("invoices")
+      .select(
+        "id, project_id, number, status, currency, period_start, period_end, issued_on, due_on, notes, invoice_lines(id, kind, task_id, description, quantity, unit_price, position)"
+      )
+      .eq("id", invoiceId)
+      .single();
+
+    if (error) {
+      console.error("Error fetching invoice:", error);
+      showError(error, "Failed to load invoice");
+      return;
+    }
+
+    const { invoice_lines, ...rest } = data;
+    setInvoice(rest as Invoice);
+    setLines(
+      (invoice_lines as InvoiceLine[]).sort((a, b) => a.position - b.position || a.kind.localeCompare(b.kind))
+    );
+    setNotes(rest.notes || "");
+  }, [invoiceId, showError]);
+
+  useEffect(() => {
+    setInvoice(null);
+    setLines([]);
+    fetchInvoice();
+  }, [fetchInvoice]);
+
+  const updateInvoice = async (changes: Partial<Pick<Invoice, "notes" | "due_on" | "status" | "issued_on">>) => {
+    if (!invoice) return false;
+
+    const { data, error } = await supabase.from("invoices").update(changes).eq("id", invoice.id).select("id");
+    if (error || !data || data.length === 0) {
+      console.error("Error updating invoice:", error);
+      showError(error || { message: "Issued invoices can't be changed" }, "Failed to update invoice");
+      fetchInvoice();
+      return false;
+    }
+    setInvoice({ ...invoice, ...changes });
+    onChanged();
+    return true;
+  };
+
+  const editLine = (lineId: string, changes: Partial<InvoiceLine>) =>
+    setLines((prev) => prev.map((l) => (l.id === lineId ? { ...l, ...changes } : l)));
+
+  // Line edits are kept locally while typing and saved when the field loses focus
+  const saveLine = async (line: InvoiceLine) => {
+    const { error } = await supabase
+      .from("invoice_lines")
+      .update({
+        description: line.description.trim() || INVOICE_LINE_KINDS[line.kind],
+        quantity: line.quantity,
+        unit_price: line.unit_price,
+      })
+      .eq("id", line.id);
+
+    if (error) {
+      console.error("Error updating invoice line:", error);
+      showError(error, "Failed to update line");
+      fetchInvoice();
+      return;
+    }
+    onChanged();
+  };
+
+  const handleAddLine = async (kind: Exclude<InvoiceLineKind, "time">) => {
+    if (!invoice) return;
+
+    const { error } = await supabase.from("invoice_lines").insert({
+      invoice_id: invoice.id,
+      kind,
+      ...NEW_LINES[kind],
+      quantity: 1,
+      position: lines.length,
+    });
+
+    if (error) {
+      console.error("Error adding invoice line:", error);
+      showError(error, "Failed to add line");
+      return;
+    }
+    fetchInvoice();
+    onChanged();
+  };
+
+  // Removing a time line makes its time billable again
+  const handleDeleteLine = async (lineId: string) => {
+    const { error } = await supabase.from("invoice_lines").delete().eq("id", lineId);
+    if (error) {
+      console.error("Error deleting invoice line:", error);
+      showError(error, "Failed to delete line");
+      return;
+    }
+    setLines((prev) => prev.filter((l) => l.id !== lineId));
+    onChanged();
+  };
+
+  const handleIssue = async () => {
+    setBusy(true);
+    const issued = await updateInvoice({ status: "issued", issued_on: format(new Date(), "yyyy-MM-dd") });
+    setBusy(false);
+    if (issued) toast({ title: "Invoice issued", description: `${invoice?.number} can no longer be edited` });
+  };
+
+  const handleDeleteDraft = async () => {
+    if (!invoice) return;
+    setBusy(true);
+
+    const { data, error } = await supabase.from("invoices").delete().eq("id", invoice.id).select("id");
+    setBusy(false);
+
+    if (error || !data || data.length === 0) {
+      console.error("Error deleting invoice:", error);
+      showError(error || { message: "Issued invoices can't be deleted" }, "Failed to delete invoice");
+      return;
+    }
+    toast({ title: "Draft deleted", description: "Its time can be invoiced again" });
+    onChanged();
+    onOpenChange(false);
+  };
+
+  const handleExportCsv = () => {
+    if (!invoice) return;
+    downloadFile(`${invoice.number}.csv`, getInvoiceCsv(invoice, lines), "text/csv;charset=utf-8");
+  };
+
+  const handleExportPdf = () => {
+    if (!invoice) return;
+    if (!printInvoice(invoice, lines, project)) {
+      showError({ message: "Allow pop-ups for this site to export the invoice" }, "Failed to open invoice");
+    }
+  };
+
+  return (
+    <Dialog open={!!invoiceId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        {!invoice ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {invoice.number}
+                <Badge variant={isDraft ? "outline" : "default"}>{isDraft ? "Draft" : "Issued"}</Badge>
+              </DialogTitle>
+              <DialogDescription>
+                {project.client_name || "No client set"} · {format(parseISO(invoice.period_start), "MMM d")} –{" "}
+                {format(parseISO(invoice.period_end), "MMM d, yyyy")}
+                {invoice.issued_on && ` · Issued ${format(parseISO(invoice.issued_on), "MMM d, yyyy")}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[220px]">Description</TableHead>
+                    <TableHead className="text-right w-24">Quantity</TableHead>
+                    <TableHead className="text-right w-28">Rate</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    {isDraft && <TableHead className="w-8" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        {isDraft ? (
+                          <Input
+                            value={line.description}
+                            onChange={(e) => editLine(line.id, { description: e.target.value })}
+                            onBlur={() => saveLine(line)}
+                            className="h-8"
+                          />
+                        ) : (
+                          line.description
+                        )}
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {INVOICE_LINE_KINDS[line.kind]}
+                          {line.kind === "time" && " · hours"}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isDraft ? (
+                          <Input
+                            type="number"
+                            min="0.01"
+                            step="0.01"
+                            value={line.quantity}
+                            onChange={(e) => editLine(line.id, { quantity: Number(e.target.value) })}
+                            onBlur={() => saveLine(line)}
+                            className="h-8 text-right"
+                          />
+                        ) : (
+                          line.quantity
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isDraft ? (
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={line.unit_price}
+                            onChange={(e) => editLine(line.id, { unit_price: Number(e.target.value) })}
+                            onBlur={() => saveLine(line)}
+                            className="h-8 text-right"
+                          />
+                        ) : (
+                          formatMoney(line.unit_price, invoice.currency)
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatMoney(getLineAmount(line), invoice.currency)}
+                      </TableCell>
+                      {isDraft && (
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            title="Remove line"
+                            onClick={() => handleDeleteLine(line.id)}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                  {lines.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={isDraft ? 5 : 4} className="py-6 text-center text-muted-foreground">
+                        No approved billable time in this period
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>Total</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {formatMoney(getInvoiceTotal(lines), invoice.currency)}
+                    </TableCell>
+                    {isDraft && <TableCell />}
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+
+            {isDraft && (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleAddLine("fixed")}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Fixed Fee
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleAddLine("adjustment")}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Adjustment
+                </Button>
+              </div>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-[1fr_200px]">
+              <div className="space-y-2">
+                <Label htmlFor="invoice-notes">Notes</Label>
+                <Textarea
+                  id="invoice-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  onBlur={() => notes !== (invoice.notes || "") && updateInvoice({ notes: notes.trim() || null })}
+                  placeholder="Payment details, thank-you note..."
+                  rows={2}
+                  disabled={!isDraft}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Due Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-full justify-start font-normal" disabled={!isDraft}>
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {invoice.due_on ? format(parseISO(invoice.due_on), "PPP") : "No due date"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="end">
+                    <Calendar
+                      mode="single"
+                      selected={invoice.due_on ? parseISO(invoice.due_on) : undefined}
+                      onSelect={(date) => updateInvoice({ due_on: date ? format(date, "yyyy-MM-dd") : null })}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+            </div>
+
+            <DialogFooter className="flex-col sm:flex-row gap-2 sm:justify-between">
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleExportCsv}>
+                  <FileDown className="mr-2 h-4 w-4" />
+                  CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleExportPdf}>
+                  <FileText className="mr-2 h-4 w-4" />
+                  PDF
+                </Button>
+              </div>
+              {isDraft && (
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={handleDeleteDraft} disabled={busy}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete Draft
+                  </Button>
+                  <Button size="sm" onClick={handleIssue} disabled={busy || lines.length === 0}>
+                    <Send className="mr-2 h-4 w-4" />
+                    Issue Invoice
+                  </Button>
+                </div>
+              )}
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,10 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useRef } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
-import { TASK_STATUSES } from "@/config/appConfig";
 import {
   DndContext,
   DragEndEvent,
@@ -18,9 +18,14 @@ import {
 } from "@dnd-kit/core";
 import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
 import { TaskCard } from "./TaskCard";
-import { TaskDialog } from "./TaskDialog";
-import { AlertCircle } from "lucide-react";
-import { createNotificationForUser } from "@/lib/notifications";
+import { TaskAssignee } from "./AssigneeAvatars";
+import { BoardPresence } from "./BoardPresence";
+import { StatusNoteDialog } from "./StatusNoteDialog";
+import { BoardViewer, useBoardPresence } from "@/hooks/use-board-presence";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { checkTransition, getWipBlockReason, getWipUsage, ProjectStatus } from "@/lib/workflow";
+import { AlertCircle, AlertTriangle } from "lucide-react";
+import { createNotificationForUser, getTaskLink } from "@/lib/notifications";
 
 interface Task {
   id: string;
@@ -30,12 +35,28 @@ interface Task {
   priority: string;
   due_date: string | null;
   is_blocked: boolean;
-  assignee_id: string | null;
-  comments: string | null;
-  profiles?: {
-    full_name: string;
-    avatar_url: string | null;
-  };
+  position: number | null;
+  parent_task_id: string | null;
+  recurrence_rule: string | null;
+  estimate_minutes: number | null;
+  task_assignees?: TaskAssignee[];
+  task_comments?: { count: number }[];
+  task_attachments?: { count: number }[];
+  task_checklist_items?: { is_done: boolean }[];
+  time_entries?: { minutes: number | null }[];
+}
+
+interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+// A status change waiting for the note its transition rule requires
+interface PendingMove {
+  task: Task;
+  newStatus: string;
+  prevTask?: Task;
+  nextTask?: Task;
 }
 
 interface KanbanBoardProps {
@@ -43,28 +64,65 @@ interface KanbanBoardProps {
   refreshKey?: number;
 }
 
+const TASK_SELECT = `
+  *,
+  task_assignees (
+    id,
+    user_id,
+    profiles (
+      full_name,
+      avatar_url
+    )
+  ),
+  task_comments(count),
+  task_attachments(count),
+  task_checklist_items(is_done),
+  time_entries(minutes)
+`;
+
+const byPosition = (a: Task, b: Task) => (a.position ?? 0) - (b.position ?? 0);
+
 interface StatusColumnProps {
-  status: string;
+  status: ProjectStatus;
   tasks: Task[];
+  viewers: BoardViewer[];
+  subtaskProgress: Record<string, SubtaskProgress>;
+  parentTitles: Record<string, string>;
   onTaskClick: (task: Task) => void;
 }
 
-function StatusColumn({ status, tasks, onTaskClick }: StatusColumnProps) {
+function StatusColumn({ status, tasks, viewers, subtaskProgress, parentTitles, onTaskClick }: StatusColumnProps) {
   const { setNodeRef, isOver } = useDroppable({
-    id: status,
+    id: status.name,
   });
+  const { overLimit, overloadedUsers } = getWipUsage(status, tasks);
+  const wipWarnings = [
+    overLimit && `${tasks.length} tasks, limit is ${status.wip_limit}`,
+    ...overloadedUsers.map((u) => `${u.name} has ${u.count} tasks, limit is ${status.wip_limit_per_user}`),
+  ].filter(Boolean);
 
   return (
     <Card 
       ref={setNodeRef}
-      className={`flex flex-col transition-colors w-[280px] shrink-0 sm:w-auto sm:shrink ${isOver ? 'ring-2 ring-primary' : ''}`}
+      className={`flex flex-col transition-colors w-[280px] shrink-0 sm:w-auto sm:flex-1 sm:min-w-[240px] ${isOver ? 'ring-2 ring-primary' : ''}`}
+      style={{ borderTop: `3px solid ${status.color}` }}
     >
       <CardHeader className="pb-2 sm:pb-3 p-3 sm:p-6">
         <CardTitle className="text-xs sm:text-sm font-medium flex items-center justify-between">
-          <span className="truncate">{status}</span>
-          <Badge variant="secondary" className="ml-2 text-xs">
-            {tasks.length}
-          </Badge>
+          <span className="flex items-center gap-2 min-w-0">
+            <span className="h-2 w-2 rounded-full shrink-0" style={{ backgroundColor: status.color }} />
+            <span className="truncate">{status.name}</span>
+          </span>
+          <span className="flex items-center gap-1 ml-2 shrink-0">
+            {wipWarnings.length > 0 && (
+              <span title={wipWarnings.join("\n")} className="text-destructive">
+                <AlertTriangle className="h-3.5 w-3.5" />
+              </span>
+            )}
+            <Badge variant={wipWarnings.length > 0 ? "destructive" : "secondary"} className="text-xs">
+              {status.wip_limit !== null ? `${tasks.length}/${status.wip_limit}` : tasks.length}
+            </Badge>
+          </span>
         </CardTitle>
       </CardHeader>
       <CardContent className="flex-1 space-y-2 sm:space-y-3 min-h-[150px] sm:min-h-[200px] p-2 sm:p-6 pt-0 sm:pt-0">
@@ -76,6 +134,10 @@ function StatusColumn({ status, tasks, onTaskClick }: StatusColumnProps) {
             <TaskCard
               key={task.id}
               task={task}
+              isDone={status.is_done}
+              viewers={viewers.filter((v) => v.task_id === task.id)}
+              subtaskProgress={subtaskProgress[task.id]}
+              parentTitle={task.parent_task_id ? parentTitles[task.parent_task_id] : undefined}
               onClick={() => onTaskClick(task)}
             />
           ))}
@@ -94,8 +156,12 @@ export function KanbanBoard({ projectId, refreshKey }: KanbanBoardProps) {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeTask, setActiveTask] = useState<Task | null>(null);
-  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
-  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const navigate = useNavigate();
+  const { taskId: openTaskId } = useParams<{ taskId?: string }>();
+  const viewers = useBoardPresence(projectId, openTaskId ?? null);
+  const { statuses, transitions, loading: statusesLoading } = useProjectStatuses(projectId, refreshKey);
+  const tasksRef = useRef<Task[]>([]);
   const { toast } = useToast();
 
   // Touch-friendly sensors for mobile drag and drop
@@ -117,15 +183,9 @@ export function KanbanBoard({ projectId, refreshKey }: KanbanBoardProps) {
     try {
       const { data, error } = await supabase
         .from("tasks")
-        .select(`
-          *,
-          profiles:profiles!tasks_assignee_id_fkey (
-            full_name,
-            avatar_url
-          )
-        `)
+        .select(TASK_SELECT)
         .eq("project_id", projectId)
-        .order("created_at", { ascending: false });
+        .order("position", { ascending: true });
 
       if (error) throw error;
       setTasks(data || []);
@@ -145,6 +205,98 @@ export function KanbanBoard({ projectId, refreshKey }: KanbanBoardProps) {
     fetchTasks();
   }, [fetchTasks, refreshKey]);
 
+  useEffect(() => {
+    tasksRef.current = tasks;
+  }, [tasks]);
+
+  // Merge a single task (with its assignees and comment count) into the board
+  const fetchTask = useCallback(async (taskId: string) => {
+    const { data, error } = await supabase
+      .from("tasks")
+      .select(TASK_SELECT)
+      .eq("id", taskId)
+      .eq("project_id", projectId)
+      .maybeSingle();
+
+    if (error || !data) return;
+    setTasks((prev) =>
+      prev.some((t) => t.id === data.id)
+        ? prev.map((t) => (t.id === data.id ? data : t))
+        : [data, ...prev]
+    );
+  }, [projectId]);
+
+  // Keep the board in sync with changes made by teammates
+  useEffect(() => {
+    const channel = supabase
+      .channel(`project-tasks-${projectId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "tasks", filter: `project_id=eq.${projectId}` },
+        (payload) => fetchTask(payload.new.id)
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "tasks", filter: `project_id=eq.${projectId}` },
+        (payload) => {
+          const updated = payload.new as Task;
+          if (!tasksRef.current.some((t) => t.id === updated.id)) {
+            fetchTask(updated.id);
+            return;
+          }
+          // Keep the embedded assignees and comment count, which aren't part of the row
+          setTasks((prev) => prev.map((t) => (t.id === updated.id ? { ...t, ...updated } : t)));
+        }
+      )
+      .on(
+        // Delete events can't be filtered by column, and only carry the primary key under RLS
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "tasks" },
+        (payload) => setTasks((prev) => prev.filter((t) => t.id !== payload.old.id))
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "task_assignees" },
+        async (payload) => {
+          const { id, task_id, user_id } = payload.new;
+          if (!tasksRef.current.some((t) => t.id === task_id)) return;
+
+          const { data: profile } = await supabase
+            .from("profiles")
+            .select("full_name, avatar_url")
+            .eq("id", user_id)
+            .maybeSingle();
+
+          setTasks((prev) =>
+            prev.map((t) =>
+              t.id === task_id && !t.task_assignees?.some((a) => a.user_id === user_id)
+                ? { ...t, task_assignees: [...(t.task_assignees || []), { id, user_id, profiles: profile }] }
+                : t
+            )
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "task_assignees" },
+        (payload) =>
+          setTasks((prev) =>
+            prev.map((t) =>
+              t.task_assignees?.some((a) => a.id === payload.old.id)
+                ? { ...t, task_assignees: t.task_assignees.filter((a) => a.id !== payload.old.id) }
+                : t
+            )
+          )
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [projectId, fetchTask]);
+
+  const isDoneStatus = (name: string) => statuses.find((s) => s.name === name)?.is_done ?? false;
+
   const handleDragStart = (event: DragStartEvent) => {
     const task = tasks.find((t) => t.id === event.active.id);
     setActiveTask(task || null);
@@ -157,26 +309,103 @@ export function KanbanBoard({ projectId, refreshKey }: KanbanBoardProps) {
     if (!over) return;
 
     const taskId = active.id as string;
-    const newStatus = over.id as string;
-
     const task = tasks.find((t) => t.id === taskId);
-    if (!task || task.status === newStatus) return;
+    if (!task || over.id === taskId) return;
 
+    // A card can be dropped onto another card or onto the empty part of a column
+    const overTask = tasks.find((t) => t.id === over.id);
+    const newStatus = overTask ? overTask.status : (over.id as string);
     const oldStatus = task.status;
+    const statusChanged = oldStatus !== newStatus;
+
+    const currentOrder = tasks.filter((t) => t.status === newStatus).sort(byPosition);
+    const columnTasks = currentOrder.filter((t) => t.id !== taskId);
+    let index = overTask ? columnTasks.indexOf(overTask) : columnTasks.length;
+
+    // Moving a card down within its column places it below the card it was dropped on
+    if (overTask && !statusChanged && currentOrder.indexOf(task) < currentOrder.indexOf(overTask)) {
+      index += 1;
+    }
+
+    const prevTask = columnTasks[index - 1];
+    const nextTask = columnTasks[index];
+
+    if (!statusChanged) {
+      const currentIndex = currentOrder.indexOf(task);
+      if (currentOrder[currentIndex - 1] === prevTask && currentOrder[currentIndex + 1] === nextTask) return;
+    } else {
+      // Checked here so a disallowed move never flickers on the board; the database enforces it too
+      const { allowed, requiresNote } = checkTransition(statuses, transitions, oldStatus, newStatus);
+      if (!allowed) {
+        toast({
+          title: "Move not allowed",
+          description: `Tasks cannot move from "${oldStatus}" to "${newStatus}" in this project`,
+          variant: "destructive",
+        });
+        return;
+      }
+      const openSubtasks = tasks.filter((t) => t.parent_task_id === taskId && !isDoneStatus(t.status)).length;
+      if (isDoneStatus(newStatus) && !isDoneStatus(oldStatus) && openSubtasks > 0) {
+        toast({
+          title: "Subtasks still open",
+          description: `Complete the ${openSubtasks} open subtask(s) before marking this task as ${newStatus}`,
+          variant: "destructive",
+        });
+        return;
+      }
+      const targetStatus = statuses.find((s) => s.name === newStatus);
+      const wipBlockReason = targetStatus && getWipBlockReason(targetStatus, currentOrder, task);
+      if (wipBlockReason) {
+        toast({
+          title: "WIP limit reached",
+          description: wipBlockReason,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (requiresNote) {
+        setPendingMove({ task, newStatus, prevTask, nextTask });
+        return;
+      }
+    }
+
+    performMove({ task, newStatus, prevTask, nextTask });
+  };
+
+  const performMove = async ({ task, newStatus, prevTask, nextTask }: PendingMove, note?: string) => {
+    const taskId = task.id;
+    const oldStatus = task.status;
+    const statusChanged = oldStatus !== newStatus;
+
+    // Optimistic update; the server picks the final position under a lock
+    const optimisticPosition =
+      prevTask && nextTask
+        ? ((prevTask.position ?? 0) + (nextTask.position ?? 0)) / 2
+        : prevTask
+          ? (prevTask.position ?? 0) + 1024
+          : nextTask
+            ? (nextTask.position ?? 0) - 1024
+            : 0;
 
-    // Optimistic update
     setTasks((prev) =>
-      prev.map((t) => (t.id === taskId ? { ...t, status: newStatus } : t))
+      prev.map((t) => (t.id === taskId ? { ...t, status: newStatus, position: optimisticPosition } : t))
     );
 
     try {
-      const { error } = await supabase
-        .from("tasks")
-        .update({ status: newStatus as any })
-        .eq("id", taskId);
+      const { data: position, error } = await supabase.rpc("move_task", {
+        _task_id: taskId,
+        _status: newStatus,
+        _prev_task_id: prevTask?.id,
+        _next_task_id: nextTask?.id,
+        _note: note,
+      });
 
       if (error) throw error;
 
+      setTasks((prev) => prev.map((t) => (t.id === taskId ? { ...t, position } : t)));
+
+      if (!statusChanged) return;
+
       // Get task assignees and notify them about status change
       const { data: assignees } = await supabase
         .from("task_assignees")
@@ -203,7 +432,7 @@ export function KanbanBoard({ projectId, refreshKey }: KanbanBoardProps) {
               "Task Status Updated",
               `Task "${task.title}" in project "${projectName}" moved from "${oldStatus}" to "${newStatus}"`,
               "task_status",
-              `/projects/${projectId}`
+              getTaskLink(projectId, taskId)
             );
           }
         });
@@ -218,27 +447,39 @@ export function KanbanBoard({ projectId, refreshKey }: KanbanBoardProps) {
       fetchTasks();
       toast({
         title: "Error",
-        description: "Failed to update task status",
+        description: error.message || "Failed to move task",
         variant: "destructive",
       });
     }
   };
 
-  const handleTaskClick = (task: Task) => {
-    setSelectedTask(task);
-    setIsEditDialogOpen(true);
+  const handleNoteConfirm = (note: string) => {
+    if (pendingMove) performMove(pendingMove, note);
+    setPendingMove(null);
   };
 
-  const handleTaskUpdated = () => {
-    fetchTasks();
-    setIsEditDialogOpen(false);
+  // The task dialog is opened by ProjectDetail from the task's deep link
+  const handleTaskClick = (task: Task) => {
+    navigate(getTaskLink(projectId, task.id));
   };
 
-  if (loading) {
+  // Subtasks are in the same project, so their progress comes from the tasks already on the board
+  const subtaskProgress: Record<string, SubtaskProgress> = {};
+  tasks.forEach((t) => {
+    if (!t.parent_task_id) return;
+    const progress = subtaskProgress[t.parent_task_id] || { done: 0, total: 0 };
+    subtaskProgress[t.parent_task_id] = {
+      done: progress.done + (isDoneStatus(t.status) ? 1 : 0),
+      total: progress.total + 1,
+    };
+  });
+  const parentTitles = Object.fromEntries(tasks.filter((t) => subtaskProgress[t.id]).map((t) => [t.id, t.title]));
+
+  if (loading || statusesLoading) {
     return (
-      <div className="flex gap-3 sm:gap-6 overflow-x-auto pb-4 sm:pb-0 sm:grid sm:grid-cols-2 lg:grid-cols-4 sm:overflow-visible -mx-2 px-2 sm:mx-0 sm:px-0">
-        {TASK_STATUSES.map((status) => (
-          <Card key={status} className="w-[280px] shrink-0 sm:w-auto sm:shrink">
+      <div className="flex gap-3 sm:gap-6 overflow-x-auto pb-4 -mx-2 px-2 sm:mx-0 sm:px-0">
+        {[1, 2, 3, 4].map((i) => (
+          <Card key={i} className="w-[280px] shrink-0 sm:w-auto sm:flex-1 sm:min-w-[240px]">
             <CardHeader className="pb-2 p-3 sm:p-6">
               <Skeleton className="h-4 w-20" />
             </CardHeader>
@@ -259,15 +500,24 @@ export function KanbanBoard({ projectId, refreshKey }: KanbanBoardProps) {
         onDragStart={handleDragStart}
         onDragEnd={handleDragEnd}
       >
-        {/* Mobile: horizontal scroll with proper padding, Desktop: grid */}
-        <div className="flex gap-3 sm:gap-6 overflow-x-auto pb-4 sm:pb-0 sm:grid sm:grid-cols-2 lg:grid-cols-4 sm:overflow-visible -mx-2 px-2 sm:mx-0 sm:px-0">
-          {TASK_STATUSES.map((status) => {
-            const statusTasks = tasks.filter((task) => task.status === status);
+        {viewers.length > 0 && (
+          <div className="flex justify-end mb-3">
+            <BoardPresence viewers={viewers} />
+          </div>
+        )}
+
+        {/* Columns share the width and scroll horizontally when a workflow has many statuses */}
+        <div className="flex gap-3 sm:gap-6 overflow-x-auto pb-4 -mx-2 px-2 sm:mx-0 sm:px-0">
+          {statuses.map((status) => {
+            const statusTasks = tasks.filter((task) => task.status === status.name).sort(byPosition);
             return (
               <StatusColumn 
-                key={status} 
+                key={status.id} 
                 status={status} 
                 tasks={statusTasks}
+                viewers={viewers}
+                subtaskProgress={subtaskProgress}
+                parentTitles={parentTitles}
                 onTaskClick={handleTaskClick}
               />
             );
@@ -296,15 +546,13 @@ export function KanbanBoard({ projectId, refreshKey }: KanbanBoardProps) {
         </DragOverlay>
       </DndContext>
 
-      {selectedTask && (
-        <TaskDialog
-          open={isEditDialogOpen}
-          onOpenChange={setIsEditDialogOpen}
-          projectId={projectId}
-          task={selectedTask}
-          onTaskCreated={handleTaskUpdated}
-        />
-      )}
+      <StatusNoteDialog
+        open={!!pendingMove}
+        fromStatus={pendingMove?.task.status || ""}
+        toStatus={pendingMove?.newStatus || ""}
+        onConfirm={handleNoteConfirm}
+        onCancel={() => setPendingMove(null)}
+      />
     </>
   );
 }
\ No newline at end of file
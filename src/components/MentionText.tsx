@@ -0,0 +1,27 @@
+import { parseMentions } from "@/lib/mentions";
+
+interface MentionTextProps {
+  text: string;
+  className?: string;
+}
+
+// Renders text with @mention tokens shown as chips
+export function MentionText({ text, className }: MentionTextProps) {
+  return (
+    <span className={className}>
+      {parseMentions(text).map((segment, index) =>
+        segment.type === "mention" ? (
+          <span
+            key={index}
+            className="inline-flex items-center rounded bg-accent/10 px-1 font-medium text-accent"
+            title={segment.name}
+          >
+            @{segment.name}
+          </span>
+        ) : (
+          <span key={index}>{segment.value}</span>
+        )
+      )}
+    </span>
+  );
+}
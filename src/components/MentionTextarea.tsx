@@ -0,0 +1,117 @@
+import { useRef, useState } from "react";
+import { Textarea, TextareaProps } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { formatMention, MentionMember } from "@/lib/mentions";
+
+interface MentionTextareaProps extends Omit<TextareaProps, "value" | "onChange"> {
+  value: string;
+  onChange: (value: string) => void;
+  members: MentionMember[];
+}
+
+// Textarea that opens a member picker when the user types "@"
+export function MentionTextarea({ value, onChange, members, onKeyDown, onBlur, ...props }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [queryStart, setQueryStart] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions =
+    query === null
+      ? []
+      : members
+          .filter((m) => m.full_name.toLowerCase().includes(query.toLowerCase()))
+          .slice(0, 6);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = /(^|\s)@([^\s@[\]]*)$/.exec(text.slice(0, caret));
+    if (match) {
+      setQuery(match[2]);
+      setQueryStart(caret - match[2].length - 1);
+      setActiveIndex(0);
+    } else {
+      setQuery(null);
+    }
+  };
+
+  const insertMention = (member: MentionMember) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? value.length;
+    const token = `${formatMention(member)} `;
+    const nextValue = value.slice(0, queryStart) + token + value.slice(caret);
+    const nextCaret = queryStart + token.length;
+
+    onChange(nextValue);
+    setQuery(null);
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        setActiveIndex((prev) => (prev + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault();
+        setActiveIndex((prev) => (prev - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertMention(suggestions[activeIndex]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        e.stopPropagation();
+        setQuery(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={(e) => {
+          setQuery(null);
+          onBlur?.(e);
+        }}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 z-50 mt-1 w-full max-w-xs rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((member, index) => (
+            <button
+              key={member.id}
+              type="button"
+              className={cn(
+                "w-full rounded-sm px-2 py-1.5 text-left text-sm",
+                index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+              )}
+              // Keep focus in the textarea so the caret position is preserved
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertMention(member)}
+            >
+              {member.full_name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Bell, Check, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -26,6 +27,7 @@ export function NotificationBell() {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
 
   useEffect(() => {
     fetchNotifications();
@@ -76,6 +78,13 @@ export function NotificationBell() {
     fetchNotifications();
   };
 
+  const openNotification = (notification: Notification) => {
+    if (!notification.link) return;
+    if (!notification.is_read) markAsRead(notification.id);
+    setOpen(false);
+    navigate(notification.link);
+  };
+
   const markAllAsRead = async () => {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return;
@@ -165,8 +174,10 @@ export function NotificationBell() {
                   key={notification.id}
                   className={cn(
                     "p-3 hover:bg-muted/50 transition-colors relative group",
-                    !notification.is_read && "bg-accent/5"
+                    !notification.is_read && "bg-accent/5",
+                    notification.link && "cursor-pointer"
                   )}
+                  onClick={() => openNotification(notification)}
                 >
                   <div className="flex gap-2">
                     <div className="flex-1 min-w-0">
@@ -194,7 +205,10 @@ export function NotificationBell() {
                           variant="ghost"
                           size="icon"
                           className="h-6 w-6"
-                          onClick={() => markAsRead(notification.id)}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            markAsRead(notification.id);
+                          }}
                         >
                           <Check className="h-3 w-3" />
                         </Button>
@@ -203,7 +217,10 @@ export function NotificationBell() {
                         variant="ghost"
                         size="icon"
                         className="h-6 w-6 text-destructive hover:text-destructive"
-                        onClick={() => deleteNotification(notification.id)}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteNotification(notification.id);
+                        }}
                       >
                         <Trash2 className="h-3 w-3" />
                       </Button>
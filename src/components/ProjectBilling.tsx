@@ -0,0 +1,409 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { InvoiceDialog } from "@/components/InvoiceDialog";
+import { useToast } from "@/hooks/use-toast";
+import { CURRENCIES, USER_ROLES } from "@/config/appConfig";
+import { BillingProject, formatMoney, getInvoiceTotal, Invoice, InvoiceLine } from "@/lib/billing";
+import { AppRole } from "@/lib/workflow";
+import { endOfMonth, format, parseISO, startOfMonth, subMonths } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { Calendar as CalendarIcon, FilePlus, Loader2, Plus, X } from "lucide-react";
+
+interface ProjectRate {
+  id: string;
+  user_id: string | null;
+  role: AppRole | null;
+  hourly_rate: number;
+  profiles: { full_name: string } | null;
+}
+
+interface Member {
+  id: string;
+  full_name: string;
+}
+
+type InvoiceSummary = Invoice & { invoice_lines: Pick<InvoiceLine, "quantity" | "unit_price">[] };
+
+interface ProjectBillingProps {
+  project: BillingProject;
+  onProjectUpdated: (project: BillingProject) => void;
+}
+
+const DEFAULT_RATE = "default";
+
+// Client details, hourly rates and invoices of a project (admins and managers)
+export function ProjectBilling({ project, onProjectUpdated }: ProjectBillingProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [clientName, setClientName] = useState(project.client_name || "");
+  const [contactName, setContactName] = useState(project.billing_contact_name || "");
+  const [contactEmail, setContactEmail] = useState(project.billing_contact_email || "");
+  const [currency, setCurrency] = useState(project.currency);
+  const [savingClient, setSavingClient] = useState(false);
+
+  const [rates, setRates] = useState<ProjectRate[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [rateTarget, setRateTarget] = useState(DEFAULT_RATE);
+  const [rateValue, setRateValue] = useState("");
+
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+  const lastMonth = subMonths(new Date(), 1);
+  const [period, setPeriod] = useState<DateRange | undefined>({
+    from: startOfMonth(lastMonth),
+    to: endOfMonth(lastMonth),
+  });
+  const [drafting, setDrafting] = useState(false);
+  const [openInvoiceId, setOpenInvoiceId] = useState<string | null>(null);
+
+  const showError = useCallback(
+    (error: { message?: string }, fallback: string) =>
+      toast({
+        title: "Error",
+        description: error.message || fallback,
+        variant: "destructive",
+      }),
+    [toast]
+  );
+
+  const fetchBilling = useCallback(async () => {
+    try {
+      const [ratesResult, membersResult, invoicesResult] = await Promise.all([
+        supabase
+          .from("project_rates")
+          .select("id, user_id, role, hourly_rate, profiles(full_name)")
+          .eq("project_id", project.id),
+        supabase.from("project_members").select("profiles(id, full_name)").eq("project_id", project.id),
+        supabase
+          .from("invoices")
+          .select(
+            "id, project_id, number, status, currency, period_start, period_end, issued_on, due_on, notes, invoice_lines(quantity, unit_price)"
+          )
+          .eq("project_id", project.id)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (ratesResult.error) throw ratesResult.error;
+      if (invoicesResult.error) throw invoicesResult.error;
+
+      setRates(ratesResult.data || []);
+      setMembers(
+        (membersResult.data || [])
+          .map((m) => m.profiles)
+          .filter(Boolean)
+          .sort((a, b) => a.full_name.localeCompare(b.full_name))
+      );
+      setInvoices((invoicesResult.data || []) as InvoiceSummary[]);
+    } catch (error) {
+      console.error("Error fetching billing:", error);
+      showError(error, "Failed to load billing");
+    } finally {
+      setLoading(false);
+    }
+  }, [project.id, showError]);
+
+  useEffect(() => {
+    fetchBilling();
+  }, [fetchBilling]);
+
+  const handleSaveClient = async () => {
+    setSavingClient(true);
+    const changes = {
+      client_name: clientName.trim() || null,
+      billing_contact_name: contactName.trim() || null,
+      billing_contact_email: contactEmail.trim() || null,
+      currency,
+    };
+
+    const { data, error } = await supabase.from("projects").update(changes).eq("id", project.id).select("id");
+    setSavingClient(false);
+
+    if (error || !data || data.length === 0) {
+      console.error("Error updating client details:", error);
+      showError(error || { message: "You don't have permission to edit this project" }, "Failed to save client details");
+      return;
+    }
+    onProjectUpdated({ ...project, ...changes });
+    toast({ title: "Client details saved" });
+  };
+
+  const getRateLabel = (rate: Pick<ProjectRate, "user_id" | "role" | "profiles">) => {
+    if (rate.user_id) return rate.profiles?.full_name || "Unknown";
+    if (rate.role) return `All ${rate.role}s`;
+    return "Project default";
+  };
+
+  const handleSaveRate = async () => {
+    const hourlyRate = Number(rateValue);
+    if (rateValue.trim() === "" || Number.isNaN(hourlyRate) || hourlyRate < 0) return;
+
+    const [kind, value] = rateTarget.split(":");
+    const target = {
+      user_id: kind === "user" ? value : null,
+      role: kind === "role" ? (value as ProjectRate["role"]) : null,
+    };
+    const existing = rates.find((r) => r.user_id === target.user_id && r.role === target.role);
+
+    const { error } = existing
+      ? await supabase.from("project_rates").update({ hourly_rate: hourlyRate }).eq("id", existing.id)
+      : await supabase.from("project_rates").insert({ project_id: project.id, ...target, hourly_rate: hourlyRate });
+
+    if (error) {
+      console.error("Error saving rate:", error);
+      showError(error, "Failed to save rate");
+      return;
+    }
+    setRateValue("");
+    setRateTarget(DEFAULT_RATE);
+    fetchBilling();
+  };
+
+  const handleDeleteRate = async (rateId: string) => {
+    const { error } = await supabase.from("project_rates").delete().eq("id", rateId);
+    if (error) {
+      console.error("Error deleting rate:", error);
+      showError(error, "Failed to delete rate");
+      return;
+    }
+    setRates((prev) => prev.filter((r) => r.id !== rateId));
+  };
+
+  const handleCreateDraft = async () => {
+    if (!period?.from) return;
+    setDrafting(true);
+
+    const { data, error } = await supabase.rpc("create_invoice_draft", {
+      _project_id: project.id,
+      _from: format(period.from, "yyyy-MM-dd"),
+      _to: format(period.to || period.from, "yyyy-MM-dd"),
+    });
+
+    setDrafting(false);
+    if (error) {
+      console.error("Error drafting invoice:", error);
+      showError(error, "Failed to draft invoice");
+      return;
+    }
+    await fetchBilling();
+    setOpenInvoiceId(data);
+  };
+
+  if (loading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  // Defaults first, then roles, then people
+  const sortedRates = [...rates].sort(
+    (a, b) =>
+      Number(!!a.user_id) - Number(!!b.user_id) ||
+      Number(!!a.role) - Number(!!b.role) ||
+      getRateLabel(a).localeCompare(getRateLabel(b))
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-base">Client</CardTitle>
+            <CardDescription>Who this project's invoices are addressed to</CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="client-name">Client Name</Label>
+              <Input
+                id="client-name"
+                value={clientName}
+                onChange={(e) => setClientName(e.target.value)}
+                placeholder="Acme Inc."
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="contact-name">Billing Contact</Label>
+                <Input
+                  id="contact-name"
+                  value={contactName}
+                  onChange={(e) => setContactName(e.target.value)}
+                  placeholder="Jane Doe"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact-email">Billing Email</Label>
+                <Input
+                  id="contact-email"
+                  type="email"
+                  value={contactEmail}
+                  onChange={(e) => setContactEmail(e.target.value)}
+                  placeholder="billing@acme.com"
+                />
+              </div>
+            </div>
+            <div className="flex items-end justify-between gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="currency">Currency</Label>
+                <Select value={currency} onValueChange={setCurrency}>
+                  <SelectTrigger id="currency" className="w-[110px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button size="sm" onClick={handleSaveClient} disabled={savingClient}>
+                {savingClient ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-base">Hourly Rates</CardTitle>
+            <CardDescription>A person's rate wins over their role's, which wins over the default</CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 space-y-3">
+            <div className="space-y-1">
+              {sortedRates.map((rate) => (
+                <div key={rate.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{getRateLabel(rate)}</span>
+                  <div className="flex items-center gap-1">
+                    <span className="font-medium">{formatMoney(rate.hourly_rate, project.currency)}/h</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="Remove rate"
+                      onClick={() => handleDeleteRate(rate.id)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {rates.length === 0 && (
+                <p className="text-sm text-muted-foreground">No rates yet. Time can't be invoiced without one.</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Select value={rateTarget} onValueChange={setRateTarget}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_RATE}>Project default</SelectItem>
+                  {USER_ROLES.map((role) => (
+                    <SelectItem key={role} value={`role:${role}`}>
+                      All {role}s
+                    </SelectItem>
+                  ))}
+                  {members.map((member) => (
+                    <SelectItem key={member.id} value={`user:${member.id}`}>
+                      {member.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={rateValue}
+                onChange={(e) => setRateValue(e.target.value)}
+                placeholder="Rate"
+                className="w-24"
+              />
+              <Button size="icon" variant="outline" title="Set rate" onClick={handleSaveRate}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 space-y-0">
+          <div>
+            <CardTitle className="text-base">Invoices</CardTitle>
+            <CardDescription>Drafted from billable time in approved timesheets</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {period?.from
+                    ? `${format(period.from, "MMM d")} – ${format(period.to || period.from, "MMM d, yyyy")}`
+                    : "Pick a period"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar mode="range" selected={period} onSelect={setPeriod} numberOfMonths={2} initialFocus />
+              </PopoverContent>
+            </Popover>
+            <Button size="sm" onClick={handleCreateDraft} disabled={drafting || !period?.from}>
+              {drafting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FilePlus className="mr-2 h-4 w-4" />}
+              Draft Invoice
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {invoices.length === 0 ? (
+            <p className="px-4 pb-6 text-sm text-muted-foreground">No invoices yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map((invoice) => (
+                  <TableRow key={invoice.id} className="cursor-pointer" onClick={() => setOpenInvoiceId(invoice.id)}>
+                    <TableCell className="font-medium">{invoice.number}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(parseISO(invoice.period_start), "MMM d")} –{" "}
+                      {format(parseISO(invoice.period_end), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={invoice.status === "issued" ? "default" : "outline"}>
+                        {invoice.status === "issued" ? "Issued" : "Draft"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(getInvoiceTotal(invoice.invoice_lines), invoice.currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <InvoiceDialog
+        invoiceId={openInvoiceId}
+        project={project}
+        onOpenChange={(open) => !open && setOpenInvoiceId(null)}
+        onChanged={fetchBilling}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { getTaskLink } from "@/lib/notifications";
+import { DeliverableVersion, getCurrentVersion, getReviewRounds } from "@/lib/deliverables";
+import { Layers } from "lucide-react";
+
+interface ReportDeliverable {
+  id: string;
+  name: string;
+  tasks: { id: string; title: string; status: string };
+  deliverable_versions: Pick<DeliverableVersion, "version_number" | "is_current" | "review_round">[];
+}
+
+interface ProjectDeliverablesReportProps {
+  projectId: string;
+  includedRounds: number;
+  canEdit: boolean;
+  onIncludedRoundsChange: (rounds: number) => void;
+  refreshKey?: number;
+}
+
+// Review rounds per deliverable, flagged when they go over what the project includes
+export function ProjectDeliverablesReport({
+  projectId,
+  includedRounds,
+  canEdit,
+  onIncludedRoundsChange,
+  refreshKey,
+}: ProjectDeliverablesReportProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [deliverables, setDeliverables] = useState<ReportDeliverable[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [roundsValue, setRoundsValue] = useState(String(includedRounds));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setRoundsValue(String(includedRounds));
+  }, [includedRounds]);
+
+  const fetchDeliverables = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("task_deliverables")
+        .select("id, name, tasks!inner(id, title, status, project_id), deliverable_versions(version_number, is_current, review_round)")
+        .eq("tasks.project_id", projectId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setDeliverables(data || []);
+    } catch (error) {
+      console.error("Error fetching deliverables report:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load deliverables",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    fetchDeliverables();
+  }, [fetchDeliverables, refreshKey]);
+
+  const handleSaveRounds = async () => {
+    const rounds = Number(roundsValue);
+    if (!Number.isInteger(rounds) || rounds < 1) return;
+
+    setSaving(true);
+    const { data, error } = await supabase
+      .from("projects")
+      .update({ included_review_rounds: rounds })
+      .eq("id", projectId)
+      .select("id");
+    setSaving(false);
+
+    if (error || !data || data.length === 0) {
+      console.error("Error updating included review rounds:", error);
+      toast({
+        title: "Error",
+        description: error?.message || "You don't have permission to edit this project",
+        variant: "destructive",
+      });
+      return;
+    }
+    onIncludedRoundsChange(rounds);
+    toast({ title: "Included review rounds saved" });
+  };
+
+  if (loading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  const rows = deliverables.map((deliverable) => ({
+    ...deliverable,
+    rounds: getReviewRounds(deliverable.deliverable_versions),
+    current: getCurrentVersion(deliverable.deliverable_versions),
+  }));
+  const overCount = rows.filter((row) => row.rounds > includedRounds).length;
+  const totalRounds = rows.reduce((total, row) => total + row.rounds, 0);
+
+  const stats = [
+    { label: "Deliverables", value: rows.length },
+    { label: "Versions", value: rows.reduce((total, row) => total + row.deliverable_versions.length, 0) },
+    { label: "Average rounds", value: rows.length > 0 ? (totalRounds / rows.length).toFixed(1) : "0" },
+    { label: "Over included rounds", value: overCount, over: overCount > 0 },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className={`text-2xl font-bold ${stat.over ? "text-destructive" : ""}`}>{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_280px]">
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-base">Deliverables</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {rows.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <Layers className="h-10 w-10 text-muted-foreground mb-3" />
+                <p className="text-muted-foreground">No deliverables yet. Add one from a task to track its versions.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Deliverable</TableHead>
+                    <TableHead className="text-right">Versions</TableHead>
+                    <TableHead className="text-right">Current</TableHead>
+                    <TableHead className="text-right">Rounds</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow
+                      key={row.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(getTaskLink(projectId, row.tasks.id))}
+                    >
+                      <TableCell>
+                        <p className="font-medium">{row.name}</p>
+                        <p className="text-xs text-muted-foreground">{row.tasks.title}</p>
+                      </TableCell>
+                      <TableCell className="text-right">{row.deliverable_versions.length}</TableCell>
+                      <TableCell className="text-right">{row.current ? `v${row.current.version_number}` : "–"}</TableCell>
+                      <TableCell className="text-right">
+                        <span className={row.rounds > includedRounds ? "text-destructive font-medium" : ""}>
+                          {row.rounds}
+                        </span>
+                        {row.rounds > includedRounds && (
+                          <Badge variant="destructive" className="ml-2">
+                            Over by {row.rounds - includedRounds}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-base">Included Review Rounds</CardTitle>
+            <CardDescription>
+              Each new version sent to internal or client review counts as a round
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 space-y-2">
+            {canEdit ? (
+              <>
+                <Label htmlFor="included-rounds">Rounds per deliverable</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="included-rounds"
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={roundsValue}
+                    onChange={(e) => setRoundsValue(e.target.value)}
+                  />
+                  <Button
+                    onClick={handleSaveRounds}
+                    disabled={saving || roundsValue === String(includedRounds)}
+                  >
+                    Save
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <p className="text-2xl font-bold">{includedRounds}</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -6,7 +6,20 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { getTemplateRoles, ProjectTemplate } from "@/lib/templates";
+import { withoutClients } from "@/lib/members";
 import { toast } from "sonner";
+import { format, startOfDay } from "date-fns";
+import { Calendar as CalendarIcon } from "lucide-react";
+
+interface ProfileOption {
+  id: string;
+  full_name: string;
+}
+
+const BLANK_PROJECT = "blank";
 
 interface ProjectDialogProps {
   open: boolean;
@@ -19,27 +32,108 @@ export function ProjectDialog({ open, onOpenChange, onSuccess }: ProjectDialogPr
   const [description, setDescription] = useState("");
   const [status, setStatus] = useState<"active" | "on_hold" | "completed">("active");
   const [brandColor, setBrandColor] = useState("#0f172a");
+  const [clientName, setClientName] = useState("");
+  const [contactName, setContactName] = useState("");
+  const [contactEmail, setContactEmail] = useState("");
   const [loading, setLoading] = useState(false);
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [profiles, setProfiles] = useState<ProfileOption[]>([]);
+  const [templateId, setTemplateId] = useState(BLANK_PROJECT);
+  const [startDate, setStartDate] = useState<Date>(startOfDay(new Date()));
+  const [roleAssignees, setRoleAssignees] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchTemplates = async () => {
+      const [templatesResult, profilesResult] = await Promise.all([
+        supabase
+          .from("project_templates")
+          .select("id, name, description, brand_color, statuses, tasks")
+          .order("name"),
+        supabase.from("profiles").select("id, full_name").eq("is_active", true).order("full_name"),
+      ]);
+
+      if (templatesResult.error) {
+        console.error("Error fetching project templates:", templatesResult.error);
+        return;
+      }
+      setTemplates((templatesResult.data || []) as unknown as ProjectTemplate[]);
+      try {
+        setProfiles(await withoutClients(profilesResult.data || []));
+      } catch (error) {
+        console.error("Error fetching client roles:", error);
+      }
+    };
+
+    fetchTemplates();
+  }, [open]);
+
+  const template = templates.find((t) => t.id === templateId);
+  const roles = template ? getTemplateRoles(template.tasks) : [];
+
+  const handleTemplateChange = (value: string) => {
+    setTemplateId(value);
+    setRoleAssignees({});
+    const selected = templates.find((t) => t.id === value);
+    if (selected) {
+      setBrandColor(selected.brand_color);
+      if (!description) setDescription(selected.description || "");
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
+    const client = {
+      client_name: clientName.trim() || null,
+      billing_contact_name: contactName.trim() || null,
+      billing_contact_email: contactEmail.trim() || null,
+    };
+
     try {
-      const { error } = await supabase.from("projects").insert({
-        name,
-        description: description || null,
-        status: status as any,
-        brand_color: brandColor,
-      });
+      if (template) {
+        // Roles left unfilled leave their tasks unassigned
+        const { data, error } = await supabase.rpc("create_project_from_template", {
+          _template_id: template.id,
+          _name: name,
+          _description: description || undefined,
+          _start_date: startDate.toISOString(),
+          _role_assignees: Object.fromEntries(
+            Object.entries(roleAssignees).filter(([role, userId]) => roles.includes(role) && userId)
+          ),
+        });
+
+        if (error) throw error;
+
+        if (client.client_name || client.billing_contact_name || client.billing_contact_email) {
+          const { error: clientError } = await supabase.from("projects").update(client).eq("id", data);
+          if (clientError) throw clientError;
+        }
+      } else {
+        const { error } = await supabase.from("projects").insert({
+          name,
+          description: description || null,
+          status: status as any,
+          brand_color: brandColor,
+          ...client,
+        });
 
-      if (error) throw error;
+        if (error) throw error;
+      }
 
       toast.success("Project created successfully!");
       setName("");
       setDescription("");
       setStatus("active");
       setBrandColor("#0f172a");
+      setClientName("");
+      setContactName("");
+      setContactEmail("");
+      setTemplateId(BLANK_PROJECT);
+      setStartDate(startOfDay(new Date()));
+      setRoleAssignees({});
       onOpenChange(false);
       onSuccess();
     } catch (error: any) {
@@ -52,12 +146,37 @@ export function ProjectDialog({ open, onOpenChange, onSuccess }: ProjectDialogPr
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Project</DialogTitle>
           <DialogDescription>Add a new project to your agency portfolio.</DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
+          {templates.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="template">Start From</Label>
+              <Select value={templateId} onValueChange={handleTemplateChange}>
+                <SelectTrigger id="template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BLANK_PROJECT}>Blank project</SelectItem>
+                  {templates.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {template && (
+                <p className="text-xs text-muted-foreground">
+                  {template.tasks.length} task{template.tasks.length === 1 ? "" : "s"}
+                  {template.statuses.length > 0 && `, ${template.statuses.length}-step workflow`}
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="name">Project Name</Label>
             <Input
@@ -80,42 +199,128 @@ export function ProjectDialog({ open, onOpenChange, onSuccess }: ProjectDialogPr
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="clientName">Client</Label>
+            <Input
+              id="clientName"
+              value={clientName}
+              onChange={(e) => setClientName(e.target.value)}
+              placeholder="Acme Inc."
+            />
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="status">Status</Label>
-              <Select value={status} onValueChange={(value: any) => setStatus(value)}>
-                <SelectTrigger id="status">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="active">Active</SelectItem>
-                  <SelectItem value="on_hold">On Hold</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
-                </SelectContent>
-              </Select>
+              <Label htmlFor="contactName">Billing Contact</Label>
+              <Input
+                id="contactName"
+                value={contactName}
+                onChange={(e) => setContactName(e.target.value)}
+                placeholder="Jane Doe"
+              />
             </div>
-
             <div className="space-y-2">
-              <Label htmlFor="brandColor">Brand Color</Label>
-              <div className="flex gap-2">
-                <Input
-                  id="brandColor"
-                  type="color"
-                  value={brandColor}
-                  onChange={(e) => setBrandColor(e.target.value)}
-                  className="w-16 h-10 p-1 cursor-pointer"
-                />
-                <Input
-                  type="text"
-                  value={brandColor}
-                  onChange={(e) => setBrandColor(e.target.value)}
-                  placeholder="#0f172a"
-                  className="flex-1"
-                />
-              </div>
+              <Label htmlFor="contactEmail">Billing Email</Label>
+              <Input
+                id="contactEmail"
+                type="email"
+                value={contactEmail}
+                onChange={(e) => setContactEmail(e.target.value)}
+                placeholder="billing@acme.com"
+              />
             </div>
           </div>
 
+          {template ? (
+            <>
+              <div className="space-y-2">
+                <Label>Start Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-full justify-start text-left font-normal">
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {format(startDate, "PPP")}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={startDate}
+                      onSelect={(date) => date && setStartDate(date)}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                <p className="text-xs text-muted-foreground">Task dates are set relative to this day.</p>
+              </div>
+
+              {roles.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Roles</Label>
+                  {roles.map((role) => (
+                    <div key={role} className="flex items-center gap-2">
+                      <span className="w-1/3 truncate text-sm">{role}</span>
+                      <Select
+                        value={roleAssignees[role] || ""}
+                        onValueChange={(value) => setRoleAssignees({ ...roleAssignees, [role]: value })}
+                      >
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Unassigned" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {profiles.map((profile) => (
+                            <SelectItem key={profile.id} value={profile.id}>
+                              {profile.full_name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    People picked here join the project and are assigned their role's tasks.
+                  </p>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="status">Status</Label>
+                <Select value={status} onValueChange={(value: any) => setStatus(value)}>
+                  <SelectTrigger id="status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="on_hold">On Hold</SelectItem>
+                    <SelectItem value="completed">Completed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="brandColor">Brand Color</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="brandColor"
+                    type="color"
+                    value={brandColor}
+                    onChange={(e) => setBrandColor(e.target.value)}
+                    className="w-16 h-10 p-1 cursor-pointer"
+                  />
+                  <Input
+                    type="text"
+                    value={brandColor}
+                    onChange={(e) => setBrandColor(e.target.value)}
+                    placeholder="#0f172a"
+                    className="flex-1"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
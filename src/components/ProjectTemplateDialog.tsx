@@ -0,0 +1,346 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { STATUS_COLOR_PRESETS, TASK_PRIORITIES } from "@/config/appConfig";
+import { ProjectTemplate, TemplateStatus, TemplateTask } from "@/lib/templates";
+import { Diamond, Loader2, Plus, Trash2 } from "lucide-react";
+
+interface ProjectTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Omitted to create a new, empty template
+  template?: ProjectTemplate;
+  onSaved: () => void;
+}
+
+const NEW_STATUS: TemplateStatus = {
+  name: "",
+  color: STATUS_COLOR_PRESETS[1],
+  is_done: false,
+  wip_limit: null,
+  wip_limit_per_user: null,
+  wip_hard_limit: false,
+  is_internal_review: false,
+  is_client_review: false,
+};
+
+const NEW_TASK: TemplateTask = {
+  title: "",
+  description: null,
+  priority: "P2-Medium",
+  start_offset_days: null,
+  due_offset_days: null,
+  assignee_role: null,
+  is_milestone: false,
+  checklist: [],
+};
+
+const parseOffset = (value: string) => (value === "" ? null : Math.max(0, Math.floor(Number(value)) || 0));
+
+// Returns the first problem with the template, or null if it can be saved
+const validate = (statuses: TemplateStatus[], tasks: TemplateTask[]) => {
+  const names = statuses.map((s) => s.name.trim().toLowerCase());
+  if (names.some((n) => !n)) return "Every status needs a name";
+  if (new Set(names).size !== names.length) return "Status names must be unique";
+  if (tasks.some((t) => !t.title.trim())) return "Every task needs a title";
+  const invalid = tasks.find(
+    (t) => t.start_offset_days !== null && t.due_offset_days !== null && t.start_offset_days > t.due_offset_days
+  );
+  if (invalid) return `"${invalid.title}" starts after it is due`;
+  return null;
+};
+
+// Edits a project template's workflow and task list. A template without
+// statuses gives new projects the default workflow.
+export function ProjectTemplateDialog({ open, onOpenChange, template, onSaved }: ProjectTemplateDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [brandColor, setBrandColor] = useState("#0f172a");
+  const [statuses, setStatuses] = useState<TemplateStatus[]>([]);
+  const [tasks, setTasks] = useState<TemplateTask[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name || "");
+    setDescription(template?.description || "");
+    setBrandColor(template?.brand_color || "#0f172a");
+    setStatuses(template?.statuses || []);
+    setTasks(template?.tasks || []);
+  }, [open, template]);
+
+  const updateStatus = (index: number, changes: Partial<TemplateStatus>) =>
+    setStatuses(statuses.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+
+  const updateTask = (index: number, changes: Partial<TemplateTask>) =>
+    setTasks(tasks.map((t, i) => (i === index ? { ...t, ...changes } : t)));
+
+  const problem = validate(statuses, tasks);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (problem) return;
+    setSaving(true);
+
+    const values = {
+      name: name.trim(),
+      description: description.trim() || null,
+      brand_color: brandColor,
+      statuses: statuses.map((s) => ({ ...s, name: s.name.trim() })),
+      tasks: tasks.map((t) => ({ ...t, title: t.title.trim(), assignee_role: t.assignee_role?.trim() || null })),
+    };
+
+    try {
+      if (template) {
+        const { data, error } = await supabase
+          .from("project_templates")
+          .update(values)
+          .eq("id", template.id)
+          .select("id");
+
+        if (error) throw error;
+        if (!data || data.length === 0) {
+          throw new Error("You don't have permission to edit this template");
+        }
+      } else {
+        const { error } = await supabase.from("project_templates").insert(values);
+        if (error) throw error;
+      }
+
+      toast({ title: "Template saved" });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error("Error saving project template:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Project Template" : "New Project Template"}</DialogTitle>
+          <DialogDescription>
+            Offsets are days from the start date picked when a project is created from this template.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+            <div className="space-y-2">
+              <Label htmlFor="project-template-name">Name</Label>
+              <Input
+                id="project-template-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-template-color">Brand Color</Label>
+              <Input
+                id="project-template-color"
+                type="color"
+                value={brandColor}
+                onChange={(e) => setBrandColor(e.target.value)}
+                className="w-16 h-10 p-1 cursor-pointer"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="project-template-description">Description</Label>
+            <Textarea
+              id="project-template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Workflow</Label>
+            {statuses.length === 0 && (
+              <p className="text-xs text-muted-foreground">No statuses; projects get the default workflow.</p>
+            )}
+            {statuses.map((status, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="color"
+                  value={status.color}
+                  onChange={(e) => updateStatus(index, { color: e.target.value })}
+                  className="w-12 h-9 p-1 cursor-pointer"
+                />
+                <Input
+                  value={status.name}
+                  onChange={(e) => updateStatus(index, { name: e.target.value })}
+                  placeholder="Status name"
+                  className="h-9 flex-1"
+                />
+                <label className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+                  <Checkbox
+                    checked={status.is_done}
+                    onCheckedChange={(checked) => updateStatus(index, { is_done: checked === true })}
+                  />
+                  Done
+                </label>
+                <label className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+                  <Checkbox
+                    checked={status.is_internal_review}
+                    onCheckedChange={(checked) => updateStatus(index, { is_internal_review: checked === true })}
+                  />
+                  Review
+                </label>
+                <label className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+                  <Checkbox
+                    checked={status.is_client_review}
+                    onCheckedChange={(checked) => updateStatus(index, { is_client_review: checked === true })}
+                  />
+                  Client review
+                </label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  title="Remove status"
+                  onClick={() => setStatuses(statuses.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => setStatuses([...statuses, NEW_STATUS])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Status
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tasks</Label>
+            {tasks.length > 0 && (
+              <div className="hidden sm:grid grid-cols-[1fr_110px_64px_64px_110px_36px_36px] gap-2 text-xs text-muted-foreground">
+                <span>Title</span>
+                <span>Priority</span>
+                <span>Start</span>
+                <span>Due</span>
+                <span>Role</span>
+                <span />
+                <span />
+              </div>
+            )}
+            {tasks.map((task, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-2 sm:grid-cols-[1fr_110px_64px_64px_110px_36px_36px] gap-2 items-center"
+              >
+                <Input
+                  value={task.title}
+                  onChange={(e) => updateTask(index, { title: e.target.value })}
+                  placeholder="Task title"
+                  className="h-9 col-span-2 sm:col-span-1"
+                />
+                <Select value={task.priority} onValueChange={(value) => updateTask(index, { priority: value })}>
+                  <SelectTrigger className="h-9 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TASK_PRIORITIES.map((priority) => (
+                      <SelectItem key={priority} value={priority}>
+                        {priority}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  value={task.start_offset_days ?? ""}
+                  onChange={(e) => updateTask(index, { start_offset_days: parseOffset(e.target.value) })}
+                  placeholder="–"
+                  title="Start (days from project start)"
+                  className="h-9"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={task.due_offset_days ?? ""}
+                  onChange={(e) => updateTask(index, { due_offset_days: parseOffset(e.target.value) })}
+                  placeholder="–"
+                  title="Due (days from project start)"
+                  className="h-9"
+                />
+                <Input
+                  value={task.assignee_role || ""}
+                  onChange={(e) => updateTask(index, { assignee_role: e.target.value })}
+                  placeholder="Role"
+                  className="h-9"
+                />
+                <Button
+                  type="button"
+                  variant={task.is_milestone ? "secondary" : "ghost"}
+                  size="icon"
+                  title={task.is_milestone ? "Milestone" : "Mark as milestone"}
+                  onClick={() => updateTask(index, { is_milestone: !task.is_milestone })}
+                >
+                  <Diamond className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  title="Remove task"
+                  onClick={() => setTasks(tasks.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => setTasks([...tasks, NEW_TASK])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Task
+            </Button>
+          </div>
+
+          {problem && <p className="text-sm text-destructive">{problem}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim() || !!problem}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Template
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { getTaskLink } from "@/lib/notifications";
+import { formatMinutes, sumMinutes } from "@/lib/time";
+import { Timer } from "lucide-react";
+
+interface ReportTask {
+  id: string;
+  title: string;
+  status: string;
+  estimate_minutes: number | null;
+  time_entries: {
+    minutes: number | null;
+    is_billable: boolean;
+    user_id: string;
+    profiles: { full_name: string } | null;
+  }[];
+}
+
+interface ProjectTimeReportProps {
+  projectId: string;
+  refreshKey?: number;
+}
+
+// Estimate vs actual for a project: totals, time per person and per task
+export function ProjectTimeReport({ projectId, refreshKey }: ProjectTimeReportProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<ReportTask[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTasks = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select("id, title, status, estimate_minutes, time_entries(minutes, is_billable, user_id, profiles(full_name))")
+        .eq("project_id", projectId)
+        .order("position", { ascending: true });
+
+      if (error) throw error;
+      setTasks(data || []);
+    } catch (error) {
+      console.error("Error fetching time report:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load time report",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks, refreshKey]);
+
+  if (loading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  const entries = tasks.flatMap((t) => t.time_entries);
+  const estimated = tasks.reduce((total, t) => total + (t.estimate_minutes ?? 0), 0);
+  const logged = sumMinutes(entries);
+  const billable = sumMinutes(entries.filter((e) => e.is_billable));
+  // Only tasks with an estimate count towards the variance
+  const estimatedTasks = tasks.filter((t) => t.estimate_minutes);
+  const loggedOnEstimated = sumMinutes(estimatedTasks.flatMap((t) => t.time_entries));
+
+  const people = new Map<string, { name: string; minutes: number }>();
+  entries.forEach((e) => {
+    const person = people.get(e.user_id) || { name: e.profiles?.full_name || "Unknown", minutes: 0 };
+    person.minutes += e.minutes ?? 0;
+    people.set(e.user_id, person);
+  });
+
+  const rows = tasks.filter((t) => t.estimate_minutes || t.time_entries.some((e) => e.minutes));
+
+  const stats = [
+    { label: "Estimated", value: formatMinutes(estimated) },
+    { label: "Logged", value: formatMinutes(logged) },
+    { label: "Billable", value: formatMinutes(billable) },
+    {
+      label: loggedOnEstimated > estimated ? "Over estimate" : "Under estimate",
+      value: formatMinutes(Math.abs(estimated - loggedOnEstimated)),
+      over: loggedOnEstimated > estimated,
+    },
+  ];
+
+  if (rows.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+          <Timer className="h-10 w-10 text-muted-foreground mb-3" />
+          <p className="text-muted-foreground">
+            No time logged or estimated yet. Add an estimate or start a timer from a task.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className={`text-2xl font-bold ${stat.over ? "text-destructive" : ""}`}>{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_280px]">
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-base">Tasks</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Task</TableHead>
+                  <TableHead className="text-right">Estimate</TableHead>
+                  <TableHead className="text-right">Logged</TableHead>
+                  <TableHead className="text-right">Difference</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((task) => {
+                  const taskLogged = sumMinutes(task.time_entries);
+                  const difference = task.estimate_minutes ? taskLogged - task.estimate_minutes : null;
+                  return (
+                    <TableRow
+                      key={task.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(getTaskLink(projectId, task.id))}
+                    >
+                      <TableCell>
+                        <p className="font-medium">{task.title}</p>
+                        <p className="text-xs text-muted-foreground">{task.status}</p>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {task.estimate_minutes ? formatMinutes(task.estimate_minutes) : "–"}
+                      </TableCell>
+                      <TableCell className="text-right">{formatMinutes(taskLogged)}</TableCell>
+                      <TableCell
+                        className={`text-right ${difference !== null && difference > 0 ? "text-destructive font-medium" : "text-muted-foreground"}`}
+                      >
+                        {difference === null
+                          ? "–"
+                          : `${difference > 0 ? "+" : difference < 0 ? "−" : ""}${formatMinutes(Math.abs(difference))}`}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-base">People</CardTitle>
+            <CardDescription>Time logged in this project</CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 space-y-2">
+            {[...people.entries()]
+              .sort(([, a], [, b]) => b.minutes - a.minutes)
+              .map(([userId, person]) => (
+                <div key={userId} className="flex items-center justify-between text-sm">
+                  <span className="truncate">{person.name}</span>
+                  <span className="font-medium">{formatMinutes(person.minutes)}</span>
+                </div>
+              ))}
+            {people.size === 0 && <p className="text-sm text-muted-foreground">No time logged yet</p>}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,10 @@ import { useEffect, useState } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { User, Session } from "@supabase/supabase-js";
+import { CLIENT_ROLE } from "@/config/appConfig";
+
+// The only pages client reviewers can open
+const CLIENT_PATHS = ["/portal", "/change-password"];
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -16,11 +20,10 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
 
   useEffect(() => {
     const checkUserAccess = async (userId: string) => {
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("is_active, force_password_change")
-        .eq("id", userId)
-        .single();
+      const [{ data: profile }, { data: roleData }] = await Promise.all([
+        supabase.from("profiles").select("is_active, force_password_change").eq("id", userId).single(),
+        supabase.from("user_roles").select("role").eq("user_id", userId).maybeSingle(),
+      ]);
 
       if (!profile?.is_active) {
         await supabase.auth.signOut();
@@ -34,16 +37,29 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
         return false;
       }
 
+      const isClient = roleData?.role === CLIENT_ROLE;
+      if (isClient && !CLIENT_PATHS.includes(location.pathname)) {
+        navigate("/portal", { replace: true });
+        return false;
+      }
+      if (!isClient && location.pathname === "/portal") {
+        navigate("/dashboard", { replace: true });
+        return false;
+      }
+
       return true;
     };
 
+    // Send the user back to the page they asked for (e.g. a task link) after signing in
+    const authPath = `/auth?redirect=${encodeURIComponent(location.pathname + location.search)}`;
+
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       async (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
         if (!session) {
-          navigate("/auth");
+          navigate(authPath);
         } else {
           // Use setTimeout to avoid deadlock
           setTimeout(async () => {
@@ -59,7 +75,7 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
       setSession(session);
       setUser(session?.user ?? null);
       if (!session) {
-        navigate("/auth");
+        navigate(authPath);
         setLoading(false);
       } else {
         await checkUserAccess(session.user.id);
@@ -68,7 +84,7 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     });
 
     return () => subscription.unsubscribe();
-  }, [navigate, location.pathname]);
+  }, [navigate, location.pathname, location.search]);
 
   if (loading) {
     return (
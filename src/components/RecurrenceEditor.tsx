@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  describeRecurrence,
+  formatRecurrenceRule,
+  getWeekday,
+  parseRecurrenceRule,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurrenceTrigger,
+  WEEKDAY_LABELS,
+  WEEKDAYS,
+  Weekday,
+} from "@/lib/recurrence";
+import { Repeat } from "lucide-react";
+
+interface RecurrenceEditorProps {
+  rule: string | null;
+  trigger: RecurrenceTrigger;
+  // Weekly and monthly rules start from the due date's weekday or day of the month
+  dueDate: Date | null;
+  onChange: (rule: string | null, trigger: RecurrenceTrigger) => void;
+}
+
+type Mode = "none" | RecurrenceFrequency | "custom";
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+  YEARLY: "year(s)",
+};
+
+export function RecurrenceEditor({ rule, trigger, dueDate, onChange }: RecurrenceEditorProps) {
+  const parsed = rule ? parseRecurrenceRule(rule) : null;
+  // Set once the user picks "Custom rule" or edits the text, so half-typed rules stay on screen
+  const [custom, setCustom] = useState(false);
+  const [customText, setCustomText] = useState("");
+
+  // Rules the presets can't show (e.g. with an end date) are edited as text
+  const mode: Mode = custom ? "custom" : !rule ? "none" : !parsed || parsed.until ? "custom" : parsed.freq;
+  const ruleText = custom ? customText : rule || "";
+  const customValid = !!parseRecurrenceRule(ruleText);
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!parsed) return;
+    onChange(formatRecurrenceRule({ ...parsed, ...changes }), trigger);
+  };
+
+  const handleModeChange = (value: Mode) => {
+    setCustom(value === "custom");
+    if (value === "none") {
+      onChange(null, trigger);
+    } else if (value === "custom") {
+      setCustomText(rule || "FREQ=WEEKLY");
+      const fromText = parseRecurrenceRule(rule || "FREQ=WEEKLY");
+      onChange(fromText ? formatRecurrenceRule(fromText) : null, trigger);
+    } else {
+      onChange(
+        formatRecurrenceRule({
+          freq: value,
+          interval: parsed?.interval ?? 1,
+          byDay: value === "WEEKLY" && dueDate ? [getWeekday(dueDate)] : [],
+          byMonthDay: value === "MONTHLY" && dueDate ? dueDate.getDate() : null,
+          until: null,
+        }),
+        trigger
+      );
+    }
+  };
+
+  const handleCustomChange = (text: string) => {
+    setCustom(true);
+    setCustomText(text);
+    const fromText = parseRecurrenceRule(text);
+    onChange(fromText ? formatRecurrenceRule(fromText) : null, trigger);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm flex items-center gap-1">
+        <Repeat className="h-4 w-4" />
+        Repeat
+      </Label>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={mode} onValueChange={(value) => handleModeChange(value as Mode)} disabled={!dueDate}>
+          <SelectTrigger className="h-9 w-[160px] text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="DAILY">Daily</SelectItem>
+            <SelectItem value="WEEKLY">Weekly</SelectItem>
+            <SelectItem value="MONTHLY">Monthly</SelectItem>
+            <SelectItem value="YEARLY">Yearly</SelectItem>
+            <SelectItem value="custom">Custom rule</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {parsed && mode !== "custom" && mode !== "none" && (
+          <span className="flex items-center gap-2 text-sm">
+            every
+            <Input
+              type="number"
+              min={1}
+              max={999}
+              value={parsed.interval}
+              onChange={(e) => update({ interval: Math.min(999, Math.max(1, Number(e.target.value) || 1)) })}
+              className="h-9 w-16"
+            />
+            {UNIT_LABELS[parsed.freq]}
+          </span>
+        )}
+      </div>
+
+      {!dueDate && <p className="text-xs text-muted-foreground">Set a due date to make this task repeat</p>}
+
+      {parsed && mode === "WEEKLY" && (
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          variant="outline"
+          className="justify-start flex-wrap"
+          value={parsed.byDay}
+          // At least one weekday stays selected
+          onValueChange={(days) => days.length > 0 && update({ byDay: days as Weekday[] })}
+        >
+          {WEEKDAYS.map((day) => (
+            <ToggleGroupItem key={day} value={day} className="text-xs h-8 px-2">
+              {WEEKDAY_LABELS[day]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {parsed && mode === "MONTHLY" && (
+        <Select
+          value={parsed.byMonthDay === -1 ? "last" : "day"}
+          onValueChange={(value) =>
+            update({ byMonthDay: value === "last" ? -1 : dueDate?.getDate() ?? parsed.byMonthDay })
+          }
+        >
+          <SelectTrigger className="h-9 w-[220px] text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day">
+              On day {parsed.byMonthDay !== null && parsed.byMonthDay !== -1 ? parsed.byMonthDay : dueDate?.getDate()}
+            </SelectItem>
+            <SelectItem value="last">On the last day of the month</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {mode === "custom" && (
+        <div className="space-y-1">
+          <Input
+            value={ruleText}
+            onChange={(e) => handleCustomChange(e.target.value)}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20271231"
+            className="h-9 font-mono text-xs"
+          />
+          {!customValid && (
+            <p className="text-xs text-destructive">
+              Use FREQ (DAILY, WEEKLY, MONTHLY or YEARLY) with optional INTERVAL, BYDAY, BYMONTHDAY and UNTIL
+            </p>
+          )}
+        </div>
+      )}
+
+      {rule && (
+        <>
+          <Select value={trigger} onValueChange={(value) => onChange(rule, value as RecurrenceTrigger)}>
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="on_complete">Create the next one when this one is done</SelectItem>
+              <SelectItem value="on_schedule">Create the next one when this one falls due</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {describeRecurrence(rule)}. The next task copies the title, description, priority, assignees and checklist.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
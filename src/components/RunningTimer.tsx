@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useRunningTimer } from "@/hooks/use-running-timer";
+import { getTaskLink } from "@/lib/notifications";
+import { formatElapsed } from "@/lib/time";
+import { Square, Timer } from "lucide-react";
+
+// Header pill for the current user's running timer, linking back to its task
+export function RunningTimer() {
+  const { toast } = useToast();
+  const { running, stop } = useRunningTimer();
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  if (!running) return null;
+
+  const handleStop = async () => {
+    try {
+      const logged = await stop();
+      toast({
+        title: logged ? "Time logged" : "Timer discarded",
+        description: logged ? running.tasks?.title : "Timers under a minute aren't logged",
+      });
+    } catch (error) {
+      console.error("Error stopping timer:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to stop timer",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 rounded-full border border-accent/50 bg-accent/10 pl-3 pr-1 py-0.5 text-sm min-w-0">
+      <Timer className="h-4 w-4 text-accent shrink-0" />
+      <span className="font-mono tabular-nums">{formatElapsed(new Date(running.started_at), now)}</span>
+      {running.tasks && (
+        <Link
+          to={getTaskLink(running.tasks.project_id, running.task_id)}
+          className="hidden sm:inline max-w-[200px] truncate text-muted-foreground hover:text-foreground ml-1"
+        >
+          {running.tasks.title}
+        </Link>
+      )}
+      <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full" title="Stop timer" onClick={handleStop}>
+        <Square className="h-3 w-3 fill-current" />
+      </Button>
+    </div>
+  );
+}
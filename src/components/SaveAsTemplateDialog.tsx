@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { saveProjectAsTemplate } from "@/lib/templates";
+import { Loader2 } from "lucide-react";
+
+interface SaveAsTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  projectName: string;
+  projectDescription: string | null;
+}
+
+interface Assignee {
+  user_id: string;
+  full_name: string;
+}
+
+export function SaveAsTemplateDialog({
+  open,
+  onOpenChange,
+  projectId,
+  projectName,
+  projectDescription,
+}: SaveAsTemplateDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [assignees, setAssignees] = useState<Assignee[]>([]);
+  const [roleNames, setRoleNames] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(`${projectName} template`);
+    setDescription(projectDescription || "");
+    setRoleNames({});
+
+    // Everyone assigned to a top-level task, so their work can become a role
+    const fetchAssignees = async () => {
+      const { data, error } = await supabase
+        .from("task_assignees")
+        .select("user_id, profiles(full_name), tasks!inner(project_id, parent_task_id)")
+        .eq("tasks.project_id", projectId)
+        .is("tasks.parent_task_id", null);
+
+      if (error) {
+        console.error("Error fetching assignees:", error);
+        return;
+      }
+
+      const unique = new Map<string, Assignee>();
+      (data || []).forEach((a) => {
+        if (!unique.has(a.user_id)) {
+          unique.set(a.user_id, { user_id: a.user_id, full_name: a.profiles?.full_name || "Unknown" });
+        }
+      });
+      setAssignees([...unique.values()]);
+    };
+
+    fetchAssignees();
+  }, [open, projectId, projectName, projectDescription]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      await saveProjectAsTemplate(projectId, name.trim(), description.trim() || null, roleNames);
+      toast({
+        title: "Template saved",
+        description: `"${name.trim()}" can now be picked when creating a project`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving template:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Keeps the workflow, the brand colour and every top-level task with its checklist. Dates are kept relative
+            to the earliest date in the project.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Template Name</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} required />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          {assignees.length > 0 && (
+            <div className="space-y-2">
+              <Label>Roles</Label>
+              <p className="text-xs text-muted-foreground">
+                Name the role each person plays (e.g. Designer). When the template is used, each role is given to
+                someone new. Leave a role empty to leave their tasks unassigned.
+              </p>
+              {assignees.map((assignee) => (
+                <div key={assignee.user_id} className="flex items-center gap-2">
+                  <span className="w-1/2 truncate text-sm">{assignee.full_name}</span>
+                  <Input
+                    value={roleNames[assignee.user_id] || ""}
+                    onChange={(e) => setRoleNames({ ...roleNames, [assignee.user_id]: e.target.value })}
+                    placeholder="Role"
+                    className="h-9"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Template
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { callReviewLink, getReviewLinkUrl, REVIEW_LINK_EXPIRY_DAYS } from "@/lib/reviewLinks";
+import { addDays, format } from "date-fns";
+import { Copy, Loader2, Link2 } from "lucide-react";
+
+interface ShareForReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+}
+
+interface ReviewTask {
+  id: string;
+  title: string;
+}
+
+interface ReviewLinkRow {
+  id: string;
+  recipient_name: string | null;
+  expires_at: string;
+  revoked_at: string | null;
+  last_opened_at: string | null;
+  created_at: string;
+  review_link_tasks: { decision: string | null }[];
+}
+
+// Shares tasks waiting in a client review status with a client who has no
+// account, through a signed link that expires. The link is shown once; past
+// links can only be revoked.
+export function ShareForReviewDialog({ open, onOpenChange, projectId }: ShareForReviewDialogProps) {
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<ReviewTask[]>([]);
+  const [links, setLinks] = useState<ReviewLinkRow[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [recipientName, setRecipientName] = useState("");
+  const [expiryDays, setExpiryDays] = useState("7");
+  const [creating, setCreating] = useState(false);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    const [tasksResult, linksResult] = await Promise.all([
+      supabase
+        .from("tasks")
+        .select("id, title, workflow_status:project_statuses!tasks_project_status_fkey!inner(is_client_review)")
+        .eq("project_id", projectId)
+        .eq("workflow_status.is_client_review", true)
+        .order("title"),
+      supabase
+        .from("review_links")
+        .select("id, recipient_name, expires_at, revoked_at, last_opened_at, created_at, review_link_tasks(decision)")
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: false }),
+    ]);
+
+    if (tasksResult.error || linksResult.error) {
+      console.error("Error fetching review links:", tasksResult.error || linksResult.error);
+      toast({
+        title: "Error",
+        description: "Failed to load review links",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setTasks(tasksResult.data || []);
+    setLinks(linksResult.data || []);
+    setSelectedIds((tasksResult.data || []).map((t) => t.id));
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    if (!open) return;
+    setRecipientName("");
+    setExpiryDays("7");
+    setCreatedUrl(null);
+    fetchData();
+  }, [open, fetchData]);
+
+  const toggleTask = (taskId: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, taskId] : prev.filter((id) => id !== taskId)));
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const { token } = await callReviewLink<{ token: string }>({
+        action: "create",
+        taskIds: selectedIds,
+        expiresAt: addDays(new Date(), Number(expiryDays)).toISOString(),
+        recipientName: recipientName.trim() || null,
+      });
+      setCreatedUrl(getReviewLinkUrl(token));
+      fetchData();
+    } catch (error) {
+      console.error("Error creating review link:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create review link",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const copyUrl = async () => {
+    if (!createdUrl) return;
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Couldn't copy the link; select it and copy it manually",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const revokeLink = async (link: ReviewLinkRow) => {
+    const { data, error } = await supabase
+      .from("review_links")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", link.id)
+      .select("id");
+
+    if (error || !data?.length) {
+      console.error("Error revoking review link:", error);
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to revoke review link",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Review link revoked" });
+    fetchData();
+  };
+
+  const getLinkState = (link: ReviewLinkRow) => {
+    if (link.revoked_at) return <Badge variant="secondary">Revoked</Badge>;
+    if (new Date(link.expires_at) <= new Date()) return <Badge variant="outline">Expired</Badge>;
+    return <Badge>Active</Badge>;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share for Review</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can approve these tasks or leave feedback without signing in, until it expires or
+            is revoked.
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdUrl ? (
+          <div className="space-y-2">
+            <Label>Review link</Label>
+            <div className="flex gap-2">
+              <Input readOnly value={createdUrl} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+              <Button type="button" variant="outline" size="icon" title="Copy link" onClick={copyUrl}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">Copy it now; it won't be shown again.</p>
+          </div>
+        ) : tasks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tasks waiting for client review to share.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Tasks</Label>
+              {tasks.map((task) => (
+                <div key={task.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`review-task-${task.id}`}
+                    checked={selectedIds.includes(task.id)}
+                    onCheckedChange={(checked) => toggleTask(task.id, checked === true)}
+                  />
+                  <Label htmlFor={`review-task-${task.id}`} className="font-normal truncate">
+                    {task.title}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="review-recipient">Recipient (optional)</Label>
+                <Input
+                  id="review-recipient"
+                  value={recipientName}
+                  onChange={(e) => setRecipientName(e.target.value)}
+                  placeholder="e.g. Jane at Acme"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Expires after</Label>
+                <Select value={expiryDays} onValueChange={setExpiryDays}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REVIEW_LINK_EXPIRY_DAYS.map((days) => (
+                      <SelectItem key={days} value={String(days)}>
+                        {days === 1 ? "1 day" : `${days} days`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {links.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <Label>Shared links</Label>
+              {links.map((link) => {
+                const reviewed = link.review_link_tasks.filter((t) => t.decision).length;
+                const active = !link.revoked_at && new Date(link.expires_at) > new Date();
+                return (
+                  <div key={link.id} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate font-medium">{link.recipient_name || "Unnamed link"}</span>
+                        {getLinkState(link)}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {reviewed}/{link.review_link_tasks.length} reviewed · expires{" "}
+                        {format(new Date(link.expires_at), "MMM d, yyyy")}
+                        {link.last_opened_at && ` · opened ${format(new Date(link.last_opened_at), "MMM d, yyyy")}`}
+                      </p>
+                    </div>
+                    {active && (
+                      <Button type="button" variant="outline" size="sm" onClick={() => revokeLink(link)}>
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            {createdUrl ? "Done" : "Cancel"}
+          </Button>
+          {!createdUrl && tasks.length > 0 && (
+            <Button type="button" onClick={handleCreate} disabled={creating || selectedIds.length === 0}>
+              {creating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+              Create Link
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,18 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { getStatusBadgeStyle } from "@/lib/workflow";
+
+interface StatusBadgeProps {
+  status: string;
+  color?: string | null;
+  className?: string;
+}
+
+// Badge tinted with the workflow status colour
+export function StatusBadge({ status, color, className }: StatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn("text-xs", className)} style={getStatusBadgeStyle(color)}>
+      {status}
+    </Badge>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+interface StatusNoteDialogProps {
+  open: boolean;
+  fromStatus: string;
+  toStatus: string;
+  onConfirm: (note: string) => void;
+  onCancel: () => void;
+}
+
+// Asks for the note a workflow transition requires before the move is saved
+export function StatusNoteDialog({ open, fromStatus, toStatus, onConfirm, onCancel }: StatusNoteDialogProps) {
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (open) setNote("");
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Note required</DialogTitle>
+          <DialogDescription>
+            Moving a task from "{fromStatus}" to "{toStatus}" requires a note, e.g. what was reviewed.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Add a review note"
+          rows={3}
+          autoFocus
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(note.trim())} disabled={!note.trim()}>
+            Move Task
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
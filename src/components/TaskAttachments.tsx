@@ -0,0 +1,310 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ATTACHMENTS_BUCKET,
+  ATTACHMENT_URL_TTL_SECONDS,
+  MAX_ATTACHMENT_BYTES,
+  TaskAttachment,
+  canPreview,
+  formatFileSize,
+  getAttachmentPath,
+  isImage,
+} from "@/lib/attachments";
+import { format } from "date-fns";
+import { Download, FileText, Loader2, Paperclip, X } from "lucide-react";
+
+interface AttachmentRow extends TaskAttachment {
+  profiles: { full_name: string } | null;
+}
+
+interface TaskAttachmentsProps {
+  taskId: string;
+  // Clients can look at and download files but not add or remove them
+  readOnly?: boolean;
+}
+
+export function TaskAttachments({ taskId, readOnly = false }: TaskAttachmentsProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<AttachmentRow[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [preview, setPreview] = useState<AttachmentRow | null>(null);
+
+  const showError = useCallback(
+    (error: { message?: string }, fallback: string) =>
+      toast({
+        title: "Error",
+        description: error.message || fallback,
+        variant: "destructive",
+      }),
+    [toast]
+  );
+
+  const fetchAttachments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("task_attachments")
+        .select("*, profiles(full_name)")
+        .eq("task_id", taskId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setAttachments(data || []);
+
+      // Signed URLs for thumbnails and previews; the bucket is private
+      const previewable = (data || []).filter((a) => canPreview(a.mime_type));
+      if (previewable.length > 0) {
+        const { data: signed, error: signError } = await supabase.storage
+          .from(ATTACHMENTS_BUCKET)
+          .createSignedUrls(previewable.map((a) => a.storage_path), ATTACHMENT_URL_TTL_SECONDS);
+
+        if (signError) throw signError;
+        setUrls(Object.fromEntries((signed || []).filter((s) => s.signedUrl).map((s) => [s.path, s.signedUrl])));
+      }
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  const uploadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    const tooLarge = files.filter((f) => f.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge.length > 0) {
+      showError(
+        { message: `${tooLarge.map((f) => f.name).join(", ")} exceed${tooLarge.length === 1 ? "s" : ""} the ${formatFileSize(MAX_ATTACHMENT_BYTES)} limit` },
+        "File too large"
+      );
+    }
+
+    setUploading(true);
+
+    for (const file of files.filter((f) => f.size <= MAX_ATTACHMENT_BYTES)) {
+      const path = getAttachmentPath(taskId, file.name);
+      const { error: uploadError } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .upload(path, file, { contentType: file.type || undefined });
+
+      if (uploadError) {
+        console.error("Error uploading attachment:", uploadError);
+        showError(uploadError, `Failed to upload ${file.name}`);
+        continue;
+      }
+
+      const { error } = await supabase.from("task_attachments").insert({
+        task_id: taskId,
+        storage_path: path,
+        file_name: file.name,
+        mime_type: file.type || null,
+        size_bytes: file.size,
+      });
+
+      if (error) {
+        console.error("Error saving attachment:", error);
+        // Don't leave an orphaned file behind
+        await supabase.storage.from(ATTACHMENTS_BUCKET).remove([path]);
+        showError(error, `Failed to upload ${file.name}`);
+      }
+    }
+
+    setUploading(false);
+    fetchAttachments();
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    if (readOnly || uploading) return;
+    uploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDownload = async (attachment: AttachmentRow) => {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrl(attachment.storage_path, ATTACHMENT_URL_TTL_SECONDS, { download: attachment.file_name });
+
+    if (error) {
+      console.error("Error downloading attachment:", error);
+      showError(error, "Failed to download file");
+      return;
+    }
+    window.open(data.signedUrl, "_blank", "noopener");
+  };
+
+  // The file goes first: once the row is gone the storage policies no longer allow it
+  const handleDelete = async (attachment: AttachmentRow) => {
+    const { data: removed, error: removeError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .remove([attachment.storage_path]);
+
+    if (removeError || !removed?.length) {
+      console.error("Error deleting attachment file:", removeError);
+      showError(removeError || { message: "Only the uploader, admins and managers can delete this file" }, "Failed to delete file");
+      return;
+    }
+
+    const { error } = await supabase.from("task_attachments").delete().eq("id", attachment.id);
+    if (error) {
+      console.error("Error deleting attachment:", error);
+      showError(error, "Failed to delete file");
+      return;
+    }
+    setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+  };
+
+  const openAttachment = (attachment: AttachmentRow) => {
+    if (canPreview(attachment.mime_type) && urls[attachment.storage_path]) {
+      setPreview(attachment);
+    } else {
+      handleDownload(attachment);
+    }
+  };
+
+  if (readOnly && !loading && attachments.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-1">
+          <Paperclip className="h-4 w-4" />
+          Attachments
+        </h4>
+        {attachments.length > 0 && <span className="text-xs text-muted-foreground">{attachments.length}</span>}
+      </div>
+
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading...</p>
+      ) : (
+        attachments.length > 0 && (
+          <div className="space-y-1">
+            {attachments.map((attachment) => (
+              <div key={attachment.id} className="group flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => openAttachment(attachment)}
+                  className="flex flex-1 min-w-0 items-center gap-2 rounded p-1 text-left hover:bg-muted/50"
+                >
+                  {isImage(attachment.mime_type) && urls[attachment.storage_path] ? (
+                    <img
+                      src={urls[attachment.storage_path]}
+                      alt=""
+                      className="h-9 w-9 shrink-0 rounded object-cover border"
+                    />
+                  ) : (
+                    <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded border bg-muted">
+                      <FileText className="h-4 w-4 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{attachment.file_name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {formatFileSize(attachment.size_bytes)} · {attachment.profiles?.full_name || "Unknown"} ·{" "}
+                      {format(new Date(attachment.created_at), "MMM d, yyyy")}
+                    </p>
+                  </div>
+                </button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  title="Download"
+                  onClick={() => handleDownload(attachment)}
+                >
+                  <Download className="h-3 w-3" />
+                </Button>
+                {!readOnly && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100"
+                    title="Delete"
+                    onClick={() => handleDelete(attachment)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {!readOnly && (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center gap-1 rounded-md border border-dashed p-3 text-center text-xs text-muted-foreground transition-colors ${dragging ? "border-accent bg-accent/10" : ""}`}
+        >
+          {uploading ? (
+            <span className="flex items-center gap-1">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Uploading...
+            </span>
+          ) : (
+            <span>
+              Drop files here or{" "}
+              <button type="button" className="text-foreground underline" onClick={() => fileInputRef.current?.click()}>
+                browse
+              </button>{" "}
+              (up to {formatFileSize(MAX_ATTACHMENT_BYTES)} each)
+            </span>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              uploadFiles(Array.from(e.target.files || []));
+              e.target.value = "";
+            }}
+          />
+        </div>
+      )}
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="sm:max-w-4xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 pr-6">
+              <span className="truncate">{preview?.file_name}</span>
+              {preview && (
+                <Button type="button" variant="outline" size="sm" onClick={() => handleDownload(preview)}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download
+                </Button>
+              )}
+            </DialogTitle>
+          </DialogHeader>
+          {preview &&
+            (isImage(preview.mime_type) ? (
+              <img
+                src={urls[preview.storage_path]}
+                alt={preview.file_name}
+                className="max-h-[75vh] w-full object-contain"
+              />
+            ) : (
+              <iframe src={urls[preview.storage_path]} title={preview.file_name} className="h-[75vh] w-full rounded border" />
+            ))}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
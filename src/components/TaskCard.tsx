@@ -2,9 +2,13 @@ import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Clock, AlertCircle, GripVertical } from "lucide-react";
+import { Clock, AlertCircle, GripVertical, MessageSquare, Eye, GitBranch, ListChecks, CornerLeftUp, Repeat, Timer, Paperclip } from "lucide-react";
 import { format } from "date-fns";
+import { MentionText } from "./MentionText";
+import { AssigneeAvatars, TaskAssignee } from "./AssigneeAvatars";
+import { BoardViewer } from "@/hooks/use-board-presence";
+import { describeRecurrence } from "@/lib/recurrence";
+import { formatMinutes, sumMinutes } from "@/lib/time";
 
 interface Task {
   id: string;
@@ -14,20 +18,29 @@ interface Task {
   priority: string;
   due_date: string | null;
   is_blocked: boolean;
-  assignee_id: string | null;
-  comments: string | null;
-  profiles?: {
-    full_name: string;
-    avatar_url: string | null;
-  };
+  recurrence_rule?: string | null;
+  task_assignees?: TaskAssignee[];
+  task_comments?: { count: number }[];
+  task_attachments?: { count: number }[];
+  task_checklist_items?: { is_done: boolean }[];
+  estimate_minutes?: number | null;
+  time_entries?: { minutes: number | null }[];
 }
 
 interface TaskCardProps {
   task: Task;
   onClick?: () => void;
+  // Whether the task's status counts as done in its project workflow
+  isDone?: boolean;
+  // Teammates who currently have this task open
+  viewers?: BoardViewer[];
+  // Done vs total subtasks, for parent tasks
+  subtaskProgress?: { done: number; total: number };
+  // Title of the parent, for subtasks
+  parentTitle?: string;
 }
 
-export function TaskCard({ task, onClick }: TaskCardProps) {
+export function TaskCard({ task, onClick, isDone = false, viewers = [], subtaskProgress, parentTitle }: TaskCardProps) {
   const {
     attributes,
     listeners,
@@ -56,16 +69,23 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
     }
   };
 
+  const commentCount = task.task_comments?.[0]?.count ?? 0;
+  const attachmentCount = task.task_attachments?.[0]?.count ?? 0;
+  const checklist = task.task_checklist_items || [];
+  const checklistDone = checklist.filter((i) => i.is_done).length;
+  const loggedMinutes = sumMinutes(task.time_entries || []);
+  const overEstimate = !!task.estimate_minutes && loggedMinutes > task.estimate_minutes;
+
   // Check if task is overdue
   const isOverdue = task.due_date && 
     new Date(task.due_date) < new Date() && 
-    task.status !== "Done";
+    !isDone;
 
   return (
     <Card
       ref={setNodeRef}
       style={style}
-      className={`cursor-pointer hover:shadow-md transition-shadow ${isOverdue ? 'border-destructive bg-destructive/5' : ''}`}
+      className={`cursor-pointer hover:shadow-md transition-shadow ${isOverdue ? 'border-destructive bg-destructive/5' : ''} ${viewers.length > 0 ? 'ring-2 ring-accent/60' : ''}`}
       onClick={onClick}
     >
       <CardContent className="p-3 sm:p-4">
@@ -78,15 +98,16 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
             <GripVertical className="h-4 w-4 text-muted-foreground" />
           </div>
           <div className="flex-1 min-w-0">
+            {parentTitle && (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground mb-1 truncate">
+                <CornerLeftUp className="h-3 w-3 shrink-0" />
+                <span className="truncate">{parentTitle}</span>
+              </p>
+            )}
             <h4 className="font-medium mb-2 line-clamp-2">{task.title}</h4>
             {task.description && (
               <p className="text-xs text-muted-foreground line-clamp-2 mb-2">
-                {task.description}
-              </p>
-            )}
-            {task.comments && (
-              <p className="text-xs text-muted-foreground line-clamp-1 italic">
-                💬 {task.comments}
+                <MentionText text={task.description} />
               </p>
             )}
           </div>
@@ -109,26 +130,73 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
                 OVERDUE
               </Badge>
             )}
+            {viewers.length > 0 && (
+              <Badge
+                variant="outline"
+                className="text-xs border-accent text-accent"
+                title={`Open by ${viewers.map((v) => v.full_name).join(", ")}`}
+              >
+                <Eye className="h-3 w-3 mr-1" />
+                {viewers.map((v) => v.full_name.split(" ")[0]).join(", ")}
+              </Badge>
+            )}
+            {subtaskProgress && (
+              <Badge
+                variant="outline"
+                className={`text-xs ${subtaskProgress.done === subtaskProgress.total ? "border-success text-success" : ""}`}
+                title="Subtasks done"
+              >
+                <GitBranch className="h-3 w-3 mr-1" />
+                {subtaskProgress.done}/{subtaskProgress.total}
+              </Badge>
+            )}
+            {checklist.length > 0 && (
+              <Badge
+                variant="outline"
+                className={`text-xs ${checklistDone === checklist.length ? "border-success text-success" : ""}`}
+                title="Checklist items done"
+              >
+                <ListChecks className="h-3 w-3 mr-1" />
+                {checklistDone}/{checklist.length}
+              </Badge>
+            )}
+            {(loggedMinutes > 0 || !!task.estimate_minutes) && (
+              <Badge
+                variant="outline"
+                className={`text-xs ${overEstimate ? "border-destructive text-destructive" : ""}`}
+                title={task.estimate_minutes ? "Time logged / estimated" : "Time logged"}
+              >
+                <Timer className="h-3 w-3 mr-1" />
+                {formatMinutes(loggedMinutes)}
+                {!!task.estimate_minutes && ` / ${formatMinutes(task.estimate_minutes)}`}
+              </Badge>
+            )}
+            {attachmentCount > 0 && (
+              <Badge variant="outline" className="text-xs" title="Attachments">
+                <Paperclip className="h-3 w-3 mr-1" />
+                {attachmentCount}
+              </Badge>
+            )}
+            {commentCount > 0 && (
+              <Badge variant="outline" className="text-xs">
+                <MessageSquare className="h-3 w-3 mr-1" />
+                {commentCount}
+              </Badge>
+            )}
           </div>
 
-          {task.profiles && (
-            <Avatar className="h-6 w-6">
-              <AvatarImage src={task.profiles.avatar_url || undefined} />
-              <AvatarFallback className="text-xs">
-                {task.profiles.full_name
-                  .split(" ")
-                  .map((n) => n[0])
-                  .join("")
-                  .toUpperCase()}
-              </AvatarFallback>
-            </Avatar>
-          )}
+          <AssigneeAvatars assignees={task.task_assignees || []} className="shrink-0" />
         </div>
 
         {task.due_date && (
           <div className={`flex items-center gap-1 mt-3 text-xs ${isOverdue ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
             <Clock className="h-3 w-3" />
             <span>{format(new Date(task.due_date), "MMM dd, yyyy")}</span>
+            {task.recurrence_rule && (
+              <span title={describeRecurrence(task.recurrence_rule)} className="ml-1">
+                <Repeat className="h-3 w-3" />
+              </span>
+            )}
           </div>
         )}
       </CardContent>
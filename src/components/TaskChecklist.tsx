@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { ListChecks, Plus, X } from "lucide-react";
+
+interface ChecklistItem {
+  id: string;
+  content: string;
+  is_done: boolean;
+  position: number;
+}
+
+interface TaskChecklistProps {
+  taskId: string;
+  // Called with the number of unchecked items whenever the list changes
+  onOpenCountChange?: (openCount: number) => void;
+}
+
+export function TaskChecklist({ taskId, onOpenCountChange }: TaskChecklistProps) {
+  const { toast } = useToast();
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newItem, setNewItem] = useState("");
+
+  const fetchItems = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("task_checklist_items")
+        .select("id, content, is_done, position")
+        .eq("task_id", taskId)
+        .order("position", { ascending: true })
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setItems(data || []);
+    } catch (error) {
+      console.error("Error fetching checklist:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  useEffect(() => {
+    onOpenCountChange?.(items.filter((i) => !i.is_done).length);
+  }, [items, onOpenCountChange]);
+
+  const showError = (error: { message?: string }, fallback: string) =>
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+
+  const handleAdd = async () => {
+    const content = newItem.trim();
+    if (!content) return;
+
+    const position = items.length > 0 ? Math.max(...items.map((i) => i.position)) + 1 : 0;
+    const { data, error } = await supabase
+      .from("task_checklist_items")
+      .insert({ task_id: taskId, content, position })
+      .select("id, content, is_done, position")
+      .single();
+
+    if (error) {
+      console.error("Error adding checklist item:", error);
+      showError(error, "Failed to add checklist item");
+      return;
+    }
+
+    setItems((prev) => [...prev, data]);
+    setNewItem("");
+  };
+
+  const handleToggle = async (item: ChecklistItem, is_done: boolean) => {
+    setItems((prev) => prev.map((i) => (i.id === item.id ? { ...i, is_done } : i)));
+
+    const { error } = await supabase.from("task_checklist_items").update({ is_done }).eq("id", item.id);
+    if (error) {
+      console.error("Error updating checklist item:", error);
+      setItems((prev) => prev.map((i) => (i.id === item.id ? { ...i, is_done: item.is_done } : i)));
+      showError(error, "Failed to update checklist item");
+    }
+  };
+
+  const handleDelete = async (itemId: string) => {
+    const { error } = await supabase.from("task_checklist_items").delete().eq("id", itemId);
+    if (error) {
+      console.error("Error deleting checklist item:", error);
+      showError(error, "Failed to delete checklist item");
+      return;
+    }
+    setItems((prev) => prev.filter((i) => i.id !== itemId));
+  };
+
+  const doneCount = items.filter((i) => i.is_done).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-1">
+          <ListChecks className="h-4 w-4" />
+          Checklist
+        </h4>
+        {items.length > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {doneCount}/{items.length}
+          </span>
+        )}
+      </div>
+
+      {items.length > 0 && <Progress value={(doneCount / items.length) * 100} className="h-1.5" />}
+
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading checklist...</p>
+      ) : (
+        <div className="space-y-1">
+          {items.map((item) => (
+            <div key={item.id} className="group flex items-center gap-2 rounded px-1 py-0.5 hover:bg-muted/50">
+              <Checkbox
+                id={`checklist-${item.id}`}
+                checked={item.is_done}
+                onCheckedChange={(checked) => handleToggle(item, checked === true)}
+              />
+              <label
+                htmlFor={`checklist-${item.id}`}
+                className={`flex-1 text-sm cursor-pointer ${item.is_done ? "line-through text-muted-foreground" : ""}`}
+              >
+                {item.content}
+              </label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                onClick={() => handleDelete(item.id)}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => {
+            // Keep Enter from submitting the task form
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Add an item"
+          className="h-8 text-sm"
+        />
+        <Button type="button" size="sm" variant="outline" className="h-8" onClick={handleAdd} disabled={!newItem.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
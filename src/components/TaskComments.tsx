@@ -0,0 +1,433 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { UserAvatar } from "@/components/UserAvatar";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { createNotificationForUser, getTaskLink } from "@/lib/notifications";
+import { extractMentionIds, MentionMember, notifyMentionedUsers } from "@/lib/mentions";
+import { formatVersionLabel } from "@/lib/deliverables";
+import { MentionTextarea } from "./MentionTextarea";
+import { MentionText } from "./MentionText";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, MessageSquare, Pencil, Reply, Trash2 } from "lucide-react";
+
+interface TaskComment {
+  id: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  parent_id: string | null;
+  user_id: string;
+  deliverable_version_id: string | null;
+  profiles?: {
+    full_name: string;
+    avatar_url: string | null;
+  } | null;
+}
+
+// A deliverable version feedback can be left on
+interface VersionOption {
+  id: string;
+  label: string;
+}
+
+interface TaskCommentsProps {
+  taskId: string;
+  taskTitle: string;
+  projectId: string;
+  members: MentionMember[];
+  // Bumped when the task's deliverable versions change
+  deliverablesKey?: number;
+}
+
+const COMMENT_SELECT =
+  "id, content, created_at, updated_at, parent_id, user_id, deliverable_version_id, profiles(full_name, avatar_url)";
+const GENERAL_COMMENT = "general";
+
+interface CommentFormProps {
+  members: MentionMember[];
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+function CommentForm({ members, initialValue = "", placeholder, submitLabel, onSubmit, onCancel }: CommentFormProps) {
+  const [content, setContent] = useState(initialValue);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!content.trim()) return;
+    setSubmitting(true);
+    const saved = await onSubmit(content.trim());
+    setSubmitting(false);
+    if (saved && !initialValue) setContent("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <MentionTextarea
+        value={content}
+        onChange={setContent}
+        members={members}
+        placeholder={placeholder}
+        rows={2}
+        className="text-sm"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleSubmit}
+          disabled={submitting || !content.trim()}
+        >
+          {submitting && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TaskComments({ taskId, taskTitle, projectId, members, deliverablesKey = 0 }: TaskCommentsProps) {
+  const { toast } = useToast();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<VersionOption[]>([]);
+  const [feedbackVersionId, setFeedbackVersionId] = useState(GENERAL_COMMENT);
+
+  const fetchComments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("task_comments")
+        .select(COMMENT_SELECT)
+        .eq("task_id", taskId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setComments(data || []);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  // Newest versions first, so feedback on the current work is the easiest to pick
+  useEffect(() => {
+    const fetchVersions = async () => {
+      const { data, error } = await supabase
+        .from("deliverable_versions")
+        .select("id, version_number, created_at, task_deliverables!inner(name, task_id)")
+        .eq("task_deliverables.task_id", taskId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching deliverable versions:", error);
+        return;
+      }
+      setVersions(
+        (data || []).map((v) => ({ id: v.id, label: formatVersionLabel(v.task_deliverables.name, v.version_number) }))
+      );
+    };
+
+    fetchVersions();
+  }, [taskId, deliverablesKey]);
+
+  const notifyMentions = (authorName: string, content: string, previousContent = "") => {
+    const previousIds = extractMentionIds(previousContent);
+    const mentionedIds = extractMentionIds(content).filter(
+      (id) => id !== currentUserId && !previousIds.includes(id)
+    );
+
+    notifyMentionedUsers({
+      userIds: mentionedIds,
+      authorName,
+      taskTitle,
+      context: "comment",
+      link: getTaskLink(projectId, taskId),
+    });
+
+    return mentionedIds;
+  };
+
+  const notifyAssignees = async (authorName: string, skipUserIds: string[]) => {
+    const { data: assignees } = await supabase
+      .from("task_assignees")
+      .select("user_id")
+      .eq("task_id", taskId);
+
+    assignees?.forEach(({ user_id }) => {
+      // Mentioned assignees already received a mention notification
+      if (user_id !== currentUserId && !skipUserIds.includes(user_id)) {
+        createNotificationForUser(
+          user_id,
+          "New Comment",
+          `${authorName} commented on task "${taskTitle}"`,
+          "task_comment",
+          getTaskLink(projectId, taskId)
+        );
+      }
+    });
+  };
+
+  const handleAddComment = async (content: string, parentId: string | null = null) => {
+    if (!currentUserId) return false;
+    // Replies stay on their thread's version
+    const versionId = parentId
+      ? comments.find((c) => c.id === parentId)?.deliverable_version_id ?? null
+      : feedbackVersionId === GENERAL_COMMENT
+        ? null
+        : feedbackVersionId;
+
+    try {
+      const { data, error } = await supabase
+        .from("task_comments")
+        .insert({
+          task_id: taskId,
+          user_id: currentUserId,
+          content,
+          parent_id: parentId,
+          deliverable_version_id: versionId,
+        })
+        .select(COMMENT_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      setComments((prev) => [...prev, data]);
+      setReplyingToId(null);
+      const authorName = data.profiles?.full_name || "Someone";
+      const mentionedIds = notifyMentions(authorName, content);
+      notifyAssignees(authorName, mentionedIds);
+      return true;
+    } catch (error) {
+      console.error("Error adding comment:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add comment",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleEditComment = async (comment: TaskComment, content: string) => {
+    const commentId = comment.id;
+    try {
+      const { data, error } = await supabase
+        .from("task_comments")
+        .update({ content })
+        .eq("id", commentId)
+        .select("updated_at")
+        .single();
+
+      if (error) throw error;
+
+      setComments((prev) =>
+        prev.map((c) => (c.id === commentId ? { ...c, content, updated_at: data.updated_at } : c))
+      );
+      setEditingId(null);
+      notifyMentions(comment.profiles?.full_name || "Someone", content, comment.content);
+      return true;
+    } catch (error) {
+      console.error("Error editing comment:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to edit comment",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    try {
+      const { error } = await supabase.from("task_comments").delete().eq("id", commentId);
+      if (error) throw error;
+
+      // Replies are removed with their parent by the cascade
+      setComments((prev) => prev.filter((c) => c.id !== commentId && c.parent_id !== commentId));
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete comment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const topLevelComments = comments.filter((c) => !c.parent_id);
+  const repliesFor = (commentId: string) => comments.filter((c) => c.parent_id === commentId);
+
+  const versionLabel = (versionId: string | null) => versions.find((v) => v.id === versionId)?.label;
+
+  const renderComment = (comment: TaskComment, isReply = false) => {
+    const authorName = comment.profiles?.full_name || "Unknown";
+    const isOwn = comment.user_id === currentUserId;
+    const isEdited = new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000;
+    // Deleting a comment removes its replies, so other people's replies keep it
+    const hasOthersReplies = repliesFor(comment.id).some((reply) => reply.user_id !== comment.user_id);
+
+    return (
+      <div key={comment.id} className={isReply ? "ml-8 mt-2" : ""}>
+        <div className="flex gap-2">
+          <UserAvatar
+            name={authorName}
+            avatarUrl={comment.profiles?.avatar_url}
+            className="h-7 w-7 shrink-0"
+            fallbackClassName="text-xs"
+          />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="font-medium">{authorName}</span>
+              <span className="text-muted-foreground">
+                {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                {isEdited && " (edited)"}
+              </span>
+              {!isReply && versionLabel(comment.deliverable_version_id) && (
+                <Badge variant="outline" className="text-xs font-normal">
+                  on {versionLabel(comment.deliverable_version_id)}
+                </Badge>
+              )}
+            </div>
+
+            {editingId === comment.id ? (
+              <div className="mt-1">
+                <CommentForm
+                  members={members}
+                  initialValue={comment.content}
+                  placeholder="Edit your comment"
+                  submitLabel="Save"
+                  onSubmit={(content) => handleEditComment(comment, content)}
+                  onCancel={() => setEditingId(null)}
+                />
+              </div>
+            ) : (
+              <p className="text-sm whitespace-pre-wrap break-words mt-0.5">
+                <MentionText text={comment.content} />
+              </p>
+            )}
+
+            {editingId !== comment.id && (
+              <div className="flex items-center gap-1 mt-1">
+                {!isReply && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs text-muted-foreground"
+                    onClick={() => setReplyingToId(comment.id)}
+                  >
+                    <Reply className="h-3 w-3 mr-1" />
+                    Reply
+                  </Button>
+                )}
+                {isOwn && (
+                  <>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs text-muted-foreground"
+                      onClick={() => setEditingId(comment.id)}
+                    >
+                      <Pencil className="h-3 w-3 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs text-destructive hover:text-destructive"
+                      onClick={() => handleDeleteComment(comment.id)}
+                      disabled={hasOthersReplies}
+                      title={hasOthersReplies ? "Comments with replies from other people can't be deleted" : undefined}
+                    >
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Delete
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {!isReply && repliesFor(comment.id).map((reply) => renderComment(reply, true))}
+
+        {replyingToId === comment.id && (
+          <div className="ml-8 mt-2">
+            <CommentForm
+              members={members}
+              placeholder={`Reply to ${authorName}`}
+              submitLabel="Reply"
+              onSubmit={(content) => handleAddComment(content, comment.id)}
+              onCancel={() => setReplyingToId(null)}
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium flex items-center gap-1">
+        <MessageSquare className="h-4 w-4" />
+        Comments ({comments.length})
+      </h4>
+
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading comments...</p>
+      ) : topLevelComments.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No comments yet. Start the conversation.</p>
+      ) : (
+        <div className="space-y-3">{topLevelComments.map((comment) => renderComment(comment))}</div>
+      )}
+
+      {versions.length > 0 && (
+        <Select value={feedbackVersionId} onValueChange={setFeedbackVersionId}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={GENERAL_COMMENT}>General comment</SelectItem>
+            {versions.map((version) => (
+              <SelectItem key={version.id} value={version.id}>
+                Feedback on {version.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <CommentForm
+        members={members}
+        placeholder="Write a comment... Type @ to mention someone"
+        submitLabel="Comment"
+        onSubmit={(content) => handleAddComment(content)}
+      />
+    </div>
+  );
+}
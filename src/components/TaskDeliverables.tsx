@@ -0,0 +1,365 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { ATTACHMENTS_BUCKET, ATTACHMENT_URL_TTL_SECONDS, MAX_ATTACHMENT_BYTES, formatFileSize } from "@/lib/attachments";
+import {
+  Deliverable,
+  DeliverableVersion,
+  getCurrentVersion,
+  getReviewRounds,
+  uploadDeliverableVersion,
+} from "@/lib/deliverables";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight, Download, ExternalLink, Layers, Loader2, MessageSquare, Plus, Trash2, Upload } from "lucide-react";
+
+interface VersionRow extends DeliverableVersion {
+  profiles: { full_name: string } | null;
+  task_comments: { count: number }[];
+}
+
+interface DeliverableRow extends Deliverable {
+  deliverable_versions: VersionRow[];
+}
+
+interface TaskDeliverablesProps {
+  taskId: string;
+  // Clients can look at and download versions but not upload or change them
+  readOnly?: boolean;
+  // Called after a version is uploaded or made current, e.g. to refresh the comment form
+  onChange?: () => void;
+}
+
+export function TaskDeliverables({ taskId, readOnly = false, onChange }: TaskDeliverablesProps) {
+  const { toast } = useToast();
+  const newFileInputRef = useRef<HTMLInputElement>(null);
+  const versionFileInputRef = useRef<HTMLInputElement>(null);
+  const [deliverables, setDeliverables] = useState<DeliverableRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [uploadTargetId, setUploadTargetId] = useState<string | null>(null);
+
+  const showError = useCallback(
+    (error: { message?: string }, fallback: string) =>
+      toast({
+        title: "Error",
+        description: error.message || fallback,
+        variant: "destructive",
+      }),
+    [toast]
+  );
+
+  const fetchDeliverables = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("task_deliverables")
+        .select("id, task_id, name, created_at, deliverable_versions(*, profiles(full_name), task_comments(count))")
+        .eq("task_id", taskId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setDeliverables(
+        (data || []).map((d) => ({
+          ...d,
+          deliverable_versions: [...d.deliverable_versions].sort((a, b) => b.version_number - a.version_number),
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching deliverables:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchDeliverables();
+  }, [fetchDeliverables]);
+
+  const checkSize = (file: File) => {
+    if (file.size <= MAX_ATTACHMENT_BYTES) return true;
+    showError({ message: `${file.name} exceeds the ${formatFileSize(MAX_ATTACHMENT_BYTES)} limit` }, "File too large");
+    return false;
+  };
+
+  const handleAddDeliverable = async (file: File) => {
+    const name = newName.trim();
+    if (!name || !checkSize(file)) return;
+
+    setBusyId("new");
+    try {
+      const { data: deliverable, error } = await supabase
+        .from("task_deliverables")
+        .insert({ task_id: taskId, name })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      await uploadDeliverableVersion(taskId, deliverable.id, file);
+
+      setNewName("");
+      setAdding(false);
+      setExpandedId(deliverable.id);
+      onChange?.();
+    } catch (error) {
+      console.error("Error adding deliverable:", error);
+      showError(error, "Failed to add deliverable");
+    } finally {
+      setBusyId(null);
+      fetchDeliverables();
+    }
+  };
+
+  const handleUploadVersion = async (deliverable: DeliverableRow, file: File) => {
+    if (!checkSize(file)) return;
+
+    setBusyId(deliverable.id);
+    try {
+      await uploadDeliverableVersion(taskId, deliverable.id, file);
+      setExpandedId(deliverable.id);
+      onChange?.();
+    } catch (error) {
+      console.error("Error uploading version:", error);
+      showError(error, "Failed to upload version");
+    } finally {
+      setBusyId(null);
+      fetchDeliverables();
+    }
+  };
+
+  const handleMakeCurrent = async (version: VersionRow) => {
+    const { error } = await supabase.rpc("set_current_deliverable_version", { _version_id: version.id });
+    if (error) {
+      console.error("Error changing current version:", error);
+      showError(error, "Failed to change the current version");
+      return;
+    }
+    onChange?.();
+    fetchDeliverables();
+  };
+
+  // Files go first: once the rows are gone the storage policies no longer allow it
+  const handleDelete = async (deliverable: DeliverableRow) => {
+    const paths = deliverable.deliverable_versions.map((v) => v.storage_path);
+    const { data: removed, error: removeError } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(paths);
+
+    if (removeError || (paths.length > 0 && !removed?.length)) {
+      console.error("Error deleting deliverable files:", removeError);
+      showError(removeError || { message: "Only admins and managers can delete deliverables" }, "Failed to delete deliverable");
+      return;
+    }
+
+    const { data, error } = await supabase.from("task_deliverables").delete().eq("id", deliverable.id).select("id");
+    if (error || !data?.length) {
+      console.error("Error deleting deliverable:", error);
+      showError(error || {}, "Failed to delete deliverable");
+      return;
+    }
+    setDeliverables((prev) => prev.filter((d) => d.id !== deliverable.id));
+    onChange?.();
+  };
+
+  // Images and PDFs open in the browser; download forces a save with the original name
+  const openVersion = async (version: VersionRow, download: boolean) => {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrl(version.storage_path, ATTACHMENT_URL_TTL_SECONDS, download ? { download: version.file_name } : undefined);
+
+    if (error) {
+      console.error("Error opening version:", error);
+      showError(error, "Failed to open file");
+      return;
+    }
+    window.open(data.signedUrl, "_blank", "noopener");
+  };
+
+  const pickVersionFile = (deliverableId: string) => {
+    setUploadTargetId(deliverableId);
+    versionFileInputRef.current?.click();
+  };
+
+  const renderVersion = (version: VersionRow) => {
+    const feedbackCount = version.task_comments?.[0]?.count ?? 0;
+    return (
+      <div key={version.id} className="flex items-center gap-2 text-xs">
+        <Badge variant={version.is_current ? "default" : "outline"} className="w-9 justify-center shrink-0">
+          v{version.version_number}
+        </Badge>
+        <div className="flex-1 min-w-0">
+          <p className="truncate text-sm">{version.file_name}</p>
+          <p className="text-muted-foreground truncate">
+            {formatFileSize(version.size_bytes)} · {version.profiles?.full_name || "Unknown"} ·{" "}
+            {format(new Date(version.created_at), "MMM d, yyyy")}
+            {version.review_round ? ` · Round ${version.review_round}` : " · Not reviewed yet"}
+            {feedbackCount > 0 && (
+              <span className="inline-flex items-center gap-0.5 ml-1">
+                · <MessageSquare className="h-3 w-3" /> {feedbackCount}
+              </span>
+            )}
+          </p>
+        </div>
+        {!readOnly && !version.is_current && (
+          <Button type="button" variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handleMakeCurrent(version)}>
+            Make Current
+          </Button>
+        )}
+        <Button type="button" variant="ghost" size="icon" className="h-7 w-7 shrink-0" title="Open" onClick={() => openVersion(version, false)}>
+          <ExternalLink className="h-3 w-3" />
+        </Button>
+        <Button type="button" variant="ghost" size="icon" className="h-7 w-7 shrink-0" title="Download" onClick={() => openVersion(version, true)}>
+          <Download className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  };
+
+  if (readOnly && !loading && deliverables.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-1">
+          <Layers className="h-4 w-4" />
+          Deliverables
+        </h4>
+        {!readOnly && !adding && (
+          <Button type="button" variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setAdding(true)}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add Deliverable
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading...</p>
+      ) : (
+        deliverables.map((deliverable) => {
+          const current = getCurrentVersion(deliverable.deliverable_versions);
+          const rounds = getReviewRounds(deliverable.deliverable_versions);
+          const expanded = expandedId === deliverable.id;
+          return (
+            <div
+              key={deliverable.id}
+              className="rounded-md border p-2 space-y-2"
+              onDragOver={(e) => !readOnly && e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                const file = e.dataTransfer.files[0];
+                if (!readOnly && file && !busyId) handleUploadVersion(deliverable, file);
+              }}
+            >
+              <div className="group flex items-center gap-2">
+                <button
+                  type="button"
+                  className="flex flex-1 min-w-0 items-center gap-1 text-left"
+                  onClick={() => setExpandedId(expanded ? null : deliverable.id)}
+                >
+                  {expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+                  <span className="text-sm font-medium truncate">{deliverable.name}</span>
+                  {current && (
+                    <Badge variant="secondary" className="text-xs shrink-0">
+                      v{current.version_number}
+                    </Badge>
+                  )}
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {rounds === 1 ? "1 review round" : `${rounds} review rounds`}
+                  </span>
+                </button>
+                {!readOnly && (
+                  <>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      disabled={!!busyId}
+                      onClick={() => pickVersionFile(deliverable.id)}
+                    >
+                      {busyId === deliverable.id ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <Upload className="h-3 w-3 mr-1" />
+                      )}
+                      New Version
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100"
+                      title="Delete deliverable and all versions"
+                      onClick={() => handleDelete(deliverable)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </>
+                )}
+              </div>
+              {expanded && (
+                <div className="space-y-1.5 pl-5">
+                  {deliverable.deliverable_versions.map(renderVersion)}
+                  {!readOnly && (
+                    <p className="text-xs text-muted-foreground">
+                      Drop a file here to upload a new version. Leave feedback on a version from the comments below.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+
+      {adding && (
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Deliverable name, e.g. Homepage mockup"
+            className="h-8 text-sm"
+            autoFocus
+          />
+          <Button
+            type="button"
+            size="sm"
+            className="h-8"
+            disabled={!newName.trim() || busyId === "new"}
+            onClick={() => newFileInputRef.current?.click()}
+          >
+            {busyId === "new" ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Upload className="h-3 w-3 mr-1" />}
+            Upload v1
+          </Button>
+          <Button type="button" variant="ghost" size="sm" className="h-8" onClick={() => setAdding(false)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      <input
+        ref={newFileInputRef}
+        type="file"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleAddDeliverable(file);
+          e.target.value = "";
+        }}
+      />
+      <input
+        ref={versionFileInputRef}
+        type="file"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          const deliverable = deliverables.find((d) => d.id === uploadTargetId);
+          if (file && deliverable) handleUploadVersion(deliverable, file);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+}
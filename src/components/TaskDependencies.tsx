@@ -0,0 +1,264 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getTaskLink } from "@/lib/notifications";
+import { StatusBadge } from "./StatusBadge";
+import { Link2, Lock, Plus, Search, X } from "lucide-react";
+
+interface LinkedTask {
+  id: string;
+  title: string;
+  status: string;
+  project_id: string;
+  projects: { name: string } | null;
+  workflow_status: { color: string; is_done: boolean } | null;
+}
+
+interface Dependency {
+  id: string;
+  // Null when the other task is in a project the user can't see
+  task: LinkedTask | null;
+}
+
+interface TaskDependenciesProps {
+  taskId: string;
+  projectId: string;
+}
+
+type Direction = "blocked_by" | "blocks";
+
+const LINKED_TASK_SELECT =
+  "id, title, status, project_id, projects(name), workflow_status:project_statuses!tasks_project_status_fkey(color, is_done)";
+
+// "Blocked by" and "blocks" links between tasks, in any project.
+// The database keeps is_blocked in sync and rejects circular dependencies.
+export function TaskDependencies({ taskId, projectId }: TaskDependenciesProps) {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [blockedBy, setBlockedBy] = useState<Dependency[]>([]);
+  const [blocks, setBlocks] = useState<Dependency[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [direction, setDirection] = useState<Direction>("blocked_by");
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<LinkedTask[]>([]);
+
+  const fetchDependencies = useCallback(async () => {
+    try {
+      const [blockedByResult, blocksResult] = await Promise.all([
+        supabase
+          .from("task_dependencies")
+          .select(`id, task:tasks!task_dependencies_depends_on_task_id_fkey(${LINKED_TASK_SELECT})`)
+          .eq("task_id", taskId)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("task_dependencies")
+          .select(`id, task:tasks!task_dependencies_task_id_fkey(${LINKED_TASK_SELECT})`)
+          .eq("depends_on_task_id", taskId)
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (blockedByResult.error) throw blockedByResult.error;
+      if (blocksResult.error) throw blocksResult.error;
+      setBlockedBy(blockedByResult.data || []);
+      setBlocks(blocksResult.data || []);
+    } catch (error) {
+      console.error("Error fetching dependencies:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchDependencies();
+  }, [fetchDependencies]);
+
+  // Search tasks the user can see, across all their projects
+  useEffect(() => {
+    if (!pickerOpen) return;
+
+    const timeout = setTimeout(async () => {
+      let query = supabase
+        .from("tasks")
+        .select(LINKED_TASK_SELECT)
+        .neq("id", taskId)
+        .order("updated_at", { ascending: false })
+        .limit(20);
+      if (search.trim()) query = query.ilike("title", `%${search.trim()}%`);
+
+      const { data, error } = await query;
+      if (error) {
+        console.error("Error searching tasks:", error);
+        return;
+      }
+      const linkedIds = [...blockedBy, ...blocks].map((d) => d.task?.id);
+      setResults((data || []).filter((t) => !linkedIds.includes(t.id)));
+    }, 250);
+
+    return () => clearTimeout(timeout);
+  }, [pickerOpen, search, taskId, blockedBy, blocks]);
+
+  const handleAdd = async (other: LinkedTask) => {
+    const dependency =
+      direction === "blocked_by"
+        ? { task_id: taskId, depends_on_task_id: other.id }
+        : { task_id: other.id, depends_on_task_id: taskId };
+
+    const { error } = await supabase.from("task_dependencies").insert(dependency);
+    if (error) {
+      console.error("Error adding dependency:", error);
+      toast({
+        title: "Error",
+        description:
+          error.code === "23505" ? "These tasks are already linked" : error.message || "Failed to add dependency",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPickerOpen(false);
+    setSearch("");
+    fetchDependencies();
+  };
+
+  const handleRemove = async (dependencyId: string) => {
+    const { error } = await supabase.from("task_dependencies").delete().eq("id", dependencyId);
+    if (error) {
+      console.error("Error removing dependency:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove dependency",
+        variant: "destructive",
+      });
+      return;
+    }
+    fetchDependencies();
+  };
+
+  const renderDependency = (dependency: Dependency) => {
+    const linked = dependency.task;
+    return (
+      <div key={dependency.id} className="group flex items-center gap-2 rounded border px-2 py-1.5">
+        {linked ? (
+          <button
+            type="button"
+            className="flex-1 min-w-0 flex items-center gap-2 text-left hover:underline"
+            onClick={() => navigate(getTaskLink(linked.project_id, linked.id))}
+          >
+            <span className={`truncate text-sm ${linked.workflow_status?.is_done ? "line-through text-muted-foreground" : ""}`}>
+              {linked.title}
+            </span>
+            {linked.project_id !== projectId && (
+              <span className="text-xs text-muted-foreground truncate shrink-0">{linked.projects?.name}</span>
+            )}
+          </button>
+        ) : (
+          <span className="flex-1 flex items-center gap-1 text-sm text-muted-foreground">
+            <Lock className="h-3 w-3" />
+            A task in a project you can't access
+          </span>
+        )}
+        {linked && <StatusBadge status={linked.status} color={linked.workflow_status?.color} className="shrink-0" />}
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 opacity-0 group-hover:opacity-100"
+          onClick={() => handleRemove(dependency.id)}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium flex items-center gap-1">
+        <Link2 className="h-4 w-4" />
+        Dependencies
+      </h4>
+
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading dependencies...</p>
+      ) : (
+        <>
+          {blockedBy.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Blocked by</p>
+              {blockedBy.map(renderDependency)}
+            </div>
+          )}
+          {blocks.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Blocks</p>
+              {blocks.map(renderDependency)}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <Select value={direction} onValueChange={(value) => setDirection(value as Direction)}>
+          <SelectTrigger className="h-8 w-[130px] text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="blocked_by">Blocked by</SelectItem>
+            <SelectItem value="blocks">Blocks</SelectItem>
+          </SelectContent>
+        </Select>
+        <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+          <PopoverTrigger asChild>
+            <Button type="button" variant="outline" size="sm" className="h-8 flex-1 justify-start text-muted-foreground">
+              <Plus className="h-4 w-4 mr-1" />
+              Link a task
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-[340px] p-2" align="start">
+            <div className="relative mb-2">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search tasks in any project"
+                className="h-9 pl-8 text-sm"
+                autoFocus
+              />
+            </div>
+            <div className="max-h-60 overflow-y-auto space-y-0.5">
+              {results.length === 0 ? (
+                <p className="text-xs text-muted-foreground p-2">No matching tasks</p>
+              ) : (
+                results.map((result) => (
+                  <button
+                    key={result.id}
+                    type="button"
+                    className="w-full rounded px-2 py-1.5 text-left hover:bg-muted"
+                    onClick={() => handleAdd(result)}
+                  >
+                    <p className="text-sm truncate">{result.title}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {result.projects?.name} · {result.status}
+                    </p>
+                  </button>
+                ))
+              )}
+            </div>
+          </PopoverContent>
+        </Popover>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import {
   Dialog,
@@ -10,7 +11,6 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -18,15 +18,32 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Switch } from "@/components/ui/switch";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
-import { TASK_STATUSES, TASK_PRIORITIES } from "@/config/appConfig";
-import { Calendar as CalendarIcon, Loader2 } from "lucide-react";
-import { format } from "date-fns";
+import { TASK_PRIORITIES } from "@/config/appConfig";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { checkTransition } from "@/lib/workflow";
+import { AlertCircle, AlertTriangle, Calendar as CalendarIcon, CornerLeftUp, Hourglass, LayoutTemplate, Loader2 } from "lucide-react";
+import { addDays, format, startOfDay } from "date-fns";
 import { Checkbox } from "@/components/ui/checkbox";
-import { createNotificationForUser } from "@/lib/notifications";
+import { createNotificationForUser, getTaskLink } from "@/lib/notifications";
+import { extractMentionIds, notifyMentionedUsers } from "@/lib/mentions";
+import { withoutClients } from "@/lib/members";
+import { Textarea } from "@/components/ui/textarea";
+import { MentionTextarea } from "./MentionTextarea";
+import { TaskLogs } from "./TaskLogs";
+import { TaskComments } from "./TaskComments";
+import { TaskSubtasks } from "./TaskSubtasks";
+import { TaskChecklist } from "./TaskChecklist";
+import { TaskAttachments } from "./TaskAttachments";
+import { TaskDeliverables } from "./TaskDeliverables";
+import { TaskDependencies } from "./TaskDependencies";
+import { TaskTimeTracking } from "./TaskTimeTracking";
+import { RecurrenceEditor } from "./RecurrenceEditor";
+import { RecurrenceTrigger } from "@/lib/recurrence";
+import { saveTaskAsTemplate, TaskTemplate } from "@/lib/templates";
+import { formatMinutes, parseDuration } from "@/lib/time";
 
 interface TaskDialogProps {
   open: boolean;
@@ -52,17 +69,32 @@ export function TaskDialog({
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [teamMembers, setTeamMembers] = useState<Profile[]>([]);
+  // Only admins and the project's managers may change assignees
+  const [canAssign, setCanAssign] = useState(false);
   const [projectName, setProjectName] = useState("");
+  const { statuses, transitions, refetch: refetchStatuses } = useProjectStatuses(projectId);
+  const [statusNote, setStatusNote] = useState("");
+  const [parentTask, setParentTask] = useState<{ id: string; title: string } | null>(null);
+  const [openSubtaskCount, setOpenSubtaskCount] = useState(0);
+  const [openChecklistCount, setOpenChecklistCount] = useState(0);
+  const [deliverablesKey, setDeliverablesKey] = useState(0);
+  const [taskTemplates, setTaskTemplates] = useState<TaskTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  // Typed as a duration ("4h", "1h 30m") and stored as estimate_minutes
+  const [estimate, setEstimate] = useState("");
 
   const [formData, setFormData] = useState({
     title: "",
     description: "",
-    status: "Todo",
+    status: "",
     priority: "P2-Medium",
     assignee_ids: [] as string[],
+    start_date: null as Date | null,
     due_date: null as Date | null,
-    is_blocked: false,
-    comments: "",
+    is_milestone: false,
+    recurrence_rule: null as string | null,
+    recurrence_trigger: "on_complete" as RecurrenceTrigger,
   });
 
   const fetchTeamMembers = useCallback(async () => {
@@ -77,12 +109,30 @@ export function TaskDialog({
       const members = data
         .map((m: any) => m.profiles)
         .filter(Boolean) as Profile[];
-      setTeamMembers(members);
+      setTeamMembers(await withoutClients(members));
     } catch (error) {
       console.error("Error fetching team members:", error);
     }
   }, [projectId]);
 
+  const fetchCanAssign = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setCanAssign(data?.role === "admin" || data?.role === "manager");
+    } catch (error) {
+      console.error("Error fetching user role:", error);
+    }
+  }, []);
+
   const fetchProjectName = useCallback(async () => {
     try {
       const { data, error } = await supabase
@@ -98,6 +148,20 @@ export function TaskDialog({
     }
   }, [projectId]);
 
+  const fetchTaskTemplates = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("task_templates")
+        .select("id, name, title, description, priority, due_offset_days, checklist")
+        .order("name");
+
+      if (error) throw error;
+      setTaskTemplates(data || []);
+    } catch (error) {
+      console.error("Error fetching task templates:", error);
+    }
+  }, []);
+
   const fetchTaskAssignees = useCallback(async (taskId: string) => {
     try {
       const { data, error } = await supabase
@@ -112,36 +176,126 @@ export function TaskDialog({
     }
   }, []);
 
+  const fetchParentTask = useCallback(async (parentTaskId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select("id, title")
+        .eq("id", parentTaskId)
+        .single();
+
+      if (error) throw error;
+      setParentTask(data);
+    } catch (error) {
+      console.error("Error fetching parent task:", error);
+    }
+  }, []);
+
   useEffect(() => {
     if (open) {
       fetchTeamMembers();
+      fetchCanAssign();
       fetchProjectName();
+      refetchStatuses();
+      setStatusNote("");
+      setParentTask(null);
+      setOpenSubtaskCount(0);
+      setOpenChecklistCount(0);
+      setTemplateId("");
+      setEstimate(task?.estimate_minutes ? formatMinutes(task.estimate_minutes) : "");
       if (task) {
         fetchTaskAssignees(task.id);
+        if (task.parent_task_id) fetchParentTask(task.parent_task_id);
         setFormData({
           title: task.title || "",
           description: task.description || "",
-          status: task.status || "Todo",
+          status: task.status || "",
           priority: task.priority || "P2-Medium",
           assignee_ids: [],
+          start_date: task.start_date ? new Date(task.start_date) : null,
           due_date: task.due_date ? new Date(task.due_date) : null,
-          is_blocked: task.is_blocked || false,
-          comments: task.comments || "",
+          is_milestone: task.is_milestone || false,
+          recurrence_rule: task.recurrence_rule || null,
+          recurrence_trigger: task.recurrence_trigger || "on_complete",
         });
       } else {
+        fetchTaskTemplates();
         setFormData({
           title: "",
           description: "",
-          status: "Todo",
+          status: "",
           priority: "P2-Medium",
           assignee_ids: [],
+          start_date: null,
           due_date: null,
-          is_blocked: false,
-          comments: "",
+          is_milestone: false,
+          recurrence_rule: null,
+          recurrence_trigger: "on_complete",
         });
       }
     }
-  }, [open, task, fetchTeamMembers, fetchProjectName, fetchTaskAssignees]);
+  }, [open, task, fetchTeamMembers, fetchCanAssign, fetchProjectName, fetchTaskAssignees, fetchParentTask, fetchTaskTemplates, refetchStatuses]);
+
+  // New tasks start in the first column of the project's workflow
+  useEffect(() => {
+    if (open && !task && !formData.status && statuses.length > 0) {
+      setFormData(prev => ({ ...prev, status: statuses[0].name }));
+    }
+  }, [open, task, statuses, formData.status]);
+
+  // New tasks count as moving out of the first column, so the same rules apply
+  const fromStatus = task ? task.status : statuses[0]?.name ?? "";
+  const transition = formData.status
+    ? checkTransition(statuses, transitions, fromStatus, formData.status)
+    : { allowed: true, requiresNote: false };
+
+  // Completing a parent is blocked while subtasks are open; open checklist items only warn
+  const isDoneStatus = (name: string) => statuses.find((s) => s.name === name)?.is_done ?? false;
+  const completing = !!task && isDoneStatus(formData.status) && !isDoneStatus(task.status);
+  const completionBlocked = completing && openSubtaskCount > 0;
+
+  const template = taskTemplates.find((t) => t.id === templateId);
+
+  // Prefills the form; the template's checklist is added once the task is created
+  const applyTemplate = (id: string) => {
+    const selected = taskTemplates.find((t) => t.id === id);
+    if (!selected) return;
+    setTemplateId(id);
+    const dueDate =
+      selected.due_offset_days !== null ? addDays(startOfDay(new Date()), selected.due_offset_days) : null;
+    setFormData({
+      ...formData,
+      title: selected.title,
+      description: selected.description || "",
+      priority: selected.priority,
+      due_date: dueDate,
+      start_date: formData.start_date && dueDate && formData.start_date > dueDate ? null : formData.start_date,
+      ...(!dueDate && { recurrence_rule: null }),
+    });
+  };
+
+  const handleSaveAsTemplate = async () => {
+    setSavingTemplate(true);
+    try {
+      await saveTaskAsTemplate(task);
+      toast({
+        title: "Template saved",
+        description: `"${task.title}" can now be picked when creating a task`,
+      });
+    } catch (error) {
+      console.error("Error saving task template:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const estimateMinutes = parseDuration(estimate);
+  const estimateInvalid = !!estimate.trim() && !estimateMinutes;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -151,8 +305,17 @@ export function TaskDialog({
       const { assignee_ids, ...taskData } = formData;
       const finalTaskData = {
         ...taskData,
+        // Left empty, the database picks the project's first status
+        status: taskData.status || undefined,
+        ...(transition.requiresNote && { status_note: statusNote.trim() }),
         project_id: projectId,
+        start_date: formData.start_date?.toISOString() ?? null,
         due_date: formData.due_date?.toISOString(),
+        estimate_minutes: estimateMinutes,
+        // Weekdays and days of the month in the rule are the user's local ones
+        ...(formData.recurrence_rule && {
+          recurrence_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
       } as any;
 
       let result;
@@ -175,8 +338,39 @@ export function TaskDialog({
 
       // Handle assignees
       const taskId = task ? task.id : result.data.id;
+      let assigneeError: string | null = null;
+
+      if (!task && template && template.checklist.length > 0) {
+        const { error: checklistError } = await supabase.from("task_checklist_items").insert(
+          template.checklist.map((content, position) => ({ task_id: taskId, content, position }))
+        );
+        if (checklistError) console.error("Error adding template checklist:", checklistError);
+      }
+
+      // Notify users newly mentioned in the description
+      const { data: { user } } = await supabase.auth.getUser();
+      const previousMentionIds = extractMentionIds(task?.description);
+      const newMentionIds = extractMentionIds(formData.description).filter(
+        id => id !== user?.id && !previousMentionIds.includes(id)
+      );
+
+      if (newMentionIds.length > 0) {
+        const { data: author } = await supabase
+          .from("profiles")
+          .select("full_name")
+          .eq("id", user?.id)
+          .single();
+
+        notifyMentionedUsers({
+          userIds: newMentionIds,
+          authorName: author?.full_name || "Someone",
+          taskTitle: formData.title,
+          context: "description",
+          link: getTaskLink(projectId, taskId),
+        });
+      }
       
-      if (task) {
+      if (task && canAssign) {
         const { data: previousAssignees } = await supabase
           .from("task_assignees")
           .select("user_id")
@@ -203,7 +397,7 @@ export function TaskDialog({
                 "Task Unassigned",
                 `You have been unassigned from task "${formData.title}" in project "${projectName}"`,
                 "task_assignment",
-                `/projects/${projectId}`
+                getTaskLink(projectId, task.id)
               );
 
               // Send email notification (non-blocking)
@@ -228,9 +422,54 @@ export function TaskDialog({
             task_id: task.id,
             user_id: userId,
           }));
-          await supabase.from("task_assignees").insert(newAssignees);
+          const { error: assignError } = await supabase.from("task_assignees").insert(newAssignees);
+
+          // A per-person WIP limit can reject the new assignees
+          if (assignError) {
+            assigneeError = assignError.message;
+          } else {
+            addedIds.forEach(userId => {
+              const member = teamMembers.find(m => m.id === userId);
+              if (member) {
+                // Create in-app notification
+                createNotificationForUser(
+                  userId,
+                  "New Task Assigned",
+                  `You have been assigned to task "${formData.title}" in project "${projectName}"`,
+                  "task_assignment",
+                  getTaskLink(projectId, task.id)
+                );
+
+                // Send email notification (non-blocking)
+                supabase.functions.invoke("send-assignment-notification", {
+                  body: {
+                    taskId: task.id,
+                    taskTitle: formData.title,
+                    assigneeEmail: member.email,
+                    assigneeName: member.full_name,
+                    projectName,
+                    dueDate: formData.due_date?.toISOString(),
+                    priority: formData.priority,
+                    action: "assigned",
+                    taskUrl: `${window.location.origin}${getTaskLink(projectId, task.id)}`,
+                  },
+                }).catch(console.error);
+              }
+            });
+          }
+        }
+      } else if (!task && canAssign && assignee_ids.length > 0) {
+        const newAssignees = assignee_ids.map(userId => ({
+          task_id: taskId,
+          user_id: userId,
+        }));
+        const { error: assignError } = await supabase.from("task_assignees").insert(newAssignees);
 
-          addedIds.forEach(userId => {
+        // A per-person WIP limit can reject the new assignees
+        if (assignError) {
+          assigneeError = assignError.message;
+        } else {
+          assignee_ids.forEach(userId => {
             const member = teamMembers.find(m => m.id === userId);
             if (member) {
               // Create in-app notification
@@ -239,13 +478,13 @@ export function TaskDialog({
                 "New Task Assigned",
                 `You have been assigned to task "${formData.title}" in project "${projectName}"`,
                 "task_assignment",
-                `/projects/${projectId}`
+                getTaskLink(projectId, taskId)
               );
 
               // Send email notification (non-blocking)
               supabase.functions.invoke("send-assignment-notification", {
                 body: {
-                  taskId: task.id,
+                  taskId,
                   taskTitle: formData.title,
                   assigneeEmail: member.email,
                   assigneeName: member.full_name,
@@ -253,53 +492,28 @@ export function TaskDialog({
                   dueDate: formData.due_date?.toISOString(),
                   priority: formData.priority,
                   action: "assigned",
+                  taskUrl: `${window.location.origin}${getTaskLink(projectId, taskId)}`,
                 },
               }).catch(console.error);
             }
           });
         }
-      } else if (assignee_ids.length > 0) {
-        const newAssignees = assignee_ids.map(userId => ({
-          task_id: taskId,
-          user_id: userId,
-        }));
-        await supabase.from("task_assignees").insert(newAssignees);
-
-        assignee_ids.forEach(userId => {
-          const member = teamMembers.find(m => m.id === userId);
-          if (member) {
-            // Create in-app notification
-            createNotificationForUser(
-              userId,
-              "New Task Assigned",
-              `You have been assigned to task "${formData.title}" in project "${projectName}"`,
-              "task_assignment",
-              `/projects/${projectId}`
-            );
-
-            // Send email notification (non-blocking)
-            supabase.functions.invoke("send-assignment-notification", {
-              body: {
-                taskId,
-                taskTitle: formData.title,
-                assigneeEmail: member.email,
-                assigneeName: member.full_name,
-                projectName,
-                dueDate: formData.due_date?.toISOString(),
-                priority: formData.priority,
-                action: "assigned",
-              },
-            }).catch(console.error);
-          }
-        });
       }
 
-      toast({
-        title: task ? "Task updated" : "Task created",
-        description: task
-          ? "Task has been updated successfully"
-          : "Task has been created successfully",
-      });
+      if (assigneeError) {
+        toast({
+          title: task ? "Task updated, but assignees were not saved" : "Task created, but assignees were not saved",
+          description: assigneeError,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: task ? "Task updated" : "Task created",
+          description: task
+            ? "Task has been updated successfully"
+            : "Task has been created successfully",
+        });
+      }
 
       onTaskCreated();
     } catch (error: any) {
@@ -322,6 +536,42 @@ export function TaskDialog({
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+          {parentTask && (
+            <Link
+              to={getTaskLink(projectId, parentTask.id)}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+            >
+              <CornerLeftUp className="h-3 w-3" />
+              Subtask of <span className="font-medium">{parentTask.title}</span>
+            </Link>
+          )}
+
+          {!task && taskTemplates.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm flex items-center gap-1">
+                <LayoutTemplate className="h-4 w-4" />
+                Use Template
+              </Label>
+              <Select value={templateId} onValueChange={applyTemplate}>
+                <SelectTrigger className="h-9 sm:h-10 text-sm">
+                  <SelectValue placeholder="Start from scratch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {taskTemplates.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {template && template.checklist.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Adds {template.checklist.length} checklist item{template.checklist.length === 1 ? "" : "s"}
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="title" className="text-sm">Title *</Label>
             <Input
@@ -338,32 +588,19 @@ export function TaskDialog({
 
           <div className="space-y-2">
             <Label htmlFor="description" className="text-sm">Description</Label>
-            <Textarea
+            <MentionTextarea
               id="description"
               value={formData.description}
-              onChange={(e) =>
-                setFormData({ ...formData, description: e.target.value })
+              onChange={(description) =>
+                setFormData({ ...formData, description })
               }
-              placeholder="Enter task description"
+              members={teamMembers}
+              placeholder="Enter task description. Type @ to mention someone"
               rows={3}
               className="text-sm"
             />
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="comments" className="text-sm">Comments</Label>
-            <Textarea
-              id="comments"
-              value={formData.comments}
-              onChange={(e) =>
-                setFormData({ ...formData, comments: e.target.value })
-              }
-              placeholder="Add any additional comments or notes"
-              rows={2}
-              className="text-sm"
-            />
-          </div>
-
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
             <div className="space-y-2">
               <Label className="text-sm">Status</Label>
@@ -374,16 +611,35 @@ export function TaskDialog({
                 }
               >
                 <SelectTrigger className="h-9 sm:h-10">
-                  <SelectValue />
+                  <SelectValue placeholder="Select status" />
                 </SelectTrigger>
                 <SelectContent>
-                  {TASK_STATUSES.map((status) => (
-                    <SelectItem key={status} value={status}>
-                      {status}
+                  {statuses.map((status) => (
+                    <SelectItem key={status.id} value={status.name}>
+                      <span className="flex items-center gap-2">
+                        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: status.color }} />
+                        {status.name}
+                      </span>
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              {!transition.allowed && (
+                <p className="text-xs text-destructive">
+                  The workflow doesn't allow moving from "{fromStatus}" to "{formData.status}"
+                </p>
+              )}
+              {completionBlocked && (
+                <p className="text-xs text-destructive">
+                  Complete the {openSubtaskCount} open subtask(s) first
+                </p>
+              )}
+              {completing && !completionBlocked && openChecklistCount > 0 && (
+                <p className="text-xs text-warning flex items-center gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  {openChecklistCount} checklist item(s) are still unchecked
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -408,6 +664,21 @@ export function TaskDialog({
             </div>
           </div>
 
+          {transition.requiresNote && (
+            <div className="space-y-2">
+              <Label htmlFor="status_note" className="text-sm">Status Note *</Label>
+              <Textarea
+                id="status_note"
+                value={statusNote}
+                onChange={(e) => setStatusNote(e.target.value)}
+                placeholder={`Required to move from "${fromStatus}" to "${formData.status}"`}
+                rows={2}
+                className="text-sm"
+                required
+              />
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label className="text-sm">Assign To (Multiple)</Label>
             <div className="border rounded-md p-2 sm:p-3 space-y-2 max-h-36 sm:max-h-48 overflow-y-auto">
@@ -420,6 +691,7 @@ export function TaskDialog({
                   <label key={member.id} className="flex items-center gap-2 cursor-pointer py-1">
                     <Checkbox
                       checked={formData.assignee_ids.includes(member.id)}
+                      disabled={!canAssign}
                       onCheckedChange={(checked) => {
                         const newIds = checked
                           ? [...formData.assignee_ids, member.id]
@@ -432,49 +704,172 @@ export function TaskDialog({
                 ))
               )}
             </div>
+            {!canAssign && (
+              <p className="text-xs text-muted-foreground">
+                Only admins and the project's managers can change assignees
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm">Start Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-left font-normal h-9 sm:h-10 text-sm"
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {formData.start_date ? (
+                      format(formData.start_date, "PPP")
+                    ) : (
+                      <span>Pick a date</span>
+                    )}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={formData.start_date || undefined}
+                    onSelect={(date) =>
+                      setFormData({ ...formData, start_date: date || null })
+                    }
+                    disabled={(date) => !!formData.due_date && date > formData.due_date}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm">Due Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-left font-normal h-9 sm:h-10 text-sm"
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {formData.due_date ? (
+                      format(formData.due_date, "PPP")
+                    ) : (
+                      <span>Pick a date</span>
+                    )}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={formData.due_date || undefined}
+                    onSelect={(date) =>
+                      // Repeating needs a due date to count from
+                      setFormData({
+                        ...formData,
+                        due_date: date || null,
+                        ...(!date && { recurrence_rule: null }),
+                      })
+                    }
+                    disabled={(date) => !!formData.start_date && date < formData.start_date}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
           </div>
 
           <div className="space-y-2">
-            <Label className="text-sm">Due Date</Label>
-            <Popover>
-              <PopoverTrigger asChild>
-                <Button
-                  variant="outline"
-                  className="w-full justify-start text-left font-normal h-9 sm:h-10 text-sm"
-                >
-                  <CalendarIcon className="mr-2 h-4 w-4" />
-                  {formData.due_date ? (
-                    format(formData.due_date, "PPP")
-                  ) : (
-                    <span>Pick a date</span>
-                  )}
-                </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-auto p-0" align="start">
-                <Calendar
-                  mode="single"
-                  selected={formData.due_date || undefined}
-                  onSelect={(date) =>
-                    setFormData({ ...formData, due_date: date || null })
-                  }
-                  initialFocus
-                />
-              </PopoverContent>
-            </Popover>
+            <Label htmlFor="estimate" className="text-sm flex items-center gap-1">
+              <Hourglass className="h-4 w-4" />
+              Estimate
+            </Label>
+            <Input
+              id="estimate"
+              value={estimate}
+              onChange={(e) => setEstimate(e.target.value)}
+              placeholder="e.g. 4h or 1h 30m"
+              className="h-9 sm:h-10 w-full sm:w-[200px]"
+            />
+            {estimateInvalid && (
+              <p className="text-xs text-destructive">Enter a duration such as 45m, 1h 30m, 1:30 or 1.5</p>
+            )}
           </div>
 
           <div className="flex items-center space-x-2">
-            <Switch
-              id="blocked"
-              checked={formData.is_blocked}
+            <Checkbox
+              id="is_milestone"
+              checked={formData.is_milestone}
               onCheckedChange={(checked) =>
-                setFormData({ ...formData, is_blocked: checked })
+                setFormData({ ...formData, is_milestone: checked === true })
               }
             />
-            <Label htmlFor="blocked" className="text-sm">Task is blocked</Label>
+            <Label htmlFor="is_milestone" className="text-sm font-normal">
+              Milestone (shown as a marker on the timeline)
+            </Label>
           </div>
 
+          <RecurrenceEditor
+            rule={formData.recurrence_rule}
+            trigger={formData.recurrence_trigger}
+            dueDate={formData.due_date}
+            onChange={(recurrence_rule, recurrence_trigger) =>
+              setFormData({ ...formData, recurrence_rule, recurrence_trigger })
+            }
+          />
+
+          {task?.is_blocked && (
+            <p className="flex items-center gap-1 text-xs text-destructive">
+              <AlertCircle className="h-3 w-3" />
+              Blocked until the tasks it depends on are done
+            </p>
+          )}
+
+          {task && (
+            <div className="border-t pt-3 sm:pt-4 space-y-4">
+              {/* Subtasks can't be nested further */}
+              {!task.parent_task_id && (
+                <TaskSubtasks
+                  taskId={task.id}
+                  projectId={projectId}
+                  statuses={statuses}
+                  onOpenCountChange={setOpenSubtaskCount}
+                />
+              )}
+              <TaskChecklist taskId={task.id} onOpenCountChange={setOpenChecklistCount} />
+              <TaskAttachments taskId={task.id} />
+              <TaskDeliverables taskId={task.id} onChange={() => setDeliverablesKey((prev) => prev + 1)} />
+              <TaskDependencies taskId={task.id} projectId={projectId} />
+              <TaskTimeTracking taskId={task.id} estimateMinutes={estimateInvalid ? task.estimate_minutes : estimateMinutes} />
+            </div>
+          )}
+
+          {task && (
+            <div className="border-t pt-3 sm:pt-4">
+              <TaskComments
+                taskId={task.id}
+                taskTitle={task.title}
+                projectId={projectId}
+                members={teamMembers}
+                deliverablesKey={deliverablesKey}
+              />
+            </div>
+          )}
+
+          {task && <TaskLogs taskId={task.id} />}
+
           <DialogFooter className="gap-2 sm:gap-0 pt-2">
+            {task && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={handleSaveAsTemplate}
+                disabled={savingTemplate}
+                className="w-full sm:w-auto sm:mr-auto h-9 sm:h-10"
+              >
+                <LayoutTemplate className="mr-2 h-4 w-4" />
+                Save as Template
+              </Button>
+            )}
             <Button
               type="button"
               variant="outline"
@@ -484,7 +879,7 @@ export function TaskDialog({
             >
               Cancel
             </Button>
-            <Button type="submit" disabled={loading} className="w-full sm:w-auto h-9 sm:h-10">
+            <Button type="submit" disabled={loading || !transition.allowed || completionBlocked || estimateInvalid} className="w-full sm:w-auto h-9 sm:h-10">
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               {task ? "Update" : "Create"} Task
             </Button>
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { format } from "date-fns";
-import { History, User, ArrowRight, MessageSquare, Users } from "lucide-react";
+import { History, User, ArrowRight, MessageSquare, Users, Flag, CalendarClock, Ban, Pencil, Plus, Diamond, ClipboardCheck, Paperclip, Layers } from "lucide-react";
 
 interface TaskLog {
   id: string;
@@ -13,7 +13,7 @@ interface TaskLog {
   new_value: string | null;
   details: any;
   created_at: string;
-  user_id: string;
+  user_id: string | null;
   profiles?: {
     full_name: string;
   };
@@ -71,6 +71,26 @@ export function TaskLogs({ taskId, filterType = "all" }: TaskLogsProps) {
         return <Users className="h-4 w-4" />;
       case "comment":
         return <MessageSquare className="h-4 w-4" />;
+      case "priority":
+        return <Flag className="h-4 w-4" />;
+      case "due_date":
+      case "start_date":
+        return <CalendarClock className="h-4 w-4" />;
+      case "milestone":
+        return <Diamond className="h-4 w-4" />;
+      case "blocked":
+        return <Ban className="h-4 w-4" />;
+      case "title":
+      case "description":
+        return <Pencil className="h-4 w-4" />;
+      case "created":
+        return <Plus className="h-4 w-4" />;
+      case "client_review":
+        return <ClipboardCheck className="h-4 w-4" />;
+      case "attachment":
+        return <Paperclip className="h-4 w-4" />;
+      case "deliverable":
+        return <Layers className="h-4 w-4" />;
       default:
         return <History className="h-4 w-4" />;
     }
@@ -83,6 +103,9 @@ export function TaskLogs({ taskId, filterType = "all" }: TaskLogsProps) {
           <span>
             changed status from <strong>{log.old_value || "None"}</strong> to{" "}
             <strong>{log.new_value}</strong>
+            {log.details?.note && (
+              <span className="block mt-0.5 italic text-muted-foreground">"{log.details.note}"</span>
+            )}
           </span>
         );
       case "assignee":
@@ -108,6 +131,89 @@ export function TaskLogs({ taskId, filterType = "all" }: TaskLogsProps) {
         }
       case "comment":
         return <span>added a comment</span>;
+      case "priority":
+        return (
+          <span>
+            changed priority from <strong>{log.old_value || "None"}</strong> to{" "}
+            <strong>{log.new_value}</strong>
+          </span>
+        );
+      case "due_date":
+        if (!log.new_value) {
+          return <span>removed the due date</span>;
+        }
+        return (
+          <span>
+            {log.old_value ? "changed due date to " : "set due date to "}
+            <strong>{format(new Date(log.new_value), "MMM d, yyyy")}</strong>
+          </span>
+        );
+      case "start_date":
+        if (!log.new_value) {
+          return <span>removed the start date</span>;
+        }
+        return (
+          <span>
+            {log.old_value ? "changed start date to " : "set start date to "}
+            <strong>{format(new Date(log.new_value), "MMM d, yyyy")}</strong>
+          </span>
+        );
+      case "milestone":
+        return log.new_value === "true" ? (
+          <span>marked the task as a <strong>milestone</strong></span>
+        ) : (
+          <span>unmarked the task as a milestone</span>
+        );
+      case "blocked":
+        return log.new_value === "true" ? (
+          <span>marked the task as <strong>blocked</strong></span>
+        ) : (
+          <span>marked the task as <strong>unblocked</strong></span>
+        );
+      case "title":
+        return (
+          <span>
+            renamed the task to <strong>{log.new_value}</strong>
+          </span>
+        );
+      case "description":
+        return <span>updated the description</span>;
+      case "created":
+        return <span>created the task</span>;
+      case "attachment":
+        return log.new_value ? (
+          <span>
+            attached <strong>{log.new_value}</strong>
+          </span>
+        ) : (
+          <span>
+            removed the attachment <strong>{log.old_value}</strong>
+          </span>
+        );
+      case "deliverable":
+        return (
+          <span>
+            uploaded <strong>{log.new_value}</strong>
+          </span>
+        );
+      case "client_review":
+        return (
+          <span>
+            {log.new_value === "approved" ? (
+              <>
+                <strong>approved</strong> the task
+              </>
+            ) : (
+              <>
+                <strong>requested changes</strong>
+              </>
+            )}
+            {log.details?.source === "review_link" && " through a review link"}
+            {log.details?.comment && (
+              <span className="block mt-0.5 italic text-muted-foreground">"{log.details.comment}"</span>
+            )}
+          </span>
+        );
       default:
         return <span>{log.action_type}</span>;
     }
@@ -116,6 +222,7 @@ export function TaskLogs({ taskId, filterType = "all" }: TaskLogsProps) {
   if (!isOpen) {
     return (
       <Button
+        type="button"
         variant="ghost"
         size="sm"
         onClick={() => setIsOpen(true)}
@@ -132,9 +239,15 @@ export function TaskLogs({ taskId, filterType = "all" }: TaskLogsProps) {
       <div className="flex items-center justify-between mb-2">
         <h4 className="text-sm font-medium flex items-center gap-1">
           <History className="h-4 w-4" />
-          {filterType === "assignee" ? "Assignment History" : filterType === "all" ? "Activity Log" : "Status History"}
+          {filterType === "assignee"
+            ? "Assignment History"
+            : filterType === "comment"
+              ? "Comment History"
+              : filterType === "all"
+                ? "Activity Log"
+                : "Status History"}
         </h4>
-        <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)}>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setIsOpen(false)}>
           Close
         </Button>
       </div>
@@ -154,7 +267,10 @@ export function TaskLogs({ taskId, filterType = "all" }: TaskLogsProps) {
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-1">
                     <User className="h-3 w-3 text-muted-foreground" />
-                    <span className="font-medium">{log.profiles?.full_name || "Unknown"}</span>
+                    <span className="font-medium">
+                      {/* Review link verdicts have no user, only the name the reviewer gave */}
+                      {log.user_id ? log.profiles?.full_name || "Unknown" : log.details?.reviewer || "System"}
+                    </span>
                     <span className="text-muted-foreground">{getActionLabel(log)}</span>
                   </div>
                   <div className="text-muted-foreground mt-0.5">
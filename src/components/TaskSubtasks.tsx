@@ -0,0 +1,181 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { getTaskLink } from "@/lib/notifications";
+import { ProjectStatus } from "@/lib/workflow";
+import { AssigneeAvatars, TaskAssignee } from "./AssigneeAvatars";
+import { StatusBadge } from "./StatusBadge";
+import { format } from "date-fns";
+import { CheckCircle2, Circle, GitBranch, Plus } from "lucide-react";
+
+interface Subtask {
+  id: string;
+  title: string;
+  status: string;
+  due_date: string | null;
+  task_assignees: TaskAssignee[];
+}
+
+interface TaskSubtasksProps {
+  taskId: string;
+  projectId: string;
+  statuses: ProjectStatus[];
+  // Called with the number of subtasks not in a done status whenever the list changes
+  onOpenCountChange?: (openCount: number) => void;
+}
+
+const SUBTASK_SELECT = "id, title, status, due_date, task_assignees(id, user_id, profiles(full_name, avatar_url))";
+
+// Child tasks of a task. Each is a full task with its own card on the board.
+export function TaskSubtasks({ taskId, projectId, statuses, onOpenCountChange }: TaskSubtasksProps) {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newTitle, setNewTitle] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  const fetchSubtasks = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select(SUBTASK_SELECT)
+        .eq("parent_task_id", taskId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setSubtasks(data || []);
+    } catch (error) {
+      console.error("Error fetching subtasks:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchSubtasks();
+  }, [fetchSubtasks]);
+
+  const isDone = useCallback(
+    (subtask: Subtask) => statuses.find((s) => s.name === subtask.status)?.is_done ?? false,
+    [statuses]
+  );
+
+  useEffect(() => {
+    onOpenCountChange?.(subtasks.filter((s) => !isDone(s)).length);
+  }, [subtasks, isDone, onOpenCountChange]);
+
+  const handleAdd = async () => {
+    const title = newTitle.trim();
+    if (!title) return;
+
+    setAdding(true);
+    try {
+      // Status and position are filled in by the database, which also assigns
+      // staff to the subtasks they add, so the list is fetched again
+      const { error } = await supabase
+        .from("tasks")
+        .insert({ project_id: projectId, parent_task_id: taskId, title });
+
+      if (error) throw error;
+
+      await fetchSubtasks();
+      setNewTitle("");
+    } catch (error) {
+      console.error("Error adding subtask:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add subtask",
+        variant: "destructive",
+      });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const doneCount = subtasks.filter(isDone).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-1">
+          <GitBranch className="h-4 w-4" />
+          Subtasks
+        </h4>
+        {subtasks.length > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {doneCount}/{subtasks.length} done
+          </span>
+        )}
+      </div>
+
+      {subtasks.length > 0 && <Progress value={(doneCount / subtasks.length) * 100} className="h-1.5" />}
+
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading subtasks...</p>
+      ) : (
+        <div className="space-y-1">
+          {subtasks.map((subtask) => {
+            const done = isDone(subtask);
+            const color = statuses.find((s) => s.name === subtask.status)?.color;
+            return (
+              <button
+                key={subtask.id}
+                type="button"
+                className="w-full flex items-center gap-2 rounded border px-2 py-1.5 text-left hover:bg-muted/50"
+                onClick={() => navigate(getTaskLink(projectId, subtask.id))}
+              >
+                {done ? (
+                  <CheckCircle2 className="h-4 w-4 text-success shrink-0" />
+                ) : (
+                  <Circle className="h-4 w-4 text-muted-foreground shrink-0" />
+                )}
+                <span className={`flex-1 min-w-0 truncate text-sm ${done ? "line-through text-muted-foreground" : ""}`}>
+                  {subtask.title}
+                </span>
+                {subtask.due_date && (
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {format(new Date(subtask.due_date), "MMM dd")}
+                  </span>
+                )}
+                <StatusBadge status={subtask.status} color={color} className="shrink-0" />
+                <AssigneeAvatars assignees={subtask.task_assignees} max={2} className="shrink-0" />
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            // Keep Enter from submitting the task form
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Add a subtask"
+          className="h-8 text-sm"
+          disabled={adding}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="h-8"
+          onClick={handleAdd}
+          disabled={adding || !newTitle.trim()}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
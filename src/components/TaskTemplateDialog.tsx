@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { TASK_PRIORITIES } from "@/config/appConfig";
+import { TaskPriority, TaskTemplate } from "@/lib/templates";
+import { Loader2 } from "lucide-react";
+
+interface TaskTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Omitted to create a new template
+  template?: TaskTemplate;
+  onSaved: () => void;
+}
+
+export function TaskTemplateDialog({ open, onOpenChange, template, onSaved }: TaskTemplateDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [priority, setPriority] = useState<TaskPriority>("P2-Medium");
+  const [dueOffset, setDueOffset] = useState("");
+  const [checklist, setChecklist] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name || "");
+    setTitle(template?.title || "");
+    setDescription(template?.description || "");
+    setPriority(template?.priority || "P2-Medium");
+    setDueOffset(template?.due_offset_days?.toString() ?? "");
+    setChecklist(template?.checklist.join("\n") || "");
+  }, [open, template]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const values = {
+      name: name.trim(),
+      title: title.trim(),
+      description: description.trim() || null,
+      priority,
+      due_offset_days: dueOffset === "" ? null : Math.max(0, Math.floor(Number(dueOffset)) || 0),
+      // One checklist item per line
+      checklist: checklist.split("\n").map((line) => line.trim()).filter(Boolean),
+    };
+
+    try {
+      if (template) {
+        const { data, error } = await supabase
+          .from("task_templates")
+          .update(values)
+          .eq("id", template.id)
+          .select("id");
+
+        if (error) throw error;
+        if (!data || data.length === 0) {
+          throw new Error("You don't have permission to edit this template");
+        }
+      } else {
+        const { error } = await supabase.from("task_templates").insert(values);
+        if (error) throw error;
+      }
+
+      toast({ title: "Template saved" });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error("Error saving task template:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Task Template" : "New Task Template"}</DialogTitle>
+          <DialogDescription>Task templates can be picked when creating a task in any project.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="task-template-name">Template Name</Label>
+            <Input
+              id="task-template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Weekly client report"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="task-template-title">Task Title</Label>
+            <Input id="task-template-title" value={title} onChange={(e) => setTitle(e.target.value)} required />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="task-template-description">Description</Label>
+            <Textarea
+              id="task-template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="task-template-priority">Priority</Label>
+              <Select value={priority} onValueChange={(value) => setPriority(value as TaskPriority)}>
+                <SelectTrigger id="task-template-priority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_PRIORITIES.map((p) => (
+                    <SelectItem key={p} value={p}>
+                      {p}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="task-template-due">Due After (days)</Label>
+              <Input
+                id="task-template-due"
+                type="number"
+                min={0}
+                value={dueOffset}
+                onChange={(e) => setDueOffset(e.target.value)}
+                placeholder="No due date"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="task-template-checklist">Checklist</Label>
+            <Textarea
+              id="task-template-checklist"
+              value={checklist}
+              onChange={(e) => setChecklist(e.target.value)}
+              placeholder="One item per line"
+              rows={4}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim() || !title.trim()}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Template
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
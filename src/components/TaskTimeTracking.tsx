@@ -0,0 +1,284 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { useRunningTimer } from "@/hooks/use-running-timer";
+import { formatElapsed, formatMinutes, parseDuration, sumMinutes } from "@/lib/time";
+import { addMinutes, format, startOfDay } from "date-fns";
+import { Calendar as CalendarIcon, Play, Plus, Square, Timer, X } from "lucide-react";
+
+interface TimeEntry {
+  id: string;
+  user_id: string;
+  started_at: string;
+  minutes: number | null;
+  note: string | null;
+  is_billable: boolean;
+  profiles: { full_name: string } | null;
+}
+
+interface TaskTimeTrackingProps {
+  taskId: string;
+  estimateMinutes: number | null;
+}
+
+export function TaskTimeTracking({ taskId, estimateMinutes }: TaskTimeTrackingProps) {
+  const { toast } = useToast();
+  const { running, start, stop } = useRunningTimer();
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [now, setNow] = useState(new Date());
+  const [busy, setBusy] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [entryDate, setEntryDate] = useState<Date>(startOfDay(new Date()));
+  const [duration, setDuration] = useState("");
+  const [note, setNote] = useState("");
+  const [billable, setBillable] = useState(true);
+
+  const runningHere = running?.task_id === taskId;
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("time_entries")
+        .select("id, user_id, started_at, minutes, note, is_billable, profiles(full_name)")
+        .eq("task_id", taskId)
+        .order("started_at", { ascending: false });
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error("Error fetching time entries:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+  }, []);
+
+  // Starting or stopping a timer, here or in the header, changes the entries
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries, running?.id]);
+
+  useEffect(() => {
+    if (!runningHere) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [runningHere]);
+
+  const showError = (error: { message?: string }, fallback: string) =>
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+
+  const handleTimer = async () => {
+    setBusy(true);
+    try {
+      if (runningHere) {
+        const logged = await stop();
+        if (!logged) toast({ title: "Timer discarded", description: "Timers under a minute aren't logged" });
+      } else {
+        await start(taskId);
+      }
+      await fetchEntries();
+    } catch (error) {
+      console.error("Error updating timer:", error);
+      showError(error, "Failed to update timer");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const minutes = parseDuration(duration);
+
+  const handleAdd = async () => {
+    if (!minutes) return;
+    setBusy(true);
+
+    const { error } = await supabase.from("time_entries").insert({
+      task_id: taskId,
+      started_at: entryDate.toISOString(),
+      ended_at: addMinutes(entryDate, minutes).toISOString(),
+      minutes,
+      note: note.trim() || null,
+      is_billable: billable,
+    });
+
+    setBusy(false);
+    if (error) {
+      console.error("Error logging time:", error);
+      showError(error, "Failed to log time");
+      return;
+    }
+
+    setDuration("");
+    setNote("");
+    setShowForm(false);
+    fetchEntries();
+  };
+
+  const handleDelete = async (entryId: string) => {
+    const { error } = await supabase.from("time_entries").delete().eq("id", entryId);
+    if (error) {
+      console.error("Error deleting time entry:", error);
+      showError(error, "Failed to delete time entry");
+      return;
+    }
+    setEntries((prev) => prev.filter((e) => e.id !== entryId));
+  };
+
+  const logged = sumMinutes(entries);
+  const overEstimate = !!estimateMinutes && logged > estimateMinutes;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-1">
+          <Timer className="h-4 w-4" />
+          Time
+        </h4>
+        <span className={`text-xs ${overEstimate ? "text-destructive font-medium" : "text-muted-foreground"}`}>
+          {formatMinutes(logged)} logged
+          {estimateMinutes && ` of ${formatMinutes(estimateMinutes)} estimated`}
+        </span>
+      </div>
+
+      {estimateMinutes && (
+        <Progress
+          value={Math.min(100, (logged / estimateMinutes) * 100)}
+          className={`h-1.5 ${overEstimate ? "[&>div]:bg-destructive" : ""}`}
+        />
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={runningHere ? "default" : "outline"}
+          className="h-8"
+          onClick={handleTimer}
+          disabled={busy}
+          title={running && !runningHere ? `Stops the timer on "${running.tasks?.title}"` : undefined}
+        >
+          {runningHere ? (
+            <>
+              <Square className="mr-2 h-3 w-3 fill-current" />
+              Stop
+              <span className="ml-2 font-mono tabular-nums">{formatElapsed(new Date(running.started_at), now)}</span>
+            </>
+          ) : (
+            <>
+              <Play className="mr-2 h-3 w-3" />
+              Start Timer
+            </>
+          )}
+        </Button>
+        <Button type="button" size="sm" variant="outline" className="h-8" onClick={() => setShowForm(!showForm)}>
+          <Plus className="mr-2 h-3 w-3" />
+          Log Time
+        </Button>
+      </div>
+
+      {showForm && (
+        <div className="space-y-2 rounded-md border p-2">
+          <div className="flex flex-wrap gap-2">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button type="button" variant="outline" size="sm" className="h-8 font-normal">
+                  <CalendarIcon className="mr-2 h-3 w-3" />
+                  {format(entryDate, "MMM d, yyyy")}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={entryDate}
+                  onSelect={(date) => date && setEntryDate(startOfDay(date))}
+                  disabled={(date) => date > new Date()}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+            <Input
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              placeholder="1h 30m"
+              className="h-8 w-24 text-sm"
+            />
+            <label className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Checkbox checked={billable} onCheckedChange={(checked) => setBillable(checked === true)} />
+              Billable
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              onKeyDown={(e) => {
+                // Keep Enter from submitting the task form
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleAdd();
+                }
+              }}
+              placeholder="What did you work on? (optional)"
+              className="h-8 text-sm"
+            />
+            <Button type="button" size="sm" className="h-8" onClick={handleAdd} disabled={busy || !minutes}>
+              Add
+            </Button>
+          </div>
+          {duration && !minutes && (
+            <p className="text-xs text-destructive">Enter a duration such as 45m, 1h 30m, 1:30 or 1.5</p>
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading time entries...</p>
+      ) : (
+        <div className="space-y-1">
+          {entries.map((entry) => (
+            <div key={entry.id} className="group flex items-center gap-2 rounded px-1 py-0.5 text-sm hover:bg-muted/50">
+              <span className="w-16 shrink-0 font-medium">
+                {entry.minutes !== null ? formatMinutes(entry.minutes) : "Running"}
+              </span>
+              <span className="flex-1 min-w-0 truncate text-muted-foreground">
+                {entry.profiles?.full_name || "Unknown"} · {format(new Date(entry.started_at), "MMM d")}
+                {entry.note && ` · ${entry.note}`}
+              </span>
+              {!entry.is_billable && (
+                <Badge variant="outline" className="text-xs shrink-0">
+                  Non-billable
+                </Badge>
+              )}
+              {entry.user_id === userId && entry.minutes !== null && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                  onClick={() => handleDelete(entry.id)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
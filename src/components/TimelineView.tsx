@@ -0,0 +1,489 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { getTaskLink } from "@/lib/notifications";
+import { DEFAULT_STATUS_COLOR } from "@/config/appConfig";
+import { AssigneeAvatars, TaskAssignee } from "./AssigneeAvatars";
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  format,
+  isWeekend,
+  max as maxDate,
+  min as minDate,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+import { CalendarRange } from "lucide-react";
+
+interface TimelineTask {
+  id: string;
+  title: string;
+  status: string;
+  start_date: string | null;
+  due_date: string | null;
+  is_milestone: boolean;
+  task_assignees?: TaskAssignee[];
+  workflow_status: {
+    color: string;
+    is_done: boolean;
+  } | null;
+}
+
+interface Dependency {
+  task_id: string;
+  depends_on_task_id: string;
+}
+
+interface TimelineViewProps {
+  projectId: string;
+  refreshKey?: number;
+}
+
+type Zoom = "day" | "week";
+type DragMode = "move" | "start" | "end";
+
+interface DragState {
+  taskId: string;
+  mode: DragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+const DAY_WIDTH: Record<Zoom, number> = { day: 36, week: 14 };
+const ROW_HEIGHT = 40;
+const LABEL_WIDTH = 220;
+const HEADER_HEIGHT = 48;
+
+// First and last day a task covers. Tasks with only one date are a single day.
+const getSpan = (task: Pick<TimelineTask, "start_date" | "due_date">) => {
+  const start = startOfDay(new Date(task.start_date ?? task.due_date!));
+  const end = startOfDay(new Date(task.due_date ?? task.start_date!));
+  return { start, end };
+};
+
+// Applies a drag to a task's dates, keeping the start on or before the due date
+const applyDrag = (task: TimelineTask, mode: DragMode, days: number) => {
+  const shift = (date: string | null) => (date ? addDays(new Date(date), days).toISOString() : null);
+  const { start, end } = getSpan(task);
+
+  if (mode === "move" || task.is_milestone) {
+    return { start_date: shift(task.start_date), due_date: shift(task.due_date) };
+  }
+  if (mode === "start") {
+    const clamped = Math.min(days, differenceInCalendarDays(end, start));
+    return {
+      start_date: addDays(new Date(task.start_date ?? task.due_date!), clamped).toISOString(),
+      due_date: task.due_date,
+    };
+  }
+  const clamped = Math.max(days, -differenceInCalendarDays(end, start));
+  return {
+    start_date: task.start_date,
+    due_date: addDays(new Date(task.due_date ?? task.start_date!), clamped).toISOString(),
+  };
+};
+
+export function TimelineView({ projectId, refreshKey }: TimelineViewProps) {
+  const [tasks, setTasks] = useState<TimelineTask[]>([]);
+  const [dependencies, setDependencies] = useState<Dependency[]>([]);
+  const [unscheduledCount, setUnscheduledCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [zoom, setZoom] = useState<Zoom>("day");
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const fetchTimeline = useCallback(async () => {
+    try {
+      const [scheduledResult, unscheduledResult] = await Promise.all([
+        supabase
+          .from("tasks")
+          .select(`
+            id, title, status, start_date, due_date, is_milestone,
+            task_assignees (
+              user_id,
+              profiles (
+                full_name,
+                avatar_url
+              )
+            ),
+            workflow_status:project_statuses!tasks_project_status_fkey (
+              color,
+              is_done
+            )
+          `)
+          .eq("project_id", projectId)
+          .or("start_date.not.is.null,due_date.not.is.null"),
+        supabase
+          .from("tasks")
+          .select("id", { count: "exact", head: true })
+          .eq("project_id", projectId)
+          .is("start_date", null)
+          .is("due_date", null),
+      ]);
+
+      if (scheduledResult.error) throw scheduledResult.error;
+
+      const scheduled = (scheduledResult.data || []).sort(
+        (a, b) => getSpan(a).start.getTime() - getSpan(b).start.getTime()
+      );
+      setTasks(scheduled);
+      setUnscheduledCount(unscheduledResult.count ?? 0);
+
+      if (scheduled.length > 0) {
+        const { data: deps, error: depsError } = await supabase
+          .from("task_dependencies")
+          .select("task_id, depends_on_task_id")
+          .in("task_id", scheduled.map((t) => t.id));
+        if (depsError) throw depsError;
+        setDependencies(deps || []);
+      } else {
+        setDependencies([]);
+      }
+    } catch (error) {
+      console.error("Error fetching timeline:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load timeline",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [fetchTimeline, refreshKey]);
+
+  const dayWidth = DAY_WIDTH[zoom];
+  const today = startOfDay(new Date());
+  const spans = tasks.map(getSpan);
+  const rangeStart = startOfWeek(
+    addDays(minDate([today, ...spans.map((s) => s.start)]), -7),
+    { weekStartsOn: 1 }
+  );
+  const rangeEnd = addDays(maxDate([today, ...spans.map((s) => s.end)]), 21);
+  const days = eachDayOfInterval({ start: rangeStart, end: rangeEnd });
+  const xFor = (date: Date) => differenceInCalendarDays(date, rangeStart) * dayWidth;
+  const todayX = xFor(today) + dayWidth / 2;
+  const todayXRef = useRef(todayX);
+  todayXRef.current = todayX;
+
+  // Start scrolled to a little before today; not repeated when a drag widens the range
+  useEffect(() => {
+    if (!loading && scrollRef.current) {
+      scrollRef.current.scrollLeft = Math.max(0, todayXRef.current - 240);
+    }
+  }, [loading, zoom]);
+
+  const saveDates = useCallback(
+    async (task: TimelineTask, mode: DragMode, deltaDays: number) => {
+      const changes = applyDrag(task, mode, deltaDays);
+      setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, ...changes } : t)));
+
+      try {
+        const { data, error } = await supabase
+          .from("tasks")
+          .update(changes)
+          .eq("id", task.id)
+          .select("id");
+
+        if (error) throw error;
+        // RLS filters out rows the user may not update instead of raising an error
+        if (!data || data.length === 0) throw new Error("You don't have permission to reschedule this task");
+      } catch (error) {
+        console.error("Error rescheduling task:", error);
+        setTasks((prev) => prev.map((t) => (t.id === task.id ? task : t)));
+        toast({
+          title: "Error",
+          description: error.message || "Failed to reschedule task",
+          variant: "destructive",
+        });
+      }
+    },
+    [toast]
+  );
+
+  // Track the pointer on the window so the drag continues outside the bar
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const deltaDays = Math.round((e.clientX - drag.originX) / dayWidth);
+      if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+    };
+
+    const handleUp = () => {
+      const task = tasks.find((t) => t.id === drag.taskId);
+      setDrag(null);
+      if (!task) return;
+      if (drag.deltaDays === 0) {
+        // A press without movement opens the task
+        if (drag.mode === "move") navigate(getTaskLink(projectId, task.id));
+        return;
+      }
+      saveDates(task, drag.mode, drag.deltaDays);
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [drag, dayWidth, tasks, navigate, projectId, saveDates]);
+
+  const startDrag = (e: React.PointerEvent, taskId: string, mode: DragMode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ taskId, mode, originX: e.clientX, deltaDays: 0 });
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          {[1, 2, 3, 4, 5].map((i) => (
+            <Skeleton key={i} className="h-8 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Tasks as currently displayed, including an in-progress drag
+  const displayed = tasks.map((task) =>
+    drag?.taskId === task.id && drag.deltaDays !== 0 ? { ...task, ...applyDrag(task, drag.mode, drag.deltaDays) } : task
+  );
+  const rows = displayed.map((task, index) => {
+    const { start, end } = getSpan(task);
+    const left = xFor(start);
+    const width = (differenceInCalendarDays(end, start) + 1) * dayWidth;
+    const isDone = task.workflow_status?.is_done ?? false;
+    return {
+      task,
+      index,
+      start,
+      end,
+      left,
+      width,
+      isDone,
+      isLate: !isDone && end < today,
+    };
+  });
+  const rowById = new Map(rows.map((r) => [r.task.id, r]));
+  const timelineWidth = days.length * dayWidth;
+  const bodyHeight = rows.length * ROW_HEIGHT;
+
+  // Month labels span the days they cover
+  const months: { label: string; left: number; width: number }[] = [];
+  days.forEach((day, i) => {
+    const label = format(day, "MMMM yyyy");
+    const last = months[months.length - 1];
+    if (last?.label === label) {
+      last.width += dayWidth;
+    } else {
+      months.push({ label, left: i * dayWidth, width: dayWidth });
+    }
+  });
+
+  if (tasks.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          <CalendarRange className="h-10 w-10 mx-auto mb-3 opacity-50" />
+          <p>No scheduled tasks yet</p>
+          <p className="text-xs mt-1">Give tasks a start or due date to see them on the timeline.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-0.5 bg-primary" /> Today
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-2.5 w-2.5 rotate-45 bg-foreground" /> Milestone
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-2.5 w-4 rounded-sm ring-2 ring-destructive" /> Past due
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-0.5 w-4 bg-destructive" /> Starts before its blocker ends
+          </span>
+          {unscheduledCount > 0 && <span>{unscheduledCount} task(s) without dates are not shown</span>}
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={zoom}
+          onValueChange={(value) => value && setZoom(value as Zoom)}
+        >
+          <ToggleGroupItem value="day" className="text-xs">Days</ToggleGroupItem>
+          <ToggleGroupItem value="week" className="text-xs">Weeks</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <Card className="overflow-hidden">
+        <div ref={scrollRef} className={`overflow-x-auto ${drag ? "select-none" : ""}`}>
+          <div className="relative" style={{ width: LABEL_WIDTH + timelineWidth }}>
+            {/* Header */}
+            <div className="flex border-b sticky top-0 z-20 bg-card" style={{ height: HEADER_HEIGHT }}>
+              <div
+                className="sticky left-0 z-30 bg-card border-r flex items-end px-3 pb-1.5 text-xs font-medium text-muted-foreground shrink-0"
+                style={{ width: LABEL_WIDTH }}
+              >
+                Task
+              </div>
+              <div className="relative" style={{ width: timelineWidth }}>
+                {months.map((month) => (
+                  <div
+                    key={month.label}
+                    className="absolute top-0 h-6 border-l px-2 text-xs font-medium truncate leading-6"
+                    style={{ left: month.left, width: month.width }}
+                  >
+                    {month.label}
+                  </div>
+                ))}
+                {days.map((day, i) =>
+                  zoom === "day" || day.getDay() === 1 ? (
+                    <div
+                      key={day.toISOString()}
+                      className={`absolute bottom-0 h-6 text-center text-[10px] leading-6 ${isWeekend(day) ? "text-muted-foreground/60" : "text-muted-foreground"}`}
+                      style={{ left: i * dayWidth, width: zoom === "day" ? dayWidth : dayWidth * 7 }}
+                    >
+                      {zoom === "day" ? format(day, "d") : format(day, "MMM d")}
+                    </div>
+                  ) : null
+                )}
+              </div>
+            </div>
+
+            {/* Rows */}
+            <div className="relative">
+              {rows.map(({ task, left, width, isDone, isLate }) => {
+                const color = task.workflow_status?.color || DEFAULT_STATUS_COLOR;
+                return (
+                  <div key={task.id} className="flex border-b last:border-b-0" style={{ height: ROW_HEIGHT }}>
+                    <button
+                      type="button"
+                      className="sticky left-0 z-10 bg-card border-r flex items-center gap-2 px-3 text-left hover:bg-muted shrink-0"
+                      style={{ width: LABEL_WIDTH }}
+                      onClick={() => navigate(getTaskLink(projectId, task.id))}
+                    >
+                      <span className={`flex-1 truncate text-sm ${isDone ? "line-through text-muted-foreground" : ""}`}>
+                        {task.title}
+                      </span>
+                      <AssigneeAvatars assignees={task.task_assignees || []} max={2} className="shrink-0" />
+                    </button>
+
+                    <div className="relative" style={{ width: timelineWidth }}>
+                      {/* Weekend shading */}
+                      {zoom === "day" &&
+                        days.map((day, i) =>
+                          isWeekend(day) ? (
+                            <div
+                              key={day.toISOString()}
+                              className="absolute inset-y-0 bg-muted/40"
+                              style={{ left: i * dayWidth, width: dayWidth }}
+                            />
+                          ) : null
+                        )}
+
+                      {task.is_milestone ? (
+                        <div
+                          className={`absolute top-1/2 h-4 w-4 -translate-y-1/2 -translate-x-1/2 rotate-45 cursor-grab active:cursor-grabbing touch-none ${isLate ? "ring-2 ring-destructive" : ""}`}
+                          style={{ left: left + width - dayWidth / 2, backgroundColor: color }}
+                          title={`${task.title} · ${task.status}`}
+                          onPointerDown={(e) => startDrag(e, task.id, "move")}
+                        />
+                      ) : (
+                        <div
+                          className={`absolute top-2 bottom-2 rounded-md flex items-center cursor-grab active:cursor-grabbing touch-none shadow-sm ${isLate ? "ring-2 ring-destructive" : ""} ${isDone ? "opacity-60" : ""}`}
+                          style={{ left: left + 1, width: width - 2, backgroundColor: color }}
+                          title={`${task.title} · ${task.status}`}
+                          onPointerDown={(e) => startDrag(e, task.id, "move")}
+                        >
+                          <div
+                            className="absolute left-0 inset-y-0 w-2 cursor-ew-resize"
+                            onPointerDown={(e) => startDrag(e, task.id, "start")}
+                          />
+                          {zoom === "day" && width > 60 && (
+                            <span className="px-2 text-xs text-white truncate pointer-events-none">{task.title}</span>
+                          )}
+                          <div
+                            className="absolute right-0 inset-y-0 w-2 cursor-ew-resize"
+                            onPointerDown={(e) => startDrag(e, task.id, "end")}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {/* Dependency arrows and the today line, drawn over the bars */}
+              <svg
+                className="absolute top-0 pointer-events-none"
+                style={{ left: LABEL_WIDTH }}
+                width={timelineWidth}
+                height={bodyHeight}
+              >
+                <defs>
+                  <marker id="timeline-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M0,0 L8,4 L0,8 z" className="fill-muted-foreground" />
+                  </marker>
+                  <marker id="timeline-arrow-conflict" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M0,0 L8,4 L0,8 z" className="fill-destructive" />
+                  </marker>
+                </defs>
+
+                {dependencies.map((dep) => {
+                  const blocker = rowById.get(dep.depends_on_task_id);
+                  const dependent = rowById.get(dep.task_id);
+                  if (!blocker || !dependent) return null;
+
+                  const x1 = blocker.left + blocker.width;
+                  const y1 = blocker.index * ROW_HEIGHT + ROW_HEIGHT / 2;
+                  const x2 = dependent.left;
+                  const y2 = dependent.index * ROW_HEIGHT + ROW_HEIGHT / 2;
+                  const conflict = dependent.start <= blocker.end;
+                  // Route around the bars when the dependent starts left of the blocker's end
+                  const path =
+                    x2 - x1 >= 16
+                      ? `M${x1},${y1} H${x1 + 8} V${y2} H${x2}`
+                      : `M${x1},${y1} H${x1 + 8} V${y2 - (y2 > y1 ? ROW_HEIGHT / 2 : -ROW_HEIGHT / 2)} H${x2 - 8} V${y2} H${x2}`;
+
+                  return (
+                    <path
+                      key={`${dep.depends_on_task_id}-${dep.task_id}`}
+                      d={path}
+                      fill="none"
+                      strokeWidth={1.5}
+                      className={conflict ? "stroke-destructive" : "stroke-muted-foreground"}
+                      markerEnd={`url(#${conflict ? "timeline-arrow-conflict" : "timeline-arrow"})`}
+                    />
+                  );
+                })}
+
+                <line x1={todayX} x2={todayX} y1={0} y2={bodyHeight} strokeWidth={2} className="stroke-primary" />
+              </svg>
+            </div>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { Link } from "react-router-dom";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getTaskLink } from "@/lib/notifications";
+import { formatMinutes, getDayKey, sumMinutes } from "@/lib/time";
+import { addDays, format } from "date-fns";
+
+export interface TimesheetEntry {
+  task_id: string;
+  started_at: string;
+  minutes: number | null;
+  is_billable: boolean;
+  tasks: { title: string; project_id: string; projects: { name: string } | null } | null;
+}
+
+interface TimesheetGridProps {
+  entries: TimesheetEntry[];
+  weekStart: Date;
+  // Zone the week is counted in; days are bucketed in it
+  timeZone: string;
+}
+
+interface GridRow {
+  taskId: string;
+  projectId: string;
+  projectName: string;
+  title: string;
+  days: number[];
+}
+
+// Hours per task and day for one person's week
+export function TimesheetGrid({ entries, weekStart, timeZone }: TimesheetGridProps) {
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const dayKeys = days.map((d) => format(d, "yyyy-MM-dd"));
+
+  const rows = new Map<string, GridRow>();
+  entries.forEach((entry) => {
+    const day = dayKeys.indexOf(getDayKey(new Date(entry.started_at), timeZone));
+    if (day === -1 || !entry.minutes) return;
+
+    const row = rows.get(entry.task_id) || {
+      taskId: entry.task_id,
+      projectId: entry.tasks?.project_id ?? "",
+      projectName: entry.tasks?.projects?.name || "Unknown project",
+      title: entry.tasks?.title || "Unknown task",
+      days: Array(7).fill(0),
+    };
+    row.days[day] += entry.minutes;
+    rows.set(entry.task_id, row);
+  });
+
+  const sortedRows = [...rows.values()].sort(
+    (a, b) => a.projectName.localeCompare(b.projectName) || a.title.localeCompare(b.title)
+  );
+  const dayTotals = dayKeys.map((_, i) => sortedRows.reduce((total, row) => total + row.days[i], 0));
+  const total = dayTotals.reduce((a, b) => a + b, 0);
+  const billable = sumMinutes(
+    entries.filter((e) => e.is_billable && dayKeys.includes(getDayKey(new Date(e.started_at), timeZone)))
+  );
+
+  if (sortedRows.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">No time logged this week</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="min-w-[200px]">Task</TableHead>
+            {days.map((day) => (
+              <TableHead key={day.toISOString()} className="text-right whitespace-nowrap">
+                {format(day, "EEE d")}
+              </TableHead>
+            ))}
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sortedRows.map((row) => (
+            <TableRow key={row.taskId}>
+              <TableCell>
+                <Link to={getTaskLink(row.projectId, row.taskId)} className="font-medium hover:underline">
+                  {row.title}
+                </Link>
+                <p className="text-xs text-muted-foreground">{row.projectName}</p>
+              </TableCell>
+              {row.days.map((minutes, i) => (
+                <TableCell key={i} className={`text-right ${minutes ? "" : "text-muted-foreground"}`}>
+                  {minutes ? formatMinutes(minutes) : "–"}
+                </TableCell>
+              ))}
+              <TableCell className="text-right font-medium">
+                {formatMinutes(row.days.reduce((a, b) => a + b, 0))}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell>
+              Total
+              <p className="text-xs font-normal text-muted-foreground">{formatMinutes(billable)} billable</p>
+            </TableCell>
+            {dayTotals.map((minutes, i) => (
+              <TableCell key={i} className="text-right">
+                {minutes ? formatMinutes(minutes) : "–"}
+              </TableCell>
+            ))}
+            <TableCell className="text-right">{formatMinutes(total)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { getAvatarColor, getInitials } from "@/lib/avatars";
+import { cn } from "@/lib/utils";
+
+interface UserAvatarProps {
+  name: string | null | undefined;
+  avatarUrl: string | null | undefined;
+  className?: string;
+  fallbackClassName?: string;
+}
+
+// A person's avatar; shows their initials while the image loads, or if it is missing or broken
+export function UserAvatar({ name, avatarUrl, className, fallbackClassName }: UserAvatarProps) {
+  return (
+    <Avatar className={className}>
+      <AvatarImage src={avatarUrl || undefined} alt={name || undefined} className="object-cover" />
+      <AvatarFallback
+        className={cn("font-medium text-white", fallbackClassName)}
+        style={{ backgroundColor: getAvatarColor(name) }}
+      >
+        {getInitials(name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
@@ -0,0 +1,555 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { ProjectStatus, StatusTransition } from "@/lib/workflow";
+import { STATUS_COLOR_PRESETS, USER_ROLES } from "@/config/appConfig";
+import { ArrowDown, ArrowRight, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+
+interface WorkflowSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  onWorkflowChanged: () => void;
+}
+
+const describeError = (error: Partial<PostgrestError> | null, fallback: string) => {
+  if (error?.code === "23505") return "A status or rule with these values already exists";
+  if (error?.code === "23503") return "Move the tasks in this status to another status before deleting it";
+  return error?.message || fallback;
+};
+
+export function WorkflowSettingsDialog({
+  open,
+  onOpenChange,
+  projectId,
+  onWorkflowChanged,
+}: WorkflowSettingsDialogProps) {
+  const { toast } = useToast();
+  const { statuses, transitions, refetch } = useProjectStatuses(projectId);
+  const [taskCounts, setTaskCounts] = useState<Record<string, number>>({});
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [colors, setColors] = useState<Record<string, string>>({});
+  const [wipLimits, setWipLimits] = useState<Record<string, { total: string; perUser: string }>>({});
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<string>(STATUS_COLOR_PRESETS[1]);
+  const [ruleFrom, setRuleFrom] = useState("");
+  const [ruleTo, setRuleTo] = useState("");
+  const [ruleRoles, setRuleRoles] = useState<StatusTransition["allowed_roles"]>([]);
+  const [ruleRequiresNote, setRuleRequiresNote] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTaskCounts = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select("status")
+        .eq("project_id", projectId);
+
+      if (error) throw error;
+
+      const counts: Record<string, number> = {};
+      data?.forEach(({ status }) => {
+        counts[status] = (counts[status] || 0) + 1;
+      });
+      setTaskCounts(counts);
+    } catch (error) {
+      console.error("Error fetching task counts:", error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (open) {
+      refetch();
+      fetchTaskCounts();
+    }
+  }, [open, refetch, fetchTaskCounts]);
+
+  useEffect(() => {
+    setNames(Object.fromEntries(statuses.map((s) => [s.id, s.name])));
+    setColors(Object.fromEntries(statuses.map((s) => [s.id, s.color])));
+    setWipLimits(
+      Object.fromEntries(
+        statuses.map((s) => [s.id, { total: s.wip_limit?.toString() ?? "", perUser: s.wip_limit_per_user?.toString() ?? "" }])
+      )
+    );
+  }, [statuses]);
+
+  const runChange = async (change: () => Promise<{ error: PostgrestError | null }>, fallback: string) => {
+    setSaving(true);
+    try {
+      const { error } = await change();
+      if (error) throw error;
+      await Promise.all([refetch(), fetchTaskCounts()]);
+      onWorkflowChanged();
+      return true;
+    } catch (error) {
+      console.error("Error updating workflow:", error);
+      toast({
+        title: "Error",
+        description: describeError(error, fallback),
+        variant: "destructive",
+      });
+      // Put back the saved values for anything edited in place
+      refetch();
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddStatus = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    const position = statuses.length > 0 ? Math.max(...statuses.map((s) => s.position)) + 1 : 0;
+    const added = await runChange(
+      async () =>
+        await supabase
+          .from("project_statuses")
+          .insert({ project_id: projectId, name, color: newColor, position }),
+      "Failed to add status"
+    );
+    if (added) setNewName("");
+  };
+
+  const handleUpdateStatus = (
+    status: ProjectStatus,
+    changes: Partial<
+      Pick<
+        ProjectStatus,
+        | "name"
+        | "color"
+        | "is_done"
+        | "wip_limit"
+        | "wip_limit_per_user"
+        | "wip_hard_limit"
+        | "is_internal_review"
+        | "is_client_review"
+      >
+    >
+  ) =>
+    runChange(
+      async () => await supabase.from("project_statuses").update(changes).eq("id", status.id),
+      "Failed to update status"
+    );
+
+  const handleRename = (status: ProjectStatus) => {
+    const name = names[status.id]?.trim();
+    if (!name || name === status.name) {
+      setNames((prev) => ({ ...prev, [status.id]: status.name }));
+      return;
+    }
+    // Renaming cascades to the tasks in this status
+    handleUpdateStatus(status, { name });
+  };
+
+  // The colour picker reports every intermediate colour, so only save once it closes
+  const handleColorCommit = (status: ProjectStatus) => {
+    const color = colors[status.id];
+    if (color && color !== status.color) handleUpdateStatus(status, { color });
+  };
+
+  // Blank or zero clears the limit
+  const handleWipCommit = (status: ProjectStatus) => {
+    const parse = (value: string | undefined) => {
+      const limit = parseInt(value || "", 10);
+      return limit > 0 ? limit : null;
+    };
+    const wip_limit = parse(wipLimits[status.id]?.total);
+    const wip_limit_per_user = parse(wipLimits[status.id]?.perUser);
+
+    if (wip_limit !== status.wip_limit || wip_limit_per_user !== status.wip_limit_per_user) {
+      handleUpdateStatus(status, { wip_limit, wip_limit_per_user });
+    } else {
+      setWipLimits((prev) => ({
+        ...prev,
+        [status.id]: { total: wip_limit?.toString() ?? "", perUser: wip_limit_per_user?.toString() ?? "" },
+      }));
+    }
+  };
+
+  const setWipLimit = (statusId: string, field: "total" | "perUser", value: string) =>
+    setWipLimits((prev) => ({ ...prev, [statusId]: { ...prev[statusId], [field]: value } }));
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const reordered = [...statuses];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + direction, 0, moved);
+
+    runChange(async () => {
+      const results = await Promise.all(
+        reordered
+          .map((status, position) => ({ status, position }))
+          .filter(({ status, position }) => status.position !== position)
+          .map(({ status, position }) =>
+            supabase.from("project_statuses").update({ position }).eq("id", status.id)
+          )
+      );
+      return { error: results.find((r) => r.error)?.error ?? null };
+    }, "Failed to reorder statuses");
+  };
+
+  const handleDelete = (status: ProjectStatus) =>
+    runChange(
+      async () => await supabase.from("project_statuses").delete().eq("id", status.id),
+      "Failed to delete status"
+    );
+
+  const handleAddRule = async () => {
+    if (!ruleFrom || !ruleTo || ruleFrom === ruleTo) return;
+
+    const added = await runChange(
+      async () =>
+        await supabase.from("project_status_transitions").insert({
+          project_id: projectId,
+          from_status_id: ruleFrom,
+          to_status_id: ruleTo,
+          allowed_roles: ruleRoles,
+          requires_note: ruleRequiresNote,
+        }),
+      "Failed to add transition rule"
+    );
+    if (added) {
+      setRuleTo("");
+      setRuleRoles([]);
+      setRuleRequiresNote(false);
+    }
+  };
+
+  const handleDeleteRule = (rule: StatusTransition) =>
+    runChange(
+      async () => await supabase.from("project_status_transitions").delete().eq("id", rule.id),
+      "Failed to delete transition rule"
+    );
+
+  const toggleRuleRole = (role: StatusTransition["allowed_roles"][number], checked: boolean) =>
+    setRuleRoles((prev) => (checked ? [...prev, role] : prev.filter((r) => r !== role)));
+
+  const statusName = (statusId: string) => statuses.find((s) => s.id === statusId)?.name || "Unknown";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Workflow Settings</DialogTitle>
+          <DialogDescription>
+            Statuses appear as Kanban columns in this order. Tasks in a status marked as done are treated as completed, and tasks in a client review status wait for the client.
+            WIP limits flag columns with too many tasks; with a hard limit, moves past the limit are rejected.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Add Status Section */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">Add Status</h3>
+            <div className="flex gap-2">
+              <Input
+                type="color"
+                value={newColor}
+                onChange={(e) => setNewColor(e.target.value)}
+                className="w-12 p-1 shrink-0"
+                aria-label="Status colour"
+              />
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddStatus()}
+                placeholder="e.g. Copy Approved"
+                className="flex-1"
+              />
+              <Button onClick={handleAddStatus} disabled={!newName.trim() || saving}>
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {STATUS_COLOR_PRESETS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  className={`h-5 w-5 rounded-full border-2 ${newColor === color ? "border-foreground" : "border-transparent"}`}
+                  style={{ backgroundColor: color }}
+                  onClick={() => setNewColor(color)}
+                  aria-label={`Use colour ${color}`}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Current Statuses Section */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">Statuses ({statuses.length})</h3>
+            <div className="space-y-2">
+              {statuses.map((status, index) => {
+                const taskCount = taskCounts[status.name] || 0;
+                return (
+                  <div key={status.id} className="p-3 border rounded-lg space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Input
+                        type="color"
+                        value={colors[status.id] ?? status.color}
+                        onChange={(e) => setColors((prev) => ({ ...prev, [status.id]: e.target.value }))}
+                        onBlur={() => handleColorCommit(status)}
+                        className="w-10 h-9 p-1 shrink-0"
+                        disabled={saving}
+                        aria-label={`${status.name} colour`}
+                      />
+                      <Input
+                        value={names[status.id] ?? status.name}
+                        onChange={(e) => setNames((prev) => ({ ...prev, [status.id]: e.target.value }))}
+                        onBlur={() => handleRename(status)}
+                        onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                        className="flex-1 min-w-[140px] h-9"
+                        disabled={saving}
+                      />
+                      <span className="text-xs text-muted-foreground w-16 text-right">
+                        {taskCount} {taskCount === 1 ? "task" : "tasks"}
+                      </span>
+                      <div className="flex items-center gap-1.5">
+                        <Checkbox
+                          id={`done-${status.id}`}
+                          checked={status.is_done}
+                          onCheckedChange={(checked) => handleUpdateStatus(status, { is_done: checked === true })}
+                          disabled={saving}
+                        />
+                        <Label htmlFor={`done-${status.id}`} className="text-xs font-normal">
+                          Done
+                        </Label>
+                      </div>
+                      <div className="flex">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleMove(index, -1)}
+                          disabled={saving || index === 0}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleMove(index, 1)}
+                          disabled={saving || index === statuses.length - 1}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => handleDelete(status)}
+                          disabled={saving || taskCount > 0 || statuses.length === 1}
+                          title={taskCount > 0 ? "Move this status' tasks elsewhere before deleting it" : undefined}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3 text-xs">
+                      <div className="flex items-center gap-1.5">
+                        <Label htmlFor={`wip-${status.id}`} className="text-xs font-normal">
+                          WIP limit
+                        </Label>
+                        <Input
+                          id={`wip-${status.id}`}
+                          type="number"
+                          min={1}
+                          value={wipLimits[status.id]?.total ?? ""}
+                          onChange={(e) => setWipLimit(status.id, "total", e.target.value)}
+                          onBlur={() => handleWipCommit(status)}
+                          placeholder="None"
+                          className="w-20 h-8"
+                          disabled={saving}
+                        />
+                      </div>
+                      <div className="flex items-center gap-1.5">
+                        <Label htmlFor={`wip-user-${status.id}`} className="text-xs font-normal">
+                          Per person
+                        </Label>
+                        <Input
+                          id={`wip-user-${status.id}`}
+                          type="number"
+                          min={1}
+                          value={wipLimits[status.id]?.perUser ?? ""}
+                          onChange={(e) => setWipLimit(status.id, "perUser", e.target.value)}
+                          onBlur={() => handleWipCommit(status)}
+                          placeholder="None"
+                          className="w-20 h-8"
+                          disabled={saving}
+                        />
+                      </div>
+                      <div className="flex items-center gap-1.5">
+                        <Checkbox
+                          id={`wip-hard-${status.id}`}
+                          checked={status.wip_hard_limit}
+                          onCheckedChange={(checked) => handleUpdateStatus(status, { wip_hard_limit: checked === true })}
+                          disabled={saving || (status.wip_limit === null && status.wip_limit_per_user === null)}
+                        />
+                        <Label htmlFor={`wip-hard-${status.id}`} className="text-xs font-normal">
+                          Block moves over the limit
+                        </Label>
+                      </div>
+                      <div className="flex items-center gap-1.5">
+                        <Checkbox
+                          id={`review-${status.id}`}
+                          checked={status.is_internal_review}
+                          onCheckedChange={(checked) => handleUpdateStatus(status, { is_internal_review: checked === true })}
+                          disabled={saving}
+                        />
+                        <Label htmlFor={`review-${status.id}`} className="text-xs font-normal">
+                          Internal review
+                        </Label>
+                      </div>
+                      <div className="flex items-center gap-1.5">
+                        <Checkbox
+                          id={`client-review-${status.id}`}
+                          checked={status.is_client_review}
+                          onCheckedChange={(checked) => handleUpdateStatus(status, { is_client_review: checked === true })}
+                          disabled={saving}
+                        />
+                        <Label htmlFor={`client-review-${status.id}`} className="text-xs font-normal">
+                          Client review
+                        </Label>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Transition Rules Section */}
+          <div className="space-y-3">
+            <div>
+              <h3 className="text-sm font-medium">Transition Rules ({transitions.length})</h3>
+              <p className="text-xs text-muted-foreground">
+                Without rules, tasks can move between any statuses. Once a rule exists, only the listed moves are allowed.
+              </p>
+            </div>
+
+            <div className="space-y-3 p-3 border rounded-lg">
+              <div className="flex items-center gap-2">
+                <Select value={ruleFrom} onValueChange={setRuleFrom}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="From status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statuses.map((status) => (
+                      <SelectItem key={status.id} value={status.id}>
+                        {status.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ArrowRight className="h-4 w-4 text-muted-foreground shrink-0" />
+                <Select value={ruleTo} onValueChange={setRuleTo}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="To status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statuses
+                      .filter((status) => status.id !== ruleFrom)
+                      .map((status) => (
+                        <SelectItem key={status.id} value={status.id}>
+                          {status.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                <span className="text-xs text-muted-foreground">Allowed roles (none = anyone):</span>
+                {USER_ROLES.map((role) => (
+                  <div key={role} className="flex items-center gap-1.5">
+                    <Checkbox
+                      id={`rule-role-${role}`}
+                      checked={ruleRoles.includes(role)}
+                      onCheckedChange={(checked) => toggleRuleRole(role, checked === true)}
+                    />
+                    <Label htmlFor={`rule-role-${role}`} className="text-xs font-normal capitalize">
+                      {role}
+                    </Label>
+                  </div>
+                ))}
+                <div className="flex items-center gap-1.5">
+                  <Checkbox
+                    id="rule-requires-note"
+                    checked={ruleRequiresNote}
+                    onCheckedChange={(checked) => setRuleRequiresNote(checked === true)}
+                  />
+                  <Label htmlFor="rule-requires-note" className="text-xs font-normal">
+                    Require a note
+                  </Label>
+                </div>
+                <Button
+                  size="sm"
+                  className="ml-auto"
+                  onClick={handleAddRule}
+                  disabled={!ruleFrom || !ruleTo || ruleFrom === ruleTo || saving}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Rule
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {transitions.map((rule) => (
+                <div key={rule.id} className="flex flex-wrap items-center gap-2 px-3 py-2 border rounded-lg text-sm">
+                  <span className="font-medium">{statusName(rule.from_status_id)}</span>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  <span className="font-medium">{statusName(rule.to_status_id)}</span>
+                  <div className="flex flex-wrap gap-1 ml-2">
+                    {rule.allowed_roles.length === 0 ? (
+                      <Badge variant="outline" className="text-xs">Anyone</Badge>
+                    ) : (
+                      rule.allowed_roles.map((role) => (
+                        <Badge key={role} variant="secondary" className="text-xs capitalize">
+                          {role}
+                        </Badge>
+                      ))
+                    )}
+                    {rule.requires_note && (
+                      <Badge variant="outline" className="text-xs">Note required</Badge>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 ml-auto text-destructive hover:text-destructive"
+                    onClick={() => handleDeleteRule(rule)}
+                    disabled={saving}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,9 +2,13 @@ export const APP_NAME = "AgencyFlow";
 export const DEFAULT_BRAND_COLOR = "#0f172a";
 export const DATE_FORMAT = "MMM dd, yyyy";
 
-export const TASK_STATUSES = ["Todo", "In Progress", "Internal Review", "Pending Client Review", "Done"] as const;
 export const TASK_PRIORITIES = ["P1-High", "P2-Medium", "P3-Low"] as const;
 export const USER_ROLES = ["admin", "manager", "staff"] as const;
+// External client reviewers; they only see the client portal
+export const CLIENT_ROLE = "client";
+
+// Offered for project billing; invoices keep the currency they were drafted in
+export const CURRENCIES = ["USD", "EUR", "GBP", "CAD", "AUD"] as const;
 
 export const PRIORITY_COLORS = {
   "P1-High": "destructive",
@@ -12,10 +16,19 @@ export const PRIORITY_COLORS = {
   "P3-Low": "muted",
 } as const;
 
-export const STATUS_COLORS = {
-  "Todo": "muted",
-  "In Progress": "warning",
-  "Internal Review": "accent",
-  "Pending Client Review": "secondary",
-  "Done": "success",
-} as const;
+// Task statuses are configured per project (project_statuses table).
+// These are the colours offered when adding or editing a status.
+export const DEFAULT_STATUS_COLOR = "#64748b";
+export const STATUS_COLOR_PRESETS = [
+  "#94a3b8",
+  "#64748b",
+  "#f59e0b",
+  "#f97316",
+  "#ef4444",
+  "#ec4899",
+  "#8b5cf6",
+  "#6366f1",
+  "#0ea5e9",
+  "#14b8a6",
+  "#22c55e",
+] as const;
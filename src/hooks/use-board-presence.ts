@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from "react";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface BoardViewer {
+  user_id: string;
+  full_name: string;
+  avatar_url: string | null;
+  task_id: string | null;
+}
+
+// Tracks who else has the project board open and which card they are looking at
+export function useBoardPresence(projectId: string, openTaskId: string | null) {
+  const [viewers, setViewers] = useState<BoardViewer[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const selfRef = useRef<Omit<BoardViewer, "task_id"> | null>(null);
+  const openTaskIdRef = useRef(openTaskId);
+  openTaskIdRef.current = openTaskId;
+
+  useEffect(() => {
+    let cancelled = false;
+    let channel: RealtimeChannel | null = null;
+
+    const join = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || cancelled) return;
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("full_name, avatar_url")
+        .eq("id", user.id)
+        .single();
+      if (cancelled) return;
+
+      selfRef.current = {
+        user_id: user.id,
+        full_name: profile?.full_name || "Unknown",
+        avatar_url: profile?.avatar_url ?? null,
+      };
+
+      channel = supabase.channel(`board-presence-${projectId}`, {
+        config: { presence: { key: user.id } },
+      });
+
+      channel
+        .on("presence", { event: "sync" }, () => {
+          const state = channel!.presenceState<BoardViewer>();
+          const others: BoardViewer[] = [];
+
+          Object.entries(state).forEach(([userId, presences]) => {
+            if (userId === user.id || presences.length === 0) return;
+            // A user with several tabs open is shown once, preferring the tab with an open card
+            const presence = presences.find((p) => p.task_id) || presences[0];
+            others.push({
+              user_id: presence.user_id,
+              full_name: presence.full_name,
+              avatar_url: presence.avatar_url,
+              task_id: presence.task_id,
+            });
+          });
+
+          setViewers(others);
+        })
+        .subscribe((status) => {
+          if (status === "SUBSCRIBED") {
+            channelRef.current = channel;
+            channel!.track({ ...selfRef.current, task_id: openTaskIdRef.current });
+          }
+        });
+    };
+
+    join();
+
+    return () => {
+      cancelled = true;
+      channelRef.current = null;
+      setViewers([]);
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [projectId]);
+
+  useEffect(() => {
+    if (channelRef.current && selfRef.current) {
+      channelRef.current.track({ ...selfRef.current, task_id: openTaskId });
+    }
+  }, [openTaskId]);
+
+  return viewers;
+}
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { ProjectStatus, StatusTransition } from "@/lib/workflow";
+
+// Loads a project's workflow: statuses in board order and the transition rules between them
+export function useProjectStatuses(projectId: string | undefined, refreshKey?: number) {
+  const [statuses, setStatuses] = useState<ProjectStatus[]>([]);
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchStatuses = useCallback(async () => {
+    if (!projectId) return;
+
+    try {
+      const [statusesResult, transitionsResult] = await Promise.all([
+        supabase
+          .from("project_statuses")
+          .select("id, project_id, name, color, position, is_done, wip_limit, wip_limit_per_user, wip_hard_limit, is_internal_review, is_client_review")
+          .eq("project_id", projectId)
+          .order("position", { ascending: true })
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("project_status_transitions")
+          .select("id, project_id, from_status_id, to_status_id, allowed_roles, requires_note")
+          .eq("project_id", projectId)
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (statusesResult.error) throw statusesResult.error;
+      if (transitionsResult.error) throw transitionsResult.error;
+      setStatuses(statusesResult.data || []);
+      setTransitions(transitionsResult.data || []);
+    } catch (error) {
+      console.error("Error fetching project workflow:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchStatuses();
+  }, [fetchStatuses, refreshKey]);
+
+  return { statuses, transitions, loading, refetch: fetchStatuses };
+}
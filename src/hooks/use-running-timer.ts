@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from "react";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface RunningTimer {
+  id: string;
+  task_id: string;
+  started_at: string;
+  tasks: { title: string; project_id: string } | null;
+}
+
+// Each instance needs its own channel; the header and an open task both use this hook
+let channelCount = 0;
+
+// The current user's running timer, kept in sync across components and tabs.
+// start() stops any timer already running, since a user can only run one.
+export function useRunningTimer() {
+  const [running, setRunning] = useState<RunningTimer | null>(null);
+
+  const fetchRunning = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("time_entries")
+      .select("id, task_id, started_at, tasks(title, project_id)")
+      .eq("user_id", user.id)
+      .is("ended_at", null)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching running timer:", error);
+      return;
+    }
+    setRunning(data);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    let channel: RealtimeChannel | null = null;
+
+    const subscribe = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || cancelled) return;
+
+      channel = supabase
+        .channel(`running-timer-${user.id}-${++channelCount}`)
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "time_entries", filter: `user_id=eq.${user.id}` },
+          () => fetchRunning()
+        )
+        .subscribe();
+    };
+
+    fetchRunning();
+    subscribe();
+
+    return () => {
+      cancelled = true;
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [fetchRunning]);
+
+  const start = useCallback(
+    async (taskId: string) => {
+      const { error } = await supabase.rpc("start_timer", { _task_id: taskId });
+      if (error) throw error;
+      await fetchRunning();
+    },
+    [fetchRunning]
+  );
+
+  // Resolves to false when the timer ran for under a minute and was discarded
+  const stop = useCallback(async () => {
+    const { data, error } = await supabase.rpc("stop_timer");
+    if (error) throw error;
+    setRunning(null);
+    return !!data;
+  }, []);
+
+  return { running, start, stop, refetch: fetchRunning };
+}
@@ -14,6 +14,111 @@ export type Database = {
   }
   public: {
     Tables: {
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          id: string
+          last_accessed_at: string | null
+          project_id: string | null
+          time_zone: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          project_id?: string | null
+          time_zone?: string
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          project_id?: string | null
+          time_zone?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_feed_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deliverable_versions: {
+        Row: {
+          created_at: string
+          deliverable_id: string
+          file_name: string
+          id: string
+          is_current: boolean
+          mime_type: string | null
+          notes: string | null
+          review_round: number | null
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string | null
+          version_number: number
+        }
+        Insert: {
+          created_at?: string
+          deliverable_id: string
+          file_name: string
+          id?: string
+          is_current?: boolean
+          mime_type?: string | null
+          notes?: string | null
+          review_round?: number | null
+          size_bytes: number
+          storage_path: string
+          uploaded_by?: string | null
+          version_number?: number
+        }
+        Update: {
+          created_at?: string
+          deliverable_id?: string
+          file_name?: string
+          id?: string
+          is_current?: boolean
+          mime_type?: string | null
+          notes?: string | null
+          review_round?: number | null
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deliverable_versions_deliverable_id_fkey"
+            columns: ["deliverable_id"]
+            isOneToOne: false
+            referencedRelation: "task_deliverables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliverable_versions_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       dummy_cron: {
         Row: {
           created_at: string
@@ -29,6 +134,120 @@ export type Database = {
         }
         Relationships: []
       }
+      invoice_lines: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          invoice_id: string
+          kind: string
+          position: number
+          quantity: number
+          task_id: string | null
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          invoice_id: string
+          kind: string
+          position?: number
+          quantity?: number
+          task_id?: string | null
+          unit_price: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          invoice_id?: string
+          kind?: string
+          position?: number
+          quantity?: number
+          task_id?: string | null
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_lines_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          currency: string
+          due_on: string | null
+          id: string
+          issued_on: string | null
+          notes: string | null
+          number: string
+          period_end: string
+          period_start: string
+          project_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          due_on?: string | null
+          id?: string
+          issued_on?: string | null
+          notes?: string | null
+          number?: string
+          period_end: string
+          period_start: string
+          project_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          due_on?: string | null
+          id?: string
+          issued_on?: string | null
+          notes?: string | null
+          number?: string
+          period_end?: string
+          period_start?: string
+          project_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           created_at: string
@@ -116,25 +335,545 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
-          project_id: string
+          project_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          project_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_members_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_rates: {
+        Row: {
+          created_at: string
+          hourly_rate: number
+          id: string
+          project_id: string
+          role: Database["public"]["Enums"]["app_role"] | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          hourly_rate: number
+          id?: string
+          project_id: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          hourly_rate?: number
+          id?: string
+          project_id?: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_rates_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_rates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_status_transitions: {
+        Row: {
+          allowed_roles: Database["public"]["Enums"]["app_role"][]
+          created_at: string
+          from_status_id: string
+          id: string
+          project_id: string
+          requires_note: boolean
+          to_status_id: string
+        }
+        Insert: {
+          allowed_roles?: Database["public"]["Enums"]["app_role"][]
+          created_at?: string
+          from_status_id: string
+          id?: string
+          project_id: string
+          requires_note?: boolean
+          to_status_id: string
+        }
+        Update: {
+          allowed_roles?: Database["public"]["Enums"]["app_role"][]
+          created_at?: string
+          from_status_id?: string
+          id?: string
+          project_id?: string
+          requires_note?: boolean
+          to_status_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_status_transitions_from_status_id_fkey"
+            columns: ["from_status_id"]
+            isOneToOne: false
+            referencedRelation: "project_statuses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_status_transitions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_status_transitions_to_status_id_fkey"
+            columns: ["to_status_id"]
+            isOneToOne: false
+            referencedRelation: "project_statuses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_statuses: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          is_client_review: boolean
+          is_done: boolean
+          is_internal_review: boolean
+          name: string
+          position: number
+          project_id: string
+          updated_at: string
+          wip_hard_limit: boolean
+          wip_limit: number | null
+          wip_limit_per_user: number | null
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          is_client_review?: boolean
+          is_done?: boolean
+          is_internal_review?: boolean
+          name: string
+          position?: number
+          project_id: string
+          updated_at?: string
+          wip_hard_limit?: boolean
+          wip_limit?: number | null
+          wip_limit_per_user?: number | null
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          is_client_review?: boolean
+          is_done?: boolean
+          is_internal_review?: boolean
+          name?: string
+          position?: number
+          project_id?: string
+          updated_at?: string
+          wip_hard_limit?: boolean
+          wip_limit?: number | null
+          wip_limit_per_user?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_statuses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_templates: {
+        Row: {
+          brand_color: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          statuses: Json
+          tasks: Json
+          updated_at: string
+        }
+        Insert: {
+          brand_color?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          statuses?: Json
+          tasks?: Json
+          updated_at?: string
+        }
+        Update: {
+          brand_color?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          statuses?: Json
+          tasks?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          billing_contact_email: string | null
+          billing_contact_name: string | null
+          brand_color: string
+          client_name: string | null
+          created_at: string
+          currency: string
+          description: string | null
+          id: string
+          included_review_rounds: number
+          name: string
+          status: Database["public"]["Enums"]["project_status"]
+          updated_at: string
+        }
+        Insert: {
+          billing_contact_email?: string | null
+          billing_contact_name?: string | null
+          brand_color?: string
+          client_name?: string | null
+          created_at?: string
+          currency?: string
+          description?: string | null
+          id?: string
+          included_review_rounds?: number
+          name: string
+          status?: Database["public"]["Enums"]["project_status"]
+          updated_at?: string
+        }
+        Update: {
+          billing_contact_email?: string | null
+          billing_contact_name?: string | null
+          brand_color?: string
+          client_name?: string | null
+          created_at?: string
+          currency?: string
+          description?: string | null
+          id?: string
+          included_review_rounds?: number
+          name?: string
+          status?: Database["public"]["Enums"]["project_status"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      review_link_tasks: {
+        Row: {
+          decision: string | null
+          review_link_id: string
+          reviewed_at: string | null
+          task_id: string
+        }
+        Insert: {
+          decision?: string | null
+          review_link_id: string
+          reviewed_at?: string | null
+          task_id: string
+        }
+        Update: {
+          decision?: string | null
+          review_link_id?: string
+          reviewed_at?: string | null
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_link_tasks_review_link_id_fkey"
+            columns: ["review_link_id"]
+            isOneToOne: false
+            referencedRelation: "review_links"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_link_tasks_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_links: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          last_opened_at: string | null
+          project_id: string
+          recipient_name: string | null
+          revoked_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at: string
+          id?: string
+          last_opened_at?: string | null
+          project_id: string
+          recipient_name?: string | null
+          revoked_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          last_opened_at?: string | null
+          project_id?: string
+          recipient_name?: string | null
+          revoked_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_links_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_links_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_assignees: {
+        Row: {
+          created_at: string
+          id: string
+          task_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          task_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_assignees_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_assignees_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_attachments: {
+        Row: {
+          created_at: string
+          file_name: string
+          id: string
+          mime_type: string | null
+          size_bytes: number
+          storage_path: string
+          task_id: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          id?: string
+          mime_type?: string | null
+          size_bytes: number
+          storage_path: string
+          task_id: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          id?: string
+          mime_type?: string | null
+          size_bytes?: number
+          storage_path?: string
+          task_id?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_attachments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_attachments_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_checklist_items: {
+        Row: {
+          content: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_done: boolean
+          position: number
+          task_id: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_done?: boolean
+          position?: number
+          task_id: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_done?: boolean
+          position?: number
+          task_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_checklist_items_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_checklist_items_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_comments: {
+        Row: {
+          content: string
+          created_at: string
+          deliverable_version_id: string | null
+          id: string
+          parent_id: string | null
+          task_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          deliverable_version_id?: string | null
+          id?: string
+          parent_id?: string | null
+          task_id: string
+          updated_at?: string
           user_id: string
         }
         Update: {
+          content?: string
           created_at?: string
+          deliverable_version_id?: string | null
           id?: string
-          project_id?: string
+          parent_id?: string | null
+          task_id?: string
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "project_members_project_id_fkey"
-            columns: ["project_id"]
+            foreignKeyName: "task_comments_deliverable_version_id_fkey"
+            columns: ["deliverable_version_id"]
             isOneToOne: false
-            referencedRelation: "projects"
+            referencedRelation: "deliverable_versions"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "project_members_user_id_fkey"
+            foreignKeyName: "task_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "task_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -142,107 +881,87 @@ export type Database = {
           },
         ]
       }
-      projects: {
+      task_deliverables: {
         Row: {
-          brand_color: string
           created_at: string
-          description: string | null
+          created_by: string | null
           id: string
           name: string
-          status: Database["public"]["Enums"]["project_status"]
-          updated_at: string
-        }
-        Insert: {
-          brand_color?: string
-          created_at?: string
-          description?: string | null
-          id?: string
-          name: string
-          status?: Database["public"]["Enums"]["project_status"]
-          updated_at?: string
-        }
-        Update: {
-          brand_color?: string
-          created_at?: string
-          description?: string | null
-          id?: string
-          name?: string
-          status?: Database["public"]["Enums"]["project_status"]
-          updated_at?: string
-        }
-        Relationships: []
-      }
-      task_assignees: {
-        Row: {
-          created_at: string
-          id: string
           task_id: string
-          user_id: string
         }
         Insert: {
           created_at?: string
+          created_by?: string | null
           id?: string
+          name: string
           task_id: string
-          user_id: string
         }
         Update: {
           created_at?: string
+          created_by?: string | null
           id?: string
+          name?: string
           task_id?: string
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "task_assignees_task_id_fkey"
-            columns: ["task_id"]
+            foreignKeyName: "task_deliverables_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "tasks"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "task_assignees_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "task_deliverables_task_id_fkey"
+            columns: ["task_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "tasks"
             referencedColumns: ["id"]
           },
         ]
       }
-      task_comments: {
+      task_dependencies: {
         Row: {
-          content: string
           created_at: string
+          created_by: string | null
+          depends_on_task_id: string
           id: string
           task_id: string
-          user_id: string
         }
         Insert: {
-          content: string
           created_at?: string
+          created_by?: string | null
+          depends_on_task_id: string
           id?: string
           task_id: string
-          user_id: string
         }
         Update: {
-          content?: string
           created_at?: string
+          created_by?: string | null
+          depends_on_task_id?: string
           id?: string
           task_id?: string
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "task_comments_task_id_fkey"
-            columns: ["task_id"]
+            foreignKeyName: "task_dependencies_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_depends_on_task_id_fkey"
+            columns: ["depends_on_task_id"]
             isOneToOne: false
             referencedRelation: "tasks"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "task_comments_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "task_dependencies_task_id_fkey"
+            columns: ["task_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "tasks"
             referencedColumns: ["id"]
           },
         ]
@@ -256,7 +975,7 @@ export type Database = {
           new_value: string | null
           old_value: string | null
           task_id: string
-          user_id: string
+          user_id: string | null
         }
         Insert: {
           action_type: string
@@ -266,7 +985,7 @@ export type Database = {
           new_value?: string | null
           old_value?: string | null
           task_id: string
-          user_id: string
+          user_id?: string | null
         }
         Update: {
           action_type?: string
@@ -276,7 +995,7 @@ export type Database = {
           new_value?: string | null
           old_value?: string | null
           task_id?: string
-          user_id?: string
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -295,6 +1014,53 @@ export type Database = {
           },
         ]
       }
+      task_templates: {
+        Row: {
+          checklist: string[]
+          created_at: string
+          created_by: string | null
+          description: string | null
+          due_offset_days: number | null
+          id: string
+          name: string
+          priority: Database["public"]["Enums"]["task_priority"]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          checklist?: string[]
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_offset_days?: number | null
+          id?: string
+          name: string
+          priority?: Database["public"]["Enums"]["task_priority"]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          checklist?: string[]
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_offset_days?: number | null
+          id?: string
+          name?: string
+          priority?: Database["public"]["Enums"]["task_priority"]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           assignee_id: string | null
@@ -303,11 +1069,20 @@ export type Database = {
           created_by: string | null
           description: string | null
           due_date: string | null
+          estimate_minutes: number | null
           id: string
           is_blocked: boolean
+          is_milestone: boolean
+          parent_task_id: string | null
+          position: number | null
           priority: Database["public"]["Enums"]["task_priority"]
           project_id: string
-          status: Database["public"]["Enums"]["task_status"]
+          recurrence_rule: string | null
+          recurrence_time_zone: string
+          recurrence_trigger: string
+          start_date: string | null
+          status: string
+          status_note: string | null
           title: string
           updated_at: string
         }
@@ -318,11 +1093,20 @@ export type Database = {
           created_by?: string | null
           description?: string | null
           due_date?: string | null
+          estimate_minutes?: number | null
           id?: string
           is_blocked?: boolean
+          is_milestone?: boolean
+          parent_task_id?: string | null
+          position?: number | null
           priority?: Database["public"]["Enums"]["task_priority"]
           project_id: string
-          status?: Database["public"]["Enums"]["task_status"]
+          recurrence_rule?: string | null
+          recurrence_time_zone?: string
+          recurrence_trigger?: string
+          start_date?: string | null
+          status?: string
+          status_note?: string | null
           title: string
           updated_at?: string
         }
@@ -333,11 +1117,20 @@ export type Database = {
           created_by?: string | null
           description?: string | null
           due_date?: string | null
+          estimate_minutes?: number | null
           id?: string
           is_blocked?: boolean
+          is_milestone?: boolean
+          parent_task_id?: string | null
+          position?: number | null
           priority?: Database["public"]["Enums"]["task_priority"]
           project_id?: string
-          status?: Database["public"]["Enums"]["task_status"]
+          recurrence_rule?: string | null
+          recurrence_time_zone?: string
+          recurrence_trigger?: string
+          start_date?: string | null
+          status?: string
+          status_note?: string | null
           title?: string
           updated_at?: string
         }
@@ -356,6 +1149,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_parent_task_id_fkey"
+            columns: ["parent_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_project_id_fkey"
             columns: ["project_id"]
@@ -363,6 +1163,140 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_project_status_fkey"
+            columns: ["project_id", "status"]
+            isOneToOne: false
+            referencedRelation: "project_statuses"
+            referencedColumns: ["project_id", "name"]
+          },
+        ]
+      }
+      time_entries: {
+        Row: {
+          created_at: string
+          ended_at: string | null
+          id: string
+          invoice_line_id: string | null
+          is_billable: boolean
+          minutes: number | null
+          note: string | null
+          started_at: string
+          task_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          invoice_line_id?: string | null
+          is_billable?: boolean
+          minutes?: number | null
+          note?: string | null
+          started_at?: string
+          task_id: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          invoice_line_id?: string | null
+          is_billable?: boolean
+          minutes?: number | null
+          note?: string | null
+          started_at?: string
+          task_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_invoice_line_id_fkey"
+            columns: ["invoice_line_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timesheets: {
+        Row: {
+          created_at: string
+          ends_at: string
+          id: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          starts_at: string
+          status: string
+          submitted_at: string
+          time_zone: string
+          updated_at: string
+          user_id: string
+          week_start: string
+        }
+        Insert: {
+          created_at?: string
+          ends_at: string
+          id?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          starts_at: string
+          status?: string
+          submitted_at?: string
+          time_zone?: string
+          updated_at?: string
+          user_id: string
+          week_start: string
+        }
+        Update: {
+          created_at?: string
+          ends_at?: string
+          id?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          starts_at?: string
+          status?: string
+          submitted_at?: string
+          time_zone?: string
+          updated_at?: string
+          user_id?: string
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheets_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timesheets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -391,6 +1325,54 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_bill_project: {
+        Args: {
+          _project_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      client_review_task: {
+        Args: {
+          _approve: boolean
+          _comment?: string
+          _task_id: string
+        }
+        Returns: string
+      }
+      create_calendar_feed: {
+        Args: {
+          _project_id?: string
+          _time_zone?: string
+        }
+        Returns: string
+      }
+      create_invoice_draft: {
+        Args: {
+          _from: string
+          _project_id: string
+          _to: string
+        }
+        Returns: string
+      }
+      create_project_from_template: {
+        Args: {
+          _description?: string
+          _name: string
+          _role_assignees?: Json
+          _start_date?: string
+          _template_id: string
+        }
+        Returns: string
+      }
+      create_review_link: {
+        Args: {
+          _expires_at: string
+          _recipient_name?: string
+          _task_ids: string[]
+        }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -403,17 +1385,61 @@ export type Database = {
         Args: { proj_id: string; user_id: string }
         Returns: boolean
       }
+      is_task_done: { Args: { _task_id: string }; Returns: boolean }
+      move_task: {
+        Args: {
+          _next_task_id?: string
+          _note?: string
+          _prev_task_id?: string
+          _status: string
+          _task_id: string
+        }
+        Returns: number
+      }
+      next_recurrence_date: {
+        Args: {
+          _after: string
+          _from: string
+          _rule: string
+          _time_zone?: string
+        }
+        Returns: string
+      }
+      rebalance_task_positions: {
+        Args: {
+          _project_id: string
+          _status: string
+        }
+        Returns: undefined
+      }
+      review_timesheet: {
+        Args: {
+          _approve: boolean
+          _comment?: string
+          _timesheet_id: string
+        }
+        Returns: undefined
+      }
+      set_current_deliverable_version: {
+        Args: {
+          _version_id: string
+        }
+        Returns: undefined
+      }
+      start_timer: { Args: { _task_id: string }; Returns: string }
+      stop_timer: { Args: never; Returns: string }
+      submit_timesheet: {
+        Args: {
+          _time_zone?: string
+          _week_start: string
+        }
+        Returns: string
+      }
     }
     Enums: {
-      app_role: "admin" | "manager" | "staff"
+      app_role: "admin" | "manager" | "staff" | "client"
       project_status: "active" | "archived" | "completed"
       task_priority: "P1-High" | "P2-Medium" | "P3-Low"
-      task_status:
-        | "Todo"
-        | "In Progress"
-        | "Internal Review"
-        | "Done"
-        | "Pending Client Review"
       user_role: "admin" | "manager" | "staff"
     }
     CompositeTypes: {
@@ -542,16 +1568,9 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "manager", "staff"],
+      app_role: ["admin", "manager", "staff", "client"],
       project_status: ["active", "archived", "completed"],
       task_priority: ["P1-High", "P2-Medium", "P3-Low"],
-      task_status: [
-        "Todo",
-        "In Progress",
-        "Internal Review",
-        "Done",
-        "Pending Client Review",
-      ],
       user_role: ["admin", "manager", "staff"],
     },
   },
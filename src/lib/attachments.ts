@@ -0,0 +1,32 @@
+export const ATTACHMENTS_BUCKET = "task-attachments";
+// Matches the bucket's file_size_limit
+export const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+// How long signed download and preview URLs stay valid
+export const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+export interface TaskAttachment {
+  id: string;
+  task_id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string | null;
+  size_bytes: number;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+export const isImage = (mimeType: string | null) => !!mimeType?.startsWith("image/");
+
+// Images and PDFs open in the browser; anything else is only downloaded
+export const canPreview = (mimeType: string | null) => isImage(mimeType) || mimeType === "application/pdf";
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Files go under their task, which the storage policies rely on. The random
+// prefix lets a task hold several files with the same name.
+export const getAttachmentPath = (taskId: string, fileName: string) =>
+  `${taskId}/${crypto.randomUUID()}-${fileName.replace(/[^\w.-]+/g, "_")}`;
@@ -0,0 +1,115 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const AVATARS_BUCKET = "avatars";
+// Avatars are stored as square JPEGs of this many pixels
+export const AVATAR_SIZE = 256;
+
+// The square to cut out of the original image, in its pixels
+export interface AvatarCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+// First and last initial, e.g. "Mary Ann Smith" -> "MS"
+export const getInitials = (name: string | null | undefined) => {
+  const words = (name || "").trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "?";
+  const first = words[0][0];
+  const last = words.length > 1 ? words[words.length - 1][0] : "";
+  return `${first}${last}`.toUpperCase();
+};
+
+// A stable background colour per name, so initials are easy to tell apart
+export const getAvatarColor = (name: string | null | undefined) => {
+  let hash = 0;
+  for (const char of name || "") {
+    hash = (hash * 31 + char.charCodeAt(0)) % 360;
+  }
+  return `hsl(${hash} 45% 45%)`;
+};
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("This file can't be read as an image"));
+    image.src = src;
+  });
+
+// Cuts the crop out of the image and scales it to AVATAR_SIZE
+export const cropAvatar = (image: HTMLImageElement, crop: AvatarCrop) =>
+  new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = AVATAR_SIZE;
+    canvas.height = AVATAR_SIZE;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      reject(new Error("Your browser can't resize images"));
+      return;
+    }
+
+    // JPEG has no transparency, so transparent PNGs get a white background
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, AVATAR_SIZE, AVATAR_SIZE);
+    context.imageSmoothingQuality = "high";
+    context.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, AVATAR_SIZE, AVATAR_SIZE);
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to resize the image"))),
+      "image/jpeg",
+      0.9
+    );
+  });
+
+// Removes every avatar file of the user except the one in use
+const removeOldAvatars = async (userId: string, keepPath?: string) => {
+  const { data: files, error } = await supabase.storage.from(AVATARS_BUCKET).list(userId);
+  if (error) throw error;
+
+  const paths = (files || []).map((file) => `${userId}/${file.name}`).filter((path) => path !== keepPath);
+  if (paths.length === 0) return;
+
+  const { error: removeError } = await supabase.storage.from(AVATARS_BUCKET).remove(paths);
+  if (removeError) throw removeError;
+};
+
+const setProfileAvatar = async (userId: string, avatarUrl: string | null) => {
+  const { data, error } = await supabase.from("profiles").update({ avatar_url: avatarUrl }).eq("id", userId).select("id");
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error("Failed to update your profile");
+};
+
+// Uploads a cropped avatar, points the profile at it and returns its URL.
+// Older avatars are removed once the profile uses the new one.
+export async function uploadAvatar(userId: string, blob: Blob) {
+  const path = `${userId}/${crypto.randomUUID()}.jpg`;
+  const { error: uploadError } = await supabase.storage
+    .from(AVATARS_BUCKET)
+    .upload(path, blob, { contentType: "image/jpeg" });
+
+  if (uploadError) throw uploadError;
+
+  const { data: { publicUrl } } = supabase.storage.from(AVATARS_BUCKET).getPublicUrl(path);
+
+  try {
+    await setProfileAvatar(userId, publicUrl);
+  } catch (error) {
+    // Don't leave an orphaned file behind
+    await supabase.storage.from(AVATARS_BUCKET).remove([path]);
+    throw error;
+  }
+
+  try {
+    await removeOldAvatars(userId, path);
+  } catch (error) {
+    // The new avatar is already in use; leftovers go with the next upload
+    console.error("Error removing old avatars:", error);
+  }
+
+  return publicUrl;
+}
+
+export async function removeAvatar(userId: string) {
+  await setProfileAvatar(userId, null);
+  await removeOldAvatars(userId);
+}
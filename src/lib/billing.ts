@@ -0,0 +1,168 @@
+import { APP_NAME } from "@/config/appConfig";
+import { format, parseISO } from "date-fns";
+
+export type InvoiceStatus = "draft" | "issued";
+export type InvoiceLineKind = "time" | "fixed" | "adjustment";
+
+export const INVOICE_LINE_KINDS: Record<InvoiceLineKind, string> = {
+  time: "Time",
+  fixed: "Fixed fee",
+  adjustment: "Adjustment",
+};
+
+export interface Invoice {
+  id: string;
+  project_id: string;
+  number: string;
+  status: InvoiceStatus;
+  currency: string;
+  period_start: string;
+  period_end: string;
+  issued_on: string | null;
+  due_on: string | null;
+  notes: string | null;
+}
+
+export interface InvoiceLine {
+  id: string;
+  kind: InvoiceLineKind;
+  task_id: string | null;
+  description: string;
+  // Hours for time lines
+  quantity: number;
+  unit_price: number;
+  position: number;
+}
+
+// A project's client details; invoices are addressed to its client
+export interface BillingProject {
+  id: string;
+  name: string;
+  client_name: string | null;
+  billing_contact_name: string | null;
+  billing_contact_email: string | null;
+  currency: string;
+}
+
+export const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+
+// Amounts are rounded to cents per line, the way they are printed
+export const getLineAmount = (line: Pick<InvoiceLine, "quantity" | "unit_price">) =>
+  Math.round(line.quantity * line.unit_price * 100) / 100;
+
+export const getInvoiceTotal = (lines: Pick<InvoiceLine, "quantity" | "unit_price">[]) =>
+  Math.round(lines.reduce((total, line) => total + getLineAmount(line), 0) * 100) / 100;
+
+const formatDay = (day: string) => format(parseISO(day), "MMM d, yyyy");
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function getInvoiceCsv(invoice: Invoice, lines: InvoiceLine[]): string {
+  const rows: (string | number)[][] = [
+    ["Invoice", "Type", "Description", "Quantity", "Unit price", "Amount", "Currency"],
+    ...lines.map((line) => [
+      invoice.number,
+      INVOICE_LINE_KINDS[line.kind],
+      line.description,
+      line.quantity,
+      line.unit_price.toFixed(2),
+      getLineAmount(line).toFixed(2),
+      invoice.currency,
+    ]),
+    [invoice.number, "", "Total", "", "", getInvoiceTotal(lines).toFixed(2), invoice.currency],
+  ];
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n");
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]);
+
+// Printable invoice page; the browser's print dialog saves it as a PDF
+export function getInvoiceHtml(invoice: Invoice, lines: InvoiceLine[], project: BillingProject): string {
+  const money = (amount: number) => escapeHtml(formatMoney(amount, invoice.currency));
+  const recipient = [project.client_name, project.billing_contact_name, project.billing_contact_email]
+    .filter(Boolean)
+    .map((line) => `<div>${escapeHtml(line)}</div>`)
+    .join("");
+
+  const rows = lines
+    .map(
+      (line) => `<tr>
+        <td>${escapeHtml(line.description)}</td>
+        <td class="num">${line.kind === "time" ? `${line.quantity} h` : line.quantity}</td>
+        <td class="num">${money(line.unit_price)}</td>
+        <td class="num">${money(getLineAmount(line))}</td>
+      </tr>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(invoice.number)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 40px; font-size: 14px; }
+  h1 { margin: 0 0 4px; font-size: 28px; }
+  .muted { color: #64748b; }
+  .header { display: flex; justify-content: space-between; margin-bottom: 32px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+  th, td { text-align: left; padding: 8px; border-bottom: 1px solid #e2e8f0; }
+  th { font-size: 12px; text-transform: uppercase; color: #64748b; }
+  .num { text-align: right; white-space: nowrap; }
+  tfoot td { font-weight: bold; border-bottom: none; }
+  .notes { margin-top: 32px; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>${invoice.status === "draft" ? "Draft Invoice" : "Invoice"}</h1>
+      <div class="muted">${escapeHtml(invoice.number)} · ${escapeHtml(APP_NAME)}</div>
+    </div>
+    <div class="num">
+      ${invoice.issued_on ? `<div>Issued ${formatDay(invoice.issued_on)}</div>` : ""}
+      ${invoice.due_on ? `<div>Due ${formatDay(invoice.due_on)}</div>` : ""}
+      <div class="muted">Period ${formatDay(invoice.period_start)} – ${formatDay(invoice.period_end)}</div>
+    </div>
+  </div>
+  <div class="muted">Bill to</div>
+  ${recipient || "<div>–</div>"}
+  <div class="muted" style="margin-top: 8px">Project: ${escapeHtml(project.name)}</div>
+  <table>
+    <thead>
+      <tr><th>Description</th><th class="num">Quantity</th><th class="num">Rate</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${rows}</tbody>
+    <tfoot>
+      <tr><td colspan="3">Total</td><td class="num">${money(getInvoiceTotal(lines))}</td></tr>
+    </tfoot>
+  </table>
+  ${invoice.notes ? `<div class="notes">${escapeHtml(invoice.notes)}</div>` : ""}
+</body>
+</html>`;
+}
+
+export function printInvoice(invoice: Invoice, lines: InvoiceLine[], project: BillingProject): boolean {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return false;
+
+  printWindow.document.write(getInvoiceHtml(invoice, lines, project));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
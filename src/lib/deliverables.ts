@@ -0,0 +1,62 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ATTACHMENTS_BUCKET, getAttachmentPath } from "@/lib/attachments";
+
+// One uploaded file of a deliverable (see the deliverable_versions table)
+export interface DeliverableVersion {
+  id: string;
+  deliverable_id: string;
+  version_number: number;
+  // Set once the version has been in review; null while it's still being worked on
+  review_round: number | null;
+  is_current: boolean;
+  storage_path: string;
+  file_name: string;
+  mime_type: string | null;
+  size_bytes: number;
+  notes: string | null;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+export interface Deliverable {
+  id: string;
+  task_id: string;
+  name: string;
+  created_at: string;
+  deliverable_versions: DeliverableVersion[];
+}
+
+export const getCurrentVersion = <T extends Pick<DeliverableVersion, "is_current">>(versions: T[]) =>
+  versions.find((v) => v.is_current) ?? null;
+
+// The rounds a deliverable took: the highest round any of its versions reached
+export const getReviewRounds = (versions: Pick<DeliverableVersion, "review_round">[]) =>
+  Math.max(0, ...versions.map((v) => v.review_round ?? 0));
+
+export const formatVersionLabel = (deliverableName: string, versionNumber: number) =>
+  `${deliverableName} v${versionNumber}`;
+
+// Uploads a file as the next version of a deliverable, which becomes current.
+// The database numbers the version and decides whether it starts a review round.
+export async function uploadDeliverableVersion(taskId: string, deliverableId: string, file: File) {
+  const path = getAttachmentPath(taskId, file.name);
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined });
+
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase.from("deliverable_versions").insert({
+    deliverable_id: deliverableId,
+    storage_path: path,
+    file_name: file.name,
+    mime_type: file.type || null,
+    size_bytes: file.size,
+  });
+
+  if (error) {
+    // Don't leave an orphaned file behind
+    await supabase.storage.from(ATTACHMENTS_BUCKET).remove([path]);
+    throw error;
+  }
+}
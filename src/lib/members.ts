@@ -0,0 +1,12 @@
+import { supabase } from "@/integrations/supabase/client";
+import { CLIENT_ROLE } from "@/config/appConfig";
+
+// Clients are project members so they can review its tasks, but they can't be
+// assigned or mentioned: people pickers only list the team
+export async function withoutClients<T extends { id: string }>(people: T[]) {
+  const { data, error } = await supabase.from("user_roles").select("user_id").eq("role", CLIENT_ROLE);
+  if (error) throw error;
+
+  const clientIds = new Set((data || []).map((r) => r.user_id));
+  return people.filter((person) => !clientIds.has(person.id));
+}
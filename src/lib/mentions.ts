@@ -0,0 +1,72 @@
+import { createNotificationForUser } from "@/lib/notifications";
+
+// Mentions are stored inline as @[Full Name](user-id): the text stays readable
+// in the database while keeping a structured reference to the mentioned user.
+// Edge functions share a copy in supabase/functions/_shared/mentions.ts.
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([0-9a-f-]{36})\)/g;
+
+export interface MentionMember {
+  id: string;
+  full_name: string;
+}
+
+export type MentionSegment =
+  | { type: "text"; value: string }
+  | { type: "mention"; name: string; userId: string };
+
+export function formatMention(member: MentionMember) {
+  return `@[${member.full_name.replace(/[[\]]/g, "")}](${member.id})`;
+}
+
+export function parseMentions(text: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: "text", value: text.slice(lastIndex, index) });
+    }
+    segments.push({ type: "mention", name: match[1], userId: match[2] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: "text", value: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+export function extractMentionIds(text: string | null | undefined) {
+  if (!text) return [];
+  const ids = Array.from(text.matchAll(MENTION_PATTERN), (match) => match[2]);
+  return Array.from(new Set(ids));
+}
+
+// Replaces mention tokens with plain "@Name" for places that only show text
+export function stripMentions(text: string) {
+  return text.replace(MENTION_PATTERN, "@$1");
+}
+
+interface NotifyMentionsParams {
+  userIds: string[];
+  authorName: string;
+  taskTitle: string;
+  context: "comment" | "description";
+  link: string;
+}
+
+export function notifyMentionedUsers({ userIds, authorName, taskTitle, context, link }: NotifyMentionsParams) {
+  const where = context === "comment" ? "a comment on" : "the description of";
+
+  userIds.forEach((userId) => {
+    createNotificationForUser(
+      userId,
+      "You were mentioned",
+      `${authorName} mentioned you in ${where} task "${taskTitle}"`,
+      "mention",
+      link
+    );
+  });
+}
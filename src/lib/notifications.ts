@@ -1,3 +1,4 @@
+import { generatePath } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 
 interface CreateNotificationParams {
@@ -59,3 +60,11 @@ export async function createNotificationForUser(
     console.error("Error creating notification:", error);
   }
 }
+
+// The route that opens a task on its project page; App.tsx serves it, so
+// links built here always resolve
+export const TASK_ROUTE = "/projects/:projectId/tasks/:taskId";
+
+export function getTaskLink(projectId: string, taskId: string) {
+  return generatePath(TASK_ROUTE, { projectId, taskId });
+}
@@ -0,0 +1,104 @@
+import { format, parse } from "date-fns";
+
+// Recurrence rules are a subset of the iCalendar RRULE syntax, stored in
+// tasks.recurrence_rule and expanded by next_recurrence_date in the database:
+//   FREQ=DAILY|WEEKLY|MONTHLY|YEARLY;INTERVAL=n;BYDAY=MO,TU;BYMONTHDAY=n|-1;UNTIL=YYYYMMDD
+
+export const RECURRENCE_FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+
+// 'on_complete': the next occurrence is created when this one is done.
+// 'on_schedule': it is created when this one falls due, done or not.
+export type RecurrenceTrigger = "on_complete" | "on_schedule";
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: Weekday[];
+  // Day of the month for monthly rules; -1 is the last day
+  byMonthDay: number | null;
+  // Last date of the series, inclusive
+  until: Date | null;
+}
+
+const UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+// Parses a rule, accepting its parts in any order. Returns null for anything
+// the database wouldn't accept.
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const rule: Partial<RecurrenceRule> = { interval: 1, byDay: [], byMonthDay: null, until: null };
+
+  for (const part of value.trim().toUpperCase().replace(/^RRULE:/, "").split(";")) {
+    if (!part) continue;
+    const [key, val = ""] = part.split("=");
+
+    if (key === "FREQ" && (RECURRENCE_FREQUENCIES as readonly string[]).includes(val)) {
+      rule.freq = val as RecurrenceFrequency;
+    } else if (key === "INTERVAL" && /^[1-9][0-9]{0,2}$/.test(val)) {
+      rule.interval = Number(val);
+    } else if (key === "BYDAY" && val.split(",").every((d) => (WEEKDAYS as readonly string[]).includes(d))) {
+      rule.byDay = val.split(",") as Weekday[];
+    } else if (key === "BYMONTHDAY" && /^(-1|[1-9]|[12][0-9]|3[01])$/.test(val)) {
+      rule.byMonthDay = Number(val);
+    } else if (key === "UNTIL" && /^[0-9]{8}/.test(val)) {
+      const until = parse(val.slice(0, 8), "yyyyMMdd", new Date());
+      if (isNaN(until.getTime())) return null;
+      rule.until = until;
+    } else {
+      return null;
+    }
+  }
+
+  return rule.freq ? (rule as RecurrenceRule) : null;
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === "WEEKLY" && rule.byDay.length > 0) {
+    // Keep weekdays in calendar order
+    parts.push(`BYDAY=${WEEKDAYS.filter((d) => rule.byDay.includes(d)).join(",")}`);
+  }
+  if (rule.freq === "MONTHLY" && rule.byMonthDay !== null) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) parts.push(`UNTIL=${format(rule.until, "yyyyMMdd")}`);
+  return parts.join(";");
+}
+
+export const getWeekday = (date: Date): Weekday => WEEKDAYS[(date.getDay() + 6) % 7];
+
+// e.g. "Every 2 weeks on Mon, Thu until Dec 31, 2026"
+export function describeRecurrence(value: string): string {
+  const rule = parseRecurrenceRule(value);
+  if (!rule) return "Custom rule";
+
+  const unit = UNITS[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  if (rule.freq === "DAILY" && rule.interval === 1) text = "Daily";
+
+  if (rule.freq === "WEEKLY" && rule.byDay.length > 0) {
+    text += ` on ${WEEKDAYS.filter((d) => rule.byDay.includes(d)).map((d) => WEEKDAY_LABELS[d]).join(", ")}`;
+  }
+  if (rule.freq === "MONTHLY" && rule.byMonthDay !== null) {
+    text += rule.byMonthDay === -1 ? " on the last day" : ` on day ${rule.byMonthDay}`;
+  }
+  if (rule.until) text += ` until ${format(rule.until, "MMM d, yyyy")}`;
+  return text;
+}
@@ -0,0 +1,58 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export const REVIEW_LINK_EXPIRY_DAYS = [1, 3, 7, 14, 30] as const;
+
+export interface ReviewLinkAttachment {
+  id: string;
+  file_name: string;
+  mime_type: string | null;
+  size_bytes: number;
+  // Signed URL, valid for an hour after the page was opened
+  url: string;
+}
+
+export interface ReviewLinkTask {
+  id: string;
+  title: string;
+  description: string | null;
+  due_date: string | null;
+  decision: "approved" | "changes_requested" | null;
+  reviewed_at: string | null;
+  awaiting_review: boolean;
+  attachments: ReviewLinkAttachment[];
+}
+
+export interface ReviewLinkView {
+  recipientName: string | null;
+  expiresAt: string;
+  project: { name: string; brandColor: string | null };
+  tasks: ReviewLinkTask[];
+}
+
+type ReviewLinkRequest =
+  | { action: "create"; taskIds: string[]; expiresAt: string; recipientName: string | null }
+  | { action: "view"; token: string }
+  | { action: "review"; token: string; taskId: string; approve: boolean; comment: string | null; reviewerName: string | null };
+
+// The page a review link opens; it works without signing in
+export const getReviewLinkUrl = (token: string) => `${window.location.origin}/review/${token}`;
+
+// Calls the review-link edge function. Its error responses explain what went
+// wrong (e.g. an expired link), so their message is surfaced as is.
+export async function callReviewLink<T>(body: ReviewLinkRequest): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("review-link", { body });
+
+  if (error) {
+    const message =
+      error instanceof FunctionsHttpError
+        ? await error.context
+            .json()
+            .then((response: { error?: string }) => response.error)
+            .catch(() => null)
+        : null;
+    throw new Error(message || error.message);
+  }
+
+  return data as T;
+}
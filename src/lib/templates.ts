@@ -0,0 +1,155 @@
+import { supabase } from "@/integrations/supabase/client";
+import { differenceInCalendarDays, min as minDate } from "date-fns";
+import { TASK_PRIORITIES } from "@/config/appConfig";
+
+export type TaskPriority = (typeof TASK_PRIORITIES)[number];
+
+// Template statuses and tasks are types rather than interfaces so they can be
+// written to the JSON columns as they are.
+
+// A workflow status in a project template (see project_templates.statuses)
+export type TemplateStatus = {
+  name: string;
+  color: string;
+  is_done: boolean;
+  wip_limit: number | null;
+  wip_limit_per_user: number | null;
+  wip_hard_limit: boolean;
+  is_internal_review: boolean;
+  is_client_review: boolean;
+};
+
+// A task in a project template (see project_templates.tasks). Offsets are days
+// from the start date picked when the template is used; assignee_role is a
+// placeholder such as "Designer" that is mapped to a person at that point.
+export type TemplateTask = {
+  title: string;
+  description: string | null;
+  priority: string;
+  start_offset_days: number | null;
+  due_offset_days: number | null;
+  assignee_role: string | null;
+  is_milestone: boolean;
+  checklist: string[];
+};
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  brand_color: string;
+  statuses: TemplateStatus[];
+  tasks: TemplateTask[];
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  title: string;
+  description: string | null;
+  priority: TaskPriority;
+  due_offset_days: number | null;
+  checklist: string[];
+}
+
+// Distinct assignee roles used by a template's tasks, in order of first use
+export const getTemplateRoles = (tasks: TemplateTask[]) =>
+  [...new Set(tasks.map((t) => t.assignee_role?.trim()).filter(Boolean))] as string[];
+
+// Turns a project into a template. Dates become offsets from the earliest
+// start or due date in the project, and each assignee becomes the role given
+// in roleNames (keyed by user id). Subtasks and dependencies are not kept.
+export async function saveProjectAsTemplate(
+  projectId: string,
+  name: string,
+  description: string | null,
+  roleNames: Record<string, string>
+) {
+  const [projectResult, statusesResult, tasksResult] = await Promise.all([
+    supabase.from("projects").select("brand_color").eq("id", projectId).single(),
+    supabase
+      .from("project_statuses")
+      .select("name, color, is_done, wip_limit, wip_limit_per_user, wip_hard_limit, is_internal_review, is_client_review")
+      .eq("project_id", projectId)
+      .order("position", { ascending: true }),
+    supabase
+      .from("tasks")
+      .select(`
+        title, description, priority, start_date, due_date, is_milestone, status, position,
+        task_assignees(user_id),
+        task_checklist_items(content, position)
+      `)
+      .eq("project_id", projectId)
+      .is("parent_task_id", null)
+      .order("position", { ascending: true }),
+  ]);
+
+  if (projectResult.error) throw projectResult.error;
+  if (statusesResult.error) throw statusesResult.error;
+  if (tasksResult.error) throw tasksResult.error;
+
+  const statuses = statusesResult.data || [];
+  const statusOrder = statuses.map((s) => s.name);
+  const tasks = [...(tasksResult.data || [])].sort(
+    (a, b) => statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status)
+  );
+
+  const dates = tasks.flatMap((t) => [t.start_date, t.due_date]).filter(Boolean).map((d) => new Date(d!));
+  const base = dates.length > 0 ? minDate(dates) : null;
+  const offset = (date: string | null) => (date && base ? differenceInCalendarDays(new Date(date), base) : null);
+
+  const templateTasks: TemplateTask[] = tasks.map((task) => {
+    const assignee = task.task_assignees.find((a) => roleNames[a.user_id]?.trim());
+    return {
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      start_offset_days: offset(task.start_date),
+      due_offset_days: offset(task.due_date),
+      assignee_role: assignee ? roleNames[assignee.user_id].trim() : null,
+      is_milestone: task.is_milestone,
+      checklist: [...task.task_checklist_items].sort((a, b) => a.position - b.position).map((i) => i.content),
+    };
+  });
+
+  const { error } = await supabase.from("project_templates").insert({
+    name,
+    description,
+    brand_color: projectResult.data.brand_color,
+    statuses,
+    tasks: templateTasks,
+  });
+
+  if (error) throw error;
+}
+
+// Saves a task as a single-task template named after it, keeping its
+// checklist. A future due date becomes an offset from today.
+export async function saveTaskAsTemplate(task: {
+  id: string;
+  title: string;
+  description: string | null;
+  priority: string;
+  due_date: string | null;
+}) {
+  const { data: items, error: itemsError } = await supabase
+    .from("task_checklist_items")
+    .select("content")
+    .eq("task_id", task.id)
+    .order("position", { ascending: true });
+
+  if (itemsError) throw itemsError;
+
+  const dueOffset = task.due_date ? differenceInCalendarDays(new Date(task.due_date), new Date()) : null;
+
+  const { error } = await supabase.from("task_templates").insert({
+    name: task.title,
+    title: task.title,
+    description: task.description,
+    priority: task.priority as TaskPriority,
+    due_offset_days: dueOffset !== null && dueOffset >= 0 ? dueOffset : null,
+    checklist: (items || []).map((i) => i.content),
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,51 @@
+import { startOfWeek } from "date-fns";
+
+// Durations are whole minutes everywhere: tasks.estimate_minutes and
+// time_entries.minutes.
+
+// e.g. 0 -> "0m", 45 -> "45m", 120 -> "2h", 125 -> "2h 5m"
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+// Accepts "1h 30m", "1h", "45m", "1:30" and plain hours such as "1.5".
+// Returns null for anything else, or for zero.
+export function parseDuration(value: string): number | null {
+  const text = value.trim().toLowerCase();
+  let minutes: number | null = null;
+
+  const clock = text.match(/^(\d+):([0-5]\d)$/);
+  const units = text.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/);
+
+  if (clock) {
+    minutes = Number(clock[1]) * 60 + Number(clock[2]);
+  } else if (/^\d+(\.\d+)?$/.test(text)) {
+    minutes = Number(text) * 60;
+  } else if (units && (units[1] || units[2])) {
+    minutes = Number(units[1] || 0) * 60 + Number(units[2] || 0);
+  }
+
+  return minutes && minutes > 0 ? Math.round(minutes) : null;
+}
+
+// Running timer display, e.g. "0:05:09" or "12:00:00"
+export function formatElapsed(since: Date, now: Date = new Date()): string {
+  const seconds = Math.max(0, Math.floor((now.getTime() - since.getTime()) / 1000));
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+}
+
+// Total of finished entries; running timers have no minutes yet
+export const sumMinutes = (entries: { minutes: number | null }[]) =>
+  entries.reduce((total, entry) => total + (entry.minutes ?? 0), 0);
+
+// Timesheet weeks run Monday to Sunday
+export const getWeekStart = (date: Date) => startOfWeek(date, { weekStartsOn: 1 });
+
+// Calendar day (yyyy-MM-dd) of a moment in an IANA time zone, so a week is
+// bucketed the way its owner saw it
+export const getDayKey = (date: Date, timeZone: string) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
@@ -0,0 +1,118 @@
+import type { CSSProperties } from "react";
+import { CLIENT_ROLE, DEFAULT_STATUS_COLOR, USER_ROLES } from "@/config/appConfig";
+
+// Roles in user_roles: the staff roles plus client reviewers
+export type AppRole = (typeof USER_ROLES)[number] | typeof CLIENT_ROLE;
+
+// A column in a project's workflow (see the project_statuses table)
+export interface ProjectStatus {
+  id: string;
+  project_id: string;
+  name: string;
+  color: string;
+  position: number;
+  is_done: boolean;
+  wip_limit: number | null;
+  wip_limit_per_user: number | null;
+  wip_hard_limit: boolean;
+  is_internal_review: boolean;
+  is_client_review: boolean;
+}
+
+// An allowed move between two statuses (see the project_status_transitions table)
+export interface StatusTransition {
+  id: string;
+  project_id: string;
+  from_status_id: string;
+  to_status_id: string;
+  allowed_roles: AppRole[];
+  requires_note: boolean;
+}
+
+// SQLSTATEs raised by the workflow triggers on tasks
+export const TRANSITION_NOT_ALLOWED = "AF001";
+export const TRANSITION_NOTE_REQUIRED = "AF002";
+export const WIP_LIMIT_EXCEEDED = "AF003";
+export const SUBTASKS_OPEN = "AF004";
+
+// Mirrors enforce_task_transition: projects without rules allow any move, and
+// new tasks are checked as moving out of the project's first status.
+// Role restrictions are left to the database, which reports them on save.
+export function checkTransition(
+  statuses: ProjectStatus[],
+  transitions: StatusTransition[],
+  from: string,
+  to: string
+) {
+  if (from === to || transitions.length === 0) {
+    return { allowed: true, requiresNote: false };
+  }
+
+  const fromStatus = statuses.find((s) => s.name === from);
+  const toStatus = statuses.find((s) => s.name === to);
+  const rule = transitions.find(
+    (t) => t.from_status_id === fromStatus?.id && t.to_status_id === toStatus?.id
+  );
+
+  return { allowed: !!rule, requiresNote: !!rule?.requires_note };
+}
+
+// Tinted badge colours derived from a status' hex colour
+export function getStatusBadgeStyle(color: string | null | undefined): CSSProperties {
+  const base = color || DEFAULT_STATUS_COLOR;
+  return {
+    backgroundColor: `${base}1a`,
+    borderColor: `${base}66`,
+    color: base,
+  };
+}
+
+interface WipTask {
+  id: string;
+  task_assignees?: { user_id: string; profiles?: { full_name: string } | null }[];
+}
+
+// Compares a column's tasks with its WIP limits. Returns the people over the
+// per-person limit and whether the column itself is over its limit.
+export function getWipUsage(status: ProjectStatus, tasks: WipTask[]) {
+  const perUser = new Map<string, { name: string; count: number }>();
+  tasks.forEach((task) =>
+    task.task_assignees?.forEach(({ user_id, profiles }) => {
+      const entry = perUser.get(user_id) || { name: profiles?.full_name || "Unknown", count: 0 };
+      perUser.set(user_id, { ...entry, count: entry.count + 1 });
+    })
+  );
+
+  const overloadedUsers =
+    status.wip_limit_per_user === null
+      ? []
+      : [...perUser.values()].filter((u) => u.count > status.wip_limit_per_user!);
+
+  return {
+    overLimit: status.wip_limit !== null && tasks.length > status.wip_limit,
+    overloadedUsers,
+  };
+}
+
+// Whether moving a task into a hard-limited column would break one of its limits
+export function getWipBlockReason(status: ProjectStatus, columnTasks: WipTask[], task: WipTask) {
+  if (!status.wip_hard_limit) return null;
+
+  const others = columnTasks.filter((t) => t.id !== task.id);
+  if (status.wip_limit !== null && others.length >= status.wip_limit) {
+    return `"${status.name}" is at its limit of ${status.wip_limit} tasks`;
+  }
+
+  if (status.wip_limit_per_user !== null) {
+    const busy = task.task_assignees?.find(
+      ({ user_id }) =>
+        others.filter((t) => t.task_assignees?.some((a) => a.user_id === user_id)).length >=
+        status.wip_limit_per_user!
+    );
+    if (busy) {
+      return `${busy.profiles?.full_name || "An assignee"} already has ${status.wip_limit_per_user} tasks in "${status.name}"`;
+    }
+  }
+
+  return null;
+}
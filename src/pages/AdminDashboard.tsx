@@ -1,7 +1,7 @@
 import { useEffect, useState, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { UserAvatar } from "@/components/UserAvatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -230,6 +230,7 @@ const AdminDashboard = () => {
                     <SelectItem value="admin">Admin</SelectItem>
                     <SelectItem value="manager">Manager</SelectItem>
                     <SelectItem value="staff">Staff</SelectItem>
+                    <SelectItem value="client">Client</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -274,7 +275,7 @@ const AdminDashboard = () => {
                 <TableRow key={profile.id}>
                   <TableCell>
                     <div className="flex items-center gap-3">
-                      <Avatar className="h-8 w-8"><AvatarImage src={profile.avatar_url || ""} /><AvatarFallback>{profile.full_name.split(" ").map((n) => n[0]).join("").toUpperCase()}</AvatarFallback></Avatar>
+                      <UserAvatar name={profile.full_name} avatarUrl={profile.avatar_url} className="h-8 w-8" />
                       <span className="font-medium">{profile.full_name}</span>
                     </div>
                   </TableCell>
@@ -282,7 +283,7 @@ const AdminDashboard = () => {
                   <TableCell>
                     <Select value={profile.roles[0] || "staff"} onValueChange={(value) => updateUserRole(profile.id, value)} disabled={updatingRole === profile.id}>
                       <SelectTrigger className="w-[120px]">{updatingRole === profile.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <SelectValue />}</SelectTrigger>
-                      <SelectContent><SelectItem value="admin">Admin</SelectItem><SelectItem value="manager">Manager</SelectItem><SelectItem value="staff">Staff</SelectItem></SelectContent>
+                      <SelectContent><SelectItem value="admin">Admin</SelectItem><SelectItem value="manager">Manager</SelectItem><SelectItem value="staff">Staff</SelectItem><SelectItem value="client">Client</SelectItem></SelectContent>
                     </Select>
                   </TableCell>
                   <TableCell><Badge variant={profile.is_active ? "default" : "secondary"}>{profile.is_active ? "Active" : "Inactive"}</Badge></TableCell>
@@ -9,6 +9,12 @@ import { toast } from "sonner";
 import { APP_NAME } from "@/config/appConfig";
 import { ArrowLeft, Layers, Zap } from "lucide-react";
 
+// Only follow in-app paths so the redirect parameter can't send users off-site
+const getRedirectPath = () => {
+  const redirect = new URLSearchParams(window.location.search).get("redirect");
+  return redirect && redirect.startsWith("/") && !redirect.startsWith("//") ? redirect : "/dashboard";
+};
+
 const Auth = () => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
@@ -25,7 +31,7 @@ const Auth = () => {
 
     supabase.auth.getSession().then(({ data: { session } }) => {
       if (session) {
-        navigate("/dashboard");
+        navigate(getRedirectPath());
       }
     });
   }, [navigate]);
@@ -46,7 +52,7 @@ const Auth = () => {
     if (error) {
       toast.error(error.message);
     } else {
-      navigate("/dashboard");
+      navigate(getRedirectPath());
     }
     setLoading(false);
   };
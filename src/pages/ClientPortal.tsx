@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { MentionText } from "@/components/MentionText";
+import { NotificationBell } from "@/components/NotificationBell";
+import { TaskAttachments } from "@/components/TaskAttachments";
+import { TaskDeliverables } from "@/components/TaskDeliverables";
+import { useToast } from "@/hooks/use-toast";
+import { APP_NAME } from "@/config/appConfig";
+import { format } from "date-fns";
+import { Calendar, Check, ClipboardCheck, LogOut, MessageSquareWarning } from "lucide-react";
+
+interface ReviewTask {
+  id: string;
+  title: string;
+  description: string | null;
+  due_date: string | null;
+  updated_at: string;
+  projects: { name: string; brand_color: string } | null;
+}
+
+interface Verdict {
+  task: ReviewTask;
+  approve: boolean;
+}
+
+// Stripped-down home for client reviewers: the tasks waiting for their review
+export default function ClientPortal() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<ReviewTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [verdict, setVerdict] = useState<Verdict | null>(null);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  // RLS limits clients to the projects they're attached to
+  const fetchTasks = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select("id, title, description, due_date, updated_at, projects(name, brand_color), workflow_status:project_statuses!tasks_project_status_fkey!inner(is_client_review)")
+        .eq("workflow_status.is_client_review", true)
+        .order("updated_at", { ascending: true });
+
+      if (error) throw error;
+      setTasks(data || []);
+    } catch (error) {
+      console.error("Error fetching tasks for review:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load tasks for review",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  const openVerdict = (task: ReviewTask, approve: boolean) => {
+    setComment("");
+    setVerdict({ task, approve });
+  };
+
+  const handleSubmit = async () => {
+    if (!verdict) return;
+    setSubmitting(true);
+
+    const { error } = await supabase.rpc("client_review_task", {
+      _task_id: verdict.task.id,
+      _approve: verdict.approve,
+      _comment: comment.trim() || undefined,
+    });
+
+    setSubmitting(false);
+    if (error) {
+      console.error("Error reviewing task:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send your review",
+        variant: "destructive",
+      });
+      fetchTasks();
+      return;
+    }
+
+    toast({
+      title: verdict.approve ? "Approved" : "Changes requested",
+      description: `The team has been notified about "${verdict.task.title}"`,
+    });
+    setTasks((prev) => prev.filter((t) => t.id !== verdict.task.id));
+    setVerdict(null);
+  };
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+    navigate("/auth");
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-40 flex h-14 items-center justify-between gap-4 border-b bg-background/95 backdrop-blur px-4">
+        <span className="font-semibold">{APP_NAME} Client Portal</span>
+        <div className="flex items-center gap-2">
+          <NotificationBell />
+          <Button variant="ghost" size="sm" onClick={handleSignOut}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign Out
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-3xl p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Awaiting Your Review</h1>
+          <p className="text-muted-foreground mt-1">Approve the work or tell the team what needs to change</p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-accent"></div>
+          </div>
+        ) : tasks.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <ClipboardCheck className="h-10 w-10 text-muted-foreground mb-3" />
+              <p className="text-muted-foreground">Nothing is waiting for your review</p>
+            </CardContent>
+          </Card>
+        ) : (
+          tasks.map((task) => (
+            <Card key={task.id} style={{ borderLeft: `4px solid ${task.projects?.brand_color || "transparent"}` }}>
+              <CardHeader className="pb-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{task.projects?.name || "Project"}</Badge>
+                  {task.due_date && (
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Calendar className="h-3 w-3" />
+                      Due {format(new Date(task.due_date), "MMM d, yyyy")}
+                    </span>
+                  )}
+                </div>
+                <CardTitle className="text-lg">{task.title}</CardTitle>
+                <CardDescription>Last updated {format(new Date(task.updated_at), "MMM d, yyyy")}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {task.description && (
+                  <p className="text-sm whitespace-pre-wrap">
+                    <MentionText text={task.description} />
+                  </p>
+                )}
+                <TaskAttachments taskId={task.id} readOnly />
+                <TaskDeliverables taskId={task.id} readOnly />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => openVerdict(task, false)}>
+                    <MessageSquareWarning className="mr-2 h-4 w-4" />
+                    Request Changes
+                  </Button>
+                  <Button onClick={() => openVerdict(task, true)}>
+                    <Check className="mr-2 h-4 w-4" />
+                    Approve
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </main>
+
+      <Dialog open={!!verdict} onOpenChange={(open) => !open && setVerdict(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{verdict?.approve ? "Approve" : "Request Changes"}</DialogTitle>
+            <DialogDescription>{verdict?.task.title}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">{verdict?.approve ? "Comment (optional)" : "What needs to change?"}</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVerdict(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={submitting || (!verdict?.approve && !comment.trim())}>
+              {verdict?.approve ? "Approve" : "Send to Team"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
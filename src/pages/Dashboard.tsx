@@ -19,11 +19,19 @@ interface Task {
   due_date: string | null;
   status: string;
   project_id: string;
-  profiles?: {
-    full_name: string;
-  } | null;
+  task_assignees: {
+    profiles: {
+      full_name: string;
+    } | null;
+  }[];
 }
 
+const getAssigneeNames = (task: Task) =>
+  task.task_assignees
+    .map((a) => a.profiles?.full_name)
+    .filter(Boolean)
+    .join(", ");
+
 const Dashboard = () => {
   const navigate = useNavigate();
   const [projects, setProjects] = useState<Project[]>([]);
@@ -61,7 +69,7 @@ const Dashboard = () => {
 
       // Build queries based on role
       let projectsQuery = supabase.from("projects").select("id, name, brand_color, status").eq("status", "active").limit(5);
-      let tasksQuery = supabase.from("tasks").select("id, title, due_date, status, project_id, profiles:profiles!tasks_assignee_id_fkey(full_name)").neq("status", "Done").limit(10);
+      let tasksQuery = supabase.from("tasks").select("id, title, due_date, status, project_id, task_assignees(profiles(full_name)), workflow_status:project_statuses!tasks_project_status_fkey!inner(is_done)").eq("workflow_status.is_done", false).limit(10);
       
       if (!isAdminOrManager) {
         projectsQuery = projectsQuery.in("id", memberProjectIds);
@@ -182,7 +190,7 @@ const Dashboard = () => {
                         {format(new Date(task.due_date), "MMM d")}
                       </span>
                     )}
-                    {task.profiles && <span className="truncate">• {task.profiles.full_name}</span>}
+                    {getAssigneeNames(task) && <span className="truncate">• {getAssigneeNames(task)}</span>}
                   </div>
                 </div>
               ))}
@@ -212,7 +220,7 @@ const Dashboard = () => {
                         {format(new Date(task.due_date), "MMM d")}
                       </span>
                     )}
-                    {task.profiles && <span className="truncate">• {task.profiles.full_name}</span>}
+                    {getAssigneeNames(task) && <span className="truncate">• {getAssigneeNames(task)}</span>}
                   </div>
                 </div>
               ))}
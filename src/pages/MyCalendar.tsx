@@ -0,0 +1,16 @@
+import { CalendarView } from "@/components/CalendarView";
+
+export default function MyCalendar() {
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">My Calendar</h1>
+        <p className="text-muted-foreground mt-1">
+          Due dates of tasks assigned to you across projects
+        </p>
+      </div>
+
+      <CalendarView />
+    </div>
+  );
+}
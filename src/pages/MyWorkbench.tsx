@@ -2,11 +2,13 @@ import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { Clock, AlertCircle, CheckCircle2 } from "lucide-react";
 import { format } from "date-fns";
 import { TaskDialog } from "@/components/TaskDialog";
+import { MentionText } from "@/components/MentionText";
+import { AssigneeAvatars, TaskAssignee } from "@/components/AssigneeAvatars";
+import { StatusBadge } from "@/components/StatusBadge";
 
 interface Task {
   id: string;
@@ -17,11 +19,15 @@ interface Task {
   due_date: string | null;
   is_blocked: boolean;
   project_id: string;
-  comments: string | null;
   projects: {
     name: string;
     brand_color: string;
   };
+  task_assignees: TaskAssignee[];
+  workflow_status: {
+    color: string;
+    is_done: boolean;
+  } | null;
 }
 
 export default function MyWorkbench() {
@@ -29,6 +35,7 @@ export default function MyWorkbench() {
   const [loading, setLoading] = useState(true);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -41,6 +48,20 @@ export default function MyWorkbench() {
         data: { user },
       } = await supabase.auth.getUser();
       if (!user) return;
+      setCurrentUserId(user.id);
+
+      const { data: assignments, error: assignmentsError } = await supabase
+        .from("task_assignees")
+        .select("task_id")
+        .eq("user_id", user.id);
+
+      if (assignmentsError) throw assignmentsError;
+
+      const taskIds = assignments?.map((a) => a.task_id) || [];
+      if (taskIds.length === 0) {
+        setTasks([]);
+        return;
+      }
 
       const { data, error } = await supabase
         .from("tasks")
@@ -49,9 +70,20 @@ export default function MyWorkbench() {
           projects (
             name,
             brand_color
+          ),
+          task_assignees (
+            user_id,
+            profiles (
+              full_name,
+              avatar_url
+            )
+          ),
+          workflow_status:project_statuses!tasks_project_status_fkey (
+            color,
+            is_done
           )
         `)
-        .eq("assignee_id", user.id)
+        .in("id", taskIds)
         .order("due_date", { ascending: true });
 
       if (error) throw error;
@@ -86,16 +118,13 @@ export default function MyWorkbench() {
     }
   };
 
-  const getStatusIcon = (status: string) => {
-    if (status === "Done") return <CheckCircle2 className="h-4 w-4 text-success" />;
-    if (status === "In Progress") return <Clock className="h-4 w-4 text-warning" />;
-    return null;
-  };
+  // Whether a status is "done" comes from each task's project workflow
+  const isDone = (task: Task) => !!task.workflow_status?.is_done;
 
-  const todoTasks = tasks.filter((t) => t.status === "Todo");
-  const inProgressTasks = tasks.filter((t) => t.status === "In Progress");
-  const reviewTasks = tasks.filter((t) => t.status === "Internal Review");
-  const doneTasks = tasks.filter((t) => t.status === "Done");
+  const openTasks = tasks.filter((t) => !isDone(t));
+  const overdueTasks = openTasks.filter((t) => t.due_date && new Date(t.due_date) < new Date());
+  const blockedTasks = openTasks.filter((t) => t.is_blocked);
+  const doneTasks = tasks.filter(isDone);
 
   if (loading) {
     return (
@@ -118,28 +147,28 @@ export default function MyWorkbench() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <Card>
             <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium">To Do</CardTitle>
+              <CardTitle className="text-sm font-medium">Open</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{todoTasks.length}</div>
+              <div className="text-2xl font-bold">{openTasks.length}</div>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium">In Progress</CardTitle>
+              <CardTitle className="text-sm font-medium">Overdue</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{inProgressTasks.length}</div>
+              <div className="text-2xl font-bold text-destructive">{overdueTasks.length}</div>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium">In Review</CardTitle>
+              <CardTitle className="text-sm font-medium">Blocked</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{reviewTasks.length}</div>
+              <div className="text-2xl font-bold">{blockedTasks.length}</div>
             </CardContent>
           </Card>
 
@@ -164,62 +193,71 @@ export default function MyWorkbench() {
               </p>
             ) : (
               <div className="space-y-3">
-                {tasks.map((task) => (
-                  <Card
-                    key={task.id}
-                    className="cursor-pointer hover:shadow-md transition-shadow"
-                    onClick={() => {
-                      setSelectedTask(task);
-                      setIsEditDialogOpen(true);
-                    }}
-                  >
-                    <CardContent className="p-4">
-                      <div className="flex items-start justify-between gap-4">
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2 mb-2">
-                            <h4 className="font-medium">{task.title}</h4>
-                            {getStatusIcon(task.status)}
-                          </div>
-                          {task.description && (
-                            <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
-                              {task.description}
-                            </p>
-                          )}
-                          <div className="flex items-center gap-2 flex-wrap">
-                            <Badge
-                              variant="outline"
-                              className="text-xs"
-                              style={{
-                                borderColor: task.projects.brand_color,
-                                color: task.projects.brand_color,
-                              }}
-                            >
-                              {task.projects.name}
-                            </Badge>
-                            <Badge variant={getPriorityColor(task.priority)} className="text-xs">
-                              {task.priority}
-                            </Badge>
-                            <Badge variant="secondary" className="text-xs">
-                              {task.status}
-                            </Badge>
-                            {task.is_blocked && (
-                              <Badge variant="destructive" className="text-xs">
-                                <AlertCircle className="h-3 w-3 mr-1" />
-                                Blocked
+                {tasks.map((task) => {
+                  const coAssignees = task.task_assignees.filter((a) => a.user_id !== currentUserId);
+                  return (
+                    <Card
+                      key={task.id}
+                      className="cursor-pointer hover:shadow-md transition-shadow"
+                      onClick={() => {
+                        setSelectedTask(task);
+                        setIsEditDialogOpen(true);
+                      }}
+                    >
+                      <CardContent className="p-4">
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2 mb-2">
+                              <h4 className="font-medium">{task.title}</h4>
+                              {isDone(task) && <CheckCircle2 className="h-4 w-4 text-success" />}
+                            </div>
+                            {task.description && (
+                              <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
+                                <MentionText text={task.description} />
+                              </p>
+                            )}
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <Badge
+                                variant="outline"
+                                className="text-xs"
+                                style={{
+                                  borderColor: task.projects.brand_color,
+                                  color: task.projects.brand_color,
+                                }}
+                              >
+                                {task.projects.name}
+                              </Badge>
+                              <Badge variant={getPriorityColor(task.priority)} className="text-xs">
+                                {task.priority}
                               </Badge>
+                              <StatusBadge status={task.status} color={task.workflow_status?.color} />
+                              {task.is_blocked && (
+                                <Badge variant="destructive" className="text-xs">
+                                  <AlertCircle className="h-3 w-3 mr-1" />
+                                  Blocked
+                                </Badge>
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex flex-col items-end gap-2 shrink-0">
+                            {task.due_date && (
+                              <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                                <Clock className="h-4 w-4" />
+                                <span>{format(new Date(task.due_date), "MMM dd")}</span>
+                              </div>
+                            )}
+                            {coAssignees.length > 0 && (
+                              <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                                <span>with</span>
+                                <AssigneeAvatars assignees={coAssignees} />
+                              </div>
                             )}
                           </div>
                         </div>
-                        {task.due_date && (
-                          <div className="flex items-center gap-1 text-sm text-muted-foreground shrink-0">
-                            <Clock className="h-4 w-4" />
-                            <span>{format(new Date(task.due_date), "MMM dd")}</span>
-                          </div>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
               </div>
             )}
           </CardContent>
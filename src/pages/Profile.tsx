@@ -1,14 +1,17 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
-import { Eye, EyeOff, Lock } from "lucide-react";
+import { Eye, EyeOff, Lock, Trash2, Upload } from "lucide-react";
+import { CalendarFeedsCard } from "@/components/CalendarFeedsCard";
+import { UserAvatar } from "@/components/UserAvatar";
+import { AvatarCropDialog } from "@/components/AvatarCropDialog";
+import { removeAvatar, uploadAvatar } from "@/lib/avatars";
 
 const Profile = () => {
   const [loading, setLoading] = useState(true);
@@ -16,6 +19,9 @@ const Profile = () => {
   const [fullName, setFullName] = useState("");
   const [email, setEmail] = useState("");
   const [avatarUrl, setAvatarUrl] = useState("");
+  const [cropFile, setCropFile] = useState<File | null>(null);
+  const [savingAvatar, setSavingAvatar] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [roles, setRoles] = useState<string[]>([]);
   
   // Password change state
@@ -65,7 +71,6 @@ const Profile = () => {
         .from("profiles")
         .update({
           full_name: fullName,
-          avatar_url: avatarUrl || null,
         })
         .eq("id", user.id);
 
@@ -80,6 +85,57 @@ const Profile = () => {
     }
   };
 
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still triggers a change
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please choose an image file");
+      return;
+    }
+    setCropFile(file);
+  };
+
+  const handleCropCancel = useCallback(() => setCropFile(null), []);
+
+  const handleAvatarCropped = async (blob: Blob) => {
+    setSavingAvatar(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setAvatarUrl(await uploadAvatar(user.id, blob));
+      setCropFile(null);
+      toast.success("Profile photo updated");
+    } catch (error) {
+      console.error("Error uploading avatar:", error);
+      toast.error(error.message || "Failed to upload photo");
+    } finally {
+      setSavingAvatar(false);
+    }
+  };
+
+  const handleRemoveAvatar = async () => {
+    setSavingAvatar(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      await removeAvatar(user.id);
+      setAvatarUrl("");
+      toast.success("Profile photo removed");
+    } catch (error) {
+      console.error("Error removing avatar:", error);
+      toast.error(error.message || "Failed to remove photo");
+    } finally {
+      setSavingAvatar(false);
+    }
+  };
+
   const handlePasswordChange = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -154,25 +210,35 @@ const Profile = () => {
         <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0">
           <form onSubmit={handleSubmit} className="space-y-4 sm:space-y-6">
             <div className="flex flex-col sm:flex-row items-center gap-4 sm:gap-6">
-              <Avatar className="h-20 w-20 sm:h-24 sm:w-24">
-                <AvatarImage src={avatarUrl} />
-                <AvatarFallback className="text-xl sm:text-2xl">
-                  {fullName
-                    .split(" ")
-                    .map((n) => n[0])
-                    .join("")
-                    .toUpperCase()}
-                </AvatarFallback>
-              </Avatar>
+              <UserAvatar
+                name={fullName}
+                avatarUrl={avatarUrl}
+                className="h-20 w-20 sm:h-24 sm:w-24"
+                fallbackClassName="text-xl sm:text-2xl"
+              />
               <div className="flex-1 space-y-2 w-full">
-                <Label htmlFor="avatarUrl">Avatar URL</Label>
-                <Input
-                  id="avatarUrl"
-                  type="url"
-                  value={avatarUrl}
-                  onChange={(e) => setAvatarUrl(e.target.value)}
-                  placeholder="https://example.com/avatar.jpg"
-                />
+                <Label>Profile Photo</Label>
+                <div className="flex gap-2 flex-wrap">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={savingAvatar}
+                  >
+                    <Upload className="mr-2 h-4 w-4" />
+                    {avatarUrl ? "Change Photo" : "Upload Photo"}
+                  </Button>
+                  {avatarUrl && (
+                    <Button type="button" variant="ghost" onClick={handleRemoveAvatar} disabled={savingAvatar}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  JPG, PNG or any image your browser can open. You can crop it before it's saved.
+                </p>
+                <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFileSelected} />
               </div>
             </div>
 
@@ -267,6 +333,15 @@ const Profile = () => {
           </form>
         </CardContent>
       </Card>
+
+      <CalendarFeedsCard />
+
+      <AvatarCropDialog
+        file={cropFile}
+        saving={savingAvatar}
+        onCancel={handleCropCancel}
+        onCropped={handleAvatarCropped}
+      />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useState, useCallback } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -7,10 +7,18 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { KanbanBoard } from "@/components/KanbanBoard";
 import { TaskDialog } from "@/components/TaskDialog";
 import { TeamMembersDialog } from "@/components/TeamMembersDialog";
+import { WorkflowSettingsDialog } from "@/components/WorkflowSettingsDialog";
+import { SaveAsTemplateDialog } from "@/components/SaveAsTemplateDialog";
+import { ShareForReviewDialog } from "@/components/ShareForReviewDialog";
 import { CalendarView } from "@/components/CalendarView";
+import { TimelineView } from "@/components/TimelineView";
+import { ProjectTimeReport } from "@/components/ProjectTimeReport";
+import { ProjectBilling } from "@/components/ProjectBilling";
+import { ProjectDeliverablesReport } from "@/components/ProjectDeliverablesReport";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft, Plus, Calendar, LayoutGrid, Users, Lock } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Plus, Calendar, CalendarRange, LayoutGrid, Users, Lock, SearchX, Workflow, LayoutTemplate, Timer, Receipt, Share2, Layers } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 interface Project {
@@ -19,24 +27,79 @@ interface Project {
   description: string | null;
   brand_color: string;
   status: string;
+  client_name: string | null;
+  billing_contact_name: string | null;
+  billing_contact_email: string | null;
+  currency: string;
+  included_review_rounds: number;
+}
+
+interface LinkedTask {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: string;
+  due_date: string | null;
+  is_blocked: boolean;
 }
 
 export default function ProjectDetail() {
-  const { projectId } = useParams<{ projectId: string }>();
+  const { projectId, taskId } = useParams<{ projectId: string; taskId?: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [project, setProject] = useState<Project | null>(null);
   const [loading, setLoading] = useState(true);
   const [isTaskDialogOpen, setIsTaskDialogOpen] = useState(false);
   const [isTeamDialogOpen, setIsTeamDialogOpen] = useState(false);
+  const [isWorkflowDialogOpen, setIsWorkflowDialogOpen] = useState(false);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
   const [userRole, setUserRole] = useState<string | null>(null);
   const [updatingStatus, setUpdatingStatus] = useState(false);
+  const [linkedTask, setLinkedTask] = useState<LinkedTask | null>(null);
+  const [linkedTaskMissing, setLinkedTaskMissing] = useState(false);
 
   useEffect(() => {
     fetchData();
   }, [projectId]);
 
+  // Open the task from a deep link (/projects/:projectId/tasks/:taskId)
+  const fetchLinkedTask = useCallback(async () => {
+    if (!taskId) {
+      setLinkedTask(null);
+      setLinkedTaskMissing(false);
+      return;
+    }
+
+    try {
+      // RLS returns no row when the task does not exist or is not visible to the user
+      const { data, error } = await supabase
+        .from("tasks")
+        .select("*")
+        .eq("id", taskId)
+        .eq("project_id", projectId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setLinkedTask(data);
+      setLinkedTaskMissing(!data);
+    } catch (error) {
+      console.error("Error fetching linked task:", error);
+      setLinkedTask(null);
+      setLinkedTaskMissing(true);
+    }
+  }, [projectId, taskId]);
+
+  useEffect(() => {
+    fetchLinkedTask();
+  }, [fetchLinkedTask]);
+
+  const closeLinkedTask = () => {
+    navigate(`/projects/${projectId}`);
+  };
+
   const fetchData = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -68,6 +131,11 @@ export default function ProjectDetail() {
     setIsTaskDialogOpen(false);
   };
 
+  const handleLinkedTaskUpdated = () => {
+    setRefreshKey(prev => prev + 1);
+    closeLinkedTask();
+  };
+
   const handleStatusChange = async (newStatus: string) => {
     if (!project) return;
     setUpdatingStatus(true);
@@ -122,8 +190,17 @@ export default function ProjectDetail() {
 
   if (!project) {
     return (
-      <div className="container mx-auto p-6">
-        <p className="text-muted-foreground">Project not found</p>
+      <div className="container mx-auto p-6 space-y-6">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/projects")}>
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <SearchX className="h-12 w-12 text-muted-foreground mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Project not found</h2>
+          <p className="text-muted-foreground">
+            This project doesn't exist or you don't have access to it.
+          </p>
+        </div>
       </div>
     );
   }
@@ -190,6 +267,20 @@ export default function ProjectDetail() {
                 <span className="hidden sm:inline">Manage Team</span>
                 <span className="sm:hidden">Team</span>
               </Button>
+              <Button variant="outline" size="sm" onClick={() => setIsWorkflowDialogOpen(true)}>
+                <Workflow className="mr-2 h-4 w-4" />
+                Workflow
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setIsTemplateDialogOpen(true)}>
+                <LayoutTemplate className="mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">Save as Template</span>
+                <span className="sm:hidden">Template</span>
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setIsShareDialogOpen(true)}>
+                <Share2 className="mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">Share for Review</span>
+                <span className="sm:hidden">Share</span>
+              </Button>
             </>
           )}
           <Button size="sm" onClick={() => setIsTaskDialogOpen(true)}>
@@ -212,6 +303,25 @@ export default function ProjectDetail() {
             <span className="hidden sm:inline">Calendar View</span>
             <span className="sm:hidden">Calendar</span>
           </TabsTrigger>
+          <TabsTrigger value="timeline" className="flex-1 sm:flex-none">
+            <CalendarRange className="mr-2 h-4 w-4" />
+            <span className="hidden sm:inline">Timeline</span>
+            <span className="sm:hidden">Timeline</span>
+          </TabsTrigger>
+          <TabsTrigger value="time" className="flex-1 sm:flex-none">
+            <Timer className="mr-2 h-4 w-4" />
+            Time
+          </TabsTrigger>
+          <TabsTrigger value="deliverables" className="flex-1 sm:flex-none">
+            <Layers className="mr-2 h-4 w-4" />
+            Deliverables
+          </TabsTrigger>
+          {isAdminOrManager && (
+            <TabsTrigger value="billing" className="flex-1 sm:flex-none">
+              <Receipt className="mr-2 h-4 w-4" />
+              Billing
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="kanban" className="mt-4 sm:mt-6">
@@ -221,6 +331,30 @@ export default function ProjectDetail() {
         <TabsContent value="calendar" className="mt-4 sm:mt-6">
           <CalendarView projectId={projectId!} refreshKey={refreshKey} />
         </TabsContent>
+
+        <TabsContent value="timeline" className="mt-4 sm:mt-6">
+          <TimelineView projectId={projectId!} refreshKey={refreshKey} />
+        </TabsContent>
+
+        <TabsContent value="time" className="mt-4 sm:mt-6">
+          <ProjectTimeReport projectId={projectId!} refreshKey={refreshKey} />
+        </TabsContent>
+
+        <TabsContent value="deliverables" className="mt-4 sm:mt-6">
+          <ProjectDeliverablesReport
+            projectId={projectId!}
+            includedRounds={project.included_review_rounds}
+            canEdit={isAdminOrManager}
+            onIncludedRoundsChange={(rounds) => setProject({ ...project, included_review_rounds: rounds })}
+            refreshKey={refreshKey}
+          />
+        </TabsContent>
+
+        {isAdminOrManager && (
+          <TabsContent value="billing" className="mt-4 sm:mt-6">
+            <ProjectBilling project={project} onProjectUpdated={(updated) => setProject({ ...project, ...updated })} />
+          </TabsContent>
+        )}
       </Tabs>
 
       <TaskDialog
@@ -235,6 +369,55 @@ export default function ProjectDetail() {
         onOpenChange={setIsTeamDialogOpen}
         projectId={projectId!}
       />
+
+      <WorkflowSettingsDialog
+        open={isWorkflowDialogOpen}
+        onOpenChange={setIsWorkflowDialogOpen}
+        projectId={projectId!}
+        onWorkflowChanged={() => setRefreshKey(prev => prev + 1)}
+      />
+
+      <SaveAsTemplateDialog
+        open={isTemplateDialogOpen}
+        onOpenChange={setIsTemplateDialogOpen}
+        projectId={projectId!}
+        projectName={project.name}
+        projectDescription={project.description}
+      />
+
+      <ShareForReviewDialog
+        open={isShareDialogOpen}
+        onOpenChange={setIsShareDialogOpen}
+        projectId={projectId!}
+      />
+
+      {/* Checklist and subtask changes save immediately, so the board is refreshed on close too */}
+      {linkedTask && (
+        <TaskDialog
+          open={!!taskId}
+          onOpenChange={(open) => !open && handleLinkedTaskUpdated()}
+          projectId={projectId!}
+          task={linkedTask}
+          onTaskCreated={handleLinkedTaskUpdated}
+        />
+      )}
+
+      <Dialog open={!!taskId && linkedTaskMissing} onOpenChange={(open) => !open && closeLinkedTask()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <SearchX className="h-5 w-5 text-muted-foreground" />
+              Task not found
+            </DialogTitle>
+            <DialogDescription>
+              This task doesn't exist, was deleted, or you don't have access to it.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button onClick={closeLinkedTask}>Back to project</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
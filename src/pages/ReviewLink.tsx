@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { MentionText } from "@/components/MentionText";
+import { useToast } from "@/hooks/use-toast";
+import { APP_NAME } from "@/config/appConfig";
+import { callReviewLink, ReviewLinkTask, ReviewLinkView } from "@/lib/reviewLinks";
+import { formatFileSize, isImage } from "@/lib/attachments";
+import { format } from "date-fns";
+import { Calendar, Check, Download, FileText, Link2Off, MessageSquareWarning } from "lucide-react";
+
+interface Verdict {
+  task: ReviewLinkTask;
+  approve: boolean;
+}
+
+// Public page behind a shared review link: no account needed, the signed
+// token in the URL is checked by the review-link edge function, which also
+// hands out short-lived URLs for the tasks' attachments
+export default function ReviewLink() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [view, setView] = useState<ReviewLinkView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [invalidMessage, setInvalidMessage] = useState<string | null>(null);
+  const [reviewerName, setReviewerName] = useState("");
+  const [verdict, setVerdict] = useState<Verdict | null>(null);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchView = useCallback(async () => {
+    try {
+      const data = await callReviewLink<ReviewLinkView>({ action: "view", token: token! });
+      setView(data);
+      setReviewerName((prev) => prev || data.recipientName || "");
+    } catch (error) {
+      console.error("Error opening review link:", error);
+      setInvalidMessage(error.message || "This review link is no longer valid");
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchView();
+  }, [fetchView]);
+
+  const openVerdict = (task: ReviewLinkTask, approve: boolean) => {
+    setComment("");
+    setVerdict({ task, approve });
+  };
+
+  const handleSubmit = async () => {
+    if (!verdict) return;
+    setSubmitting(true);
+
+    try {
+      await callReviewLink({
+        action: "review",
+        token: token!,
+        taskId: verdict.task.id,
+        approve: verdict.approve,
+        comment: comment.trim() || null,
+        reviewerName: reviewerName.trim() || null,
+      });
+
+      toast({
+        title: verdict.approve ? "Approved" : "Feedback sent",
+        description: `The team has been notified about "${verdict.task.title}"`,
+      });
+      setVerdict(null);
+    } catch (error) {
+      console.error("Error reviewing task:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send your review",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+      fetchView();
+    }
+  };
+
+  const renderOutcome = (task: ReviewLinkTask) => {
+    if (task.decision === "approved") {
+      return <Badge>Approved</Badge>;
+    }
+    if (task.decision === "changes_requested") {
+      return <Badge variant="secondary">Changes requested</Badge>;
+    }
+    return <Badge variant="outline">No longer waiting for review</Badge>;
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-40 flex h-14 items-center border-b bg-background/95 backdrop-blur px-4">
+        <span className="font-semibold">{APP_NAME} Review</span>
+      </header>
+
+      <main className="container mx-auto max-w-3xl p-6 space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-accent"></div>
+          </div>
+        ) : !view ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <Link2Off className="h-12 w-12 text-muted-foreground mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Link unavailable</h2>
+            <p className="text-muted-foreground">{invalidMessage}. Ask the team for a new link.</p>
+          </div>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-3xl font-bold">{view.project.name}</h1>
+              <p className="text-muted-foreground mt-1">
+                Approve the work or tell the team what needs to change. This link expires on{" "}
+                {format(new Date(view.expiresAt), "MMM d, yyyy 'at' h:mm a")}.
+              </p>
+            </div>
+
+            <div className="space-y-2 max-w-sm">
+              <Label htmlFor="reviewer-name">Your Name</Label>
+              <Input
+                id="reviewer-name"
+                value={reviewerName}
+                onChange={(e) => setReviewerName(e.target.value)}
+                placeholder="Shown to the team with your review"
+              />
+            </div>
+
+            {view.tasks.map((task) => (
+              <Card key={task.id} style={{ borderLeft: `4px solid ${view.project.brandColor || "transparent"}` }}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg">{task.title}</CardTitle>
+                  {task.due_date && (
+                    <CardDescription className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      Due {format(new Date(task.due_date), "MMM d, yyyy")}
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {task.description && (
+                    <p className="text-sm whitespace-pre-wrap">
+                      <MentionText text={task.description} />
+                    </p>
+                  )}
+                  {task.attachments.length > 0 && (
+                    <div className="space-y-1">
+                      {task.attachments.map((attachment) => (
+                        <div key={attachment.id} className="flex items-center gap-2">
+                          <a
+                            href={attachment.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex flex-1 min-w-0 items-center gap-2 rounded p-1 hover:bg-muted/50"
+                          >
+                            {isImage(attachment.mime_type) ? (
+                              <img src={attachment.url} alt="" className="h-12 w-12 shrink-0 rounded object-cover border" />
+                            ) : (
+                              <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded border bg-muted">
+                                <FileText className="h-5 w-5 text-muted-foreground" />
+                              </div>
+                            )}
+                            <div className="min-w-0">
+                              <p className="text-sm truncate">{attachment.file_name}</p>
+                              <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size_bytes)}</p>
+                            </div>
+                          </a>
+                          <Button variant="ghost" size="icon" title="Download" asChild>
+                            <a href={`${attachment.url}&download=${encodeURIComponent(attachment.file_name)}`}>
+                              <Download className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    {task.awaiting_review && !task.decision ? (
+                      <>
+                        <Button variant="outline" onClick={() => openVerdict(task, false)}>
+                          <MessageSquareWarning className="mr-2 h-4 w-4" />
+                          Leave Feedback
+                        </Button>
+                        <Button onClick={() => openVerdict(task, true)}>
+                          <Check className="mr-2 h-4 w-4" />
+                          Approve
+                        </Button>
+                      </>
+                    ) : (
+                      renderOutcome(task)
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </>
+        )}
+      </main>
+
+      <Dialog open={!!verdict} onOpenChange={(open) => !open && setVerdict(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{verdict?.approve ? "Approve" : "Leave Feedback"}</DialogTitle>
+            <DialogDescription>{verdict?.task.title}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">{verdict?.approve ? "Comment (optional)" : "What needs to change?"}</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVerdict(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={submitting || (!verdict?.approve && !comment.trim())}>
+              {verdict?.approve ? "Approve" : "Send to Team"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
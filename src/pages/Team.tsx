@@ -1,7 +1,7 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { UserAvatar } from "@/components/UserAvatar";
 import { Badge } from "@/components/ui/badge";
 
 interface Profile {
@@ -67,16 +67,7 @@ const Team = () => {
           <Card key={profile.id} className="card-hover">
             <CardHeader>
               <div className="flex items-center gap-4">
-                <Avatar className="h-12 w-12">
-                  <AvatarImage src={profile.avatar_url || ""} alt={profile.full_name} />
-                  <AvatarFallback>
-                    {profile.full_name
-                      .split(" ")
-                      .map((n) => n[0])
-                      .join("")
-                      .toUpperCase()}
-                  </AvatarFallback>
-                </Avatar>
+                <UserAvatar name={profile.full_name} avatarUrl={profile.avatar_url} className="h-12 w-12" />
                 <div className="flex-1">
                   <CardTitle className="text-lg">{profile.full_name}</CardTitle>
                   <p className="text-sm text-muted-foreground">{profile.email}</p>
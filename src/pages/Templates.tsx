@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ProjectTemplateDialog } from "@/components/ProjectTemplateDialog";
+import { TaskTemplateDialog } from "@/components/TaskTemplateDialog";
+import { useToast } from "@/hooks/use-toast";
+import { getTemplateRoles, ProjectTemplate, TaskTemplate } from "@/lib/templates";
+import { FolderKanban, ListChecks, Pencil, Plus, Trash2 } from "lucide-react";
+
+interface OwnedTaskTemplate extends TaskTemplate {
+  created_by: string | null;
+}
+
+export default function Templates() {
+  const { toast } = useToast();
+  const [projectTemplates, setProjectTemplates] = useState<ProjectTemplate[]>([]);
+  const [taskTemplates, setTaskTemplates] = useState<OwnedTaskTemplate[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [projectDialogOpen, setProjectDialogOpen] = useState(false);
+  const [editingProjectTemplate, setEditingProjectTemplate] = useState<ProjectTemplate | undefined>();
+  const [taskDialogOpen, setTaskDialogOpen] = useState(false);
+  const [editingTaskTemplate, setEditingTaskTemplate] = useState<TaskTemplate | undefined>();
+
+  const isAdminOrManager = userRole === "admin" || userRole === "manager";
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      // Project templates are only visible to admins and managers, so this is empty for staff
+      const [roleResult, projectResult, taskResult] = await Promise.all([
+        supabase.from("user_roles").select("role").eq("user_id", user.id).maybeSingle(),
+        supabase
+          .from("project_templates")
+          .select("id, name, description, brand_color, statuses, tasks")
+          .order("name"),
+        supabase
+          .from("task_templates")
+          .select("id, name, title, description, priority, due_offset_days, checklist, created_by")
+          .order("name"),
+      ]);
+
+      if (projectResult.error) throw projectResult.error;
+      if (taskResult.error) throw taskResult.error;
+
+      setUserId(user.id);
+      setUserRole(roleResult.data?.role || null);
+      setProjectTemplates((projectResult.data || []) as unknown as ProjectTemplate[]);
+      setTaskTemplates(taskResult.data || []);
+    } catch (error) {
+      console.error("Error fetching templates:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load templates",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const deleteTemplate = async (table: "project_templates" | "task_templates", id: string) => {
+    const { data, error } = await supabase.from(table).delete().eq("id", id).select("id");
+
+    if (error || !data || data.length === 0) {
+      console.error("Error deleting template:", error);
+      toast({
+        title: "Error",
+        description: error?.message || "You don't have permission to delete this template",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Template deleted" });
+    fetchTemplates();
+  };
+
+  const openProjectTemplate = (template?: ProjectTemplate) => {
+    setEditingProjectTemplate(template);
+    setProjectDialogOpen(true);
+  };
+
+  const openTaskTemplate = (template?: TaskTemplate) => {
+    setEditingTaskTemplate(template);
+    setTaskDialogOpen(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-accent"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Templates</h1>
+        <p className="text-muted-foreground mt-1">Reusable starting points for projects and tasks</p>
+      </div>
+
+      {isAdminOrManager && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <FolderKanban className="h-5 w-5" />
+                Project Templates
+              </CardTitle>
+              <CardDescription>
+                Pick one when creating a project, or save an existing project with "Save as Template".
+              </CardDescription>
+            </div>
+            <Button size="sm" onClick={() => openProjectTemplate()}>
+              <Plus className="mr-2 h-4 w-4" />
+              New
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {projectTemplates.length === 0 && (
+              <p className="text-sm text-muted-foreground">No project templates yet</p>
+            )}
+            {projectTemplates.map((template) => {
+              const roles = getTemplateRoles(template.tasks);
+              return (
+                <div key={template.id} className="flex items-center gap-3 rounded-md border p-3">
+                  <div className="h-8 w-2 rounded-full shrink-0" style={{ backgroundColor: template.brand_color }} />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{template.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {template.tasks.length} task{template.tasks.length === 1 ? "" : "s"}
+                      {template.statuses.length > 0 && ` · ${template.statuses.length} statuses`}
+                      {roles.length > 0 && ` · ${roles.join(", ")}`}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" title="Edit" onClick={() => openProjectTemplate(template)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Delete"
+                    onClick={() => deleteTemplate("project_templates", template.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Task Templates
+            </CardTitle>
+            <CardDescription>Pick one from "Use template" when creating a task.</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openTaskTemplate()}>
+            <Plus className="mr-2 h-4 w-4" />
+            New
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {taskTemplates.length === 0 && <p className="text-sm text-muted-foreground">No task templates yet</p>}
+          {taskTemplates.map((template) => {
+            const canEdit = isAdminOrManager || template.created_by === userId;
+            return (
+              <div key={template.id} className="flex items-center gap-3 rounded-md border p-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{template.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {template.title}
+                    {template.due_offset_days !== null && ` · due after ${template.due_offset_days} days`}
+                    {template.checklist.length > 0 && ` · ${template.checklist.length} checklist items`}
+                  </p>
+                </div>
+                <Badge variant="outline" className="text-xs shrink-0">
+                  {template.priority}
+                </Badge>
+                {canEdit && (
+                  <>
+                    <Button variant="ghost" size="icon" title="Edit" onClick={() => openTaskTemplate(template)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete"
+                      onClick={() => deleteTemplate("task_templates", template.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <ProjectTemplateDialog
+        open={projectDialogOpen}
+        onOpenChange={setProjectDialogOpen}
+        template={editingProjectTemplate}
+        onSaved={fetchTemplates}
+      />
+
+      <TaskTemplateDialog
+        open={taskDialogOpen}
+        onOpenChange={setTaskDialogOpen}
+        template={editingTaskTemplate}
+        onSaved={fetchTemplates}
+      />
+    </div>
+  );
+}
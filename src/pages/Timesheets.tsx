@@ -0,0 +1,385 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { TimesheetEntry, TimesheetGrid } from "@/components/TimesheetGrid";
+import { useToast } from "@/hooks/use-toast";
+import { formatMinutes, getWeekStart, sumMinutes } from "@/lib/time";
+import { addDays, addWeeks, format, isAfter, parseISO } from "date-fns";
+import { Check, ChevronLeft, ChevronRight, ClipboardCheck, Loader2, Send, Undo2, X } from "lucide-react";
+
+interface Timesheet {
+  id: string;
+  user_id: string;
+  week_start: string;
+  time_zone: string;
+  starts_at: string;
+  ends_at: string;
+  status: string;
+  review_comment: string | null;
+  reviewed_at: string | null;
+}
+
+interface PendingTimesheet extends Timesheet {
+  profiles: { full_name: string } | null;
+}
+
+const ENTRY_SELECT = "task_id, started_at, minutes, is_billable, tasks(title, project_id, projects(name))";
+
+const STATUS_BADGES: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "warning" | "outline" }> = {
+  draft: { label: "Draft", variant: "outline" },
+  submitted: { label: "Submitted", variant: "warning" },
+  approved: { label: "Approved", variant: "default" },
+  rejected: { label: "Rejected", variant: "destructive" },
+};
+
+export default function Timesheets() {
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const weekParam = searchParams.get("week");
+  const weekStart = getWeekStart(weekParam ? parseISO(weekParam) : new Date());
+  const weekKey = format(weekStart, "yyyy-MM-dd");
+
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [entries, setEntries] = useState<TimesheetEntry[]>([]);
+  const [timesheet, setTimesheet] = useState<Timesheet | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const [pending, setPending] = useState<PendingTimesheet[]>([]);
+  const [reviewing, setReviewing] = useState<PendingTimesheet | null>(null);
+  const [reviewEntries, setReviewEntries] = useState<TimesheetEntry[]>([]);
+  const [rejectOpen, setRejectOpen] = useState(false);
+  const [rejectComment, setRejectComment] = useState("");
+
+  const isReviewer = userRole === "admin" || userRole === "manager";
+  const status = timesheet?.status ?? "draft";
+  const isFutureWeek = isAfter(weekStart, new Date());
+
+  const showError = useCallback(
+    (error: { message?: string }, fallback: string) =>
+      toast({
+        title: "Error",
+        description: error.message || fallback,
+        variant: "destructive",
+      }),
+    [toast]
+  );
+
+  const fetchWeek = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const start = getWeekStart(parseISO(weekKey));
+      const [roleResult, entriesResult, timesheetResult] = await Promise.all([
+        supabase.from("user_roles").select("role").eq("user_id", user.id).maybeSingle(),
+        supabase
+          .from("time_entries")
+          .select(ENTRY_SELECT)
+          .eq("user_id", user.id)
+          .gte("started_at", start.toISOString())
+          .lt("started_at", addDays(start, 7).toISOString()),
+        supabase
+          .from("timesheets")
+          .select("id, user_id, week_start, time_zone, starts_at, ends_at, status, review_comment, reviewed_at")
+          .eq("user_id", user.id)
+          .eq("week_start", weekKey)
+          .maybeSingle(),
+      ]);
+
+      if (entriesResult.error) throw entriesResult.error;
+      if (timesheetResult.error) throw timesheetResult.error;
+
+      setUserRole(roleResult.data?.role || null);
+      setEntries(entriesResult.data || []);
+      setTimesheet(timesheetResult.data);
+    } catch (error) {
+      console.error("Error fetching timesheet:", error);
+      showError(error, "Failed to load timesheet");
+    } finally {
+      setLoading(false);
+    }
+  }, [weekKey, showError]);
+
+  const fetchPending = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("timesheets")
+      .select(
+        "id, user_id, week_start, time_zone, starts_at, ends_at, status, review_comment, reviewed_at, profiles!timesheets_user_id_fkey(full_name)"
+      )
+      .eq("status", "submitted")
+      .order("week_start", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching timesheets to review:", error);
+      return;
+    }
+    setPending(data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchWeek();
+  }, [fetchWeek]);
+
+  useEffect(() => {
+    if (isReviewer) fetchPending();
+  }, [isReviewer, fetchPending]);
+
+  const goToWeek = (date: Date) => setSearchParams({ week: format(getWeekStart(date), "yyyy-MM-dd") });
+
+  const handleSubmit = async () => {
+    setBusy(true);
+    const { error } = await supabase.rpc("submit_timesheet", {
+      _week_start: weekKey,
+      _time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+    setBusy(false);
+
+    if (error) {
+      console.error("Error submitting timesheet:", error);
+      showError(error, "Failed to submit timesheet");
+      return;
+    }
+    toast({ title: "Timesheet submitted", description: "Its time is locked while it is reviewed" });
+    fetchWeek();
+  };
+
+  const handleWithdraw = async () => {
+    if (!timesheet) return;
+    setBusy(true);
+    const { data, error } = await supabase.from("timesheets").delete().eq("id", timesheet.id).select("id");
+    setBusy(false);
+
+    if (error || !data || data.length === 0) {
+      console.error("Error withdrawing timesheet:", error);
+      showError(error || {}, "This timesheet has already been reviewed");
+      fetchWeek();
+      return;
+    }
+    toast({ title: "Timesheet withdrawn" });
+    fetchWeek();
+  };
+
+  const openReview = async (sheet: PendingTimesheet) => {
+    setReviewing(sheet);
+    setReviewEntries([]);
+
+    const { data, error } = await supabase
+      .from("time_entries")
+      .select(ENTRY_SELECT)
+      .eq("user_id", sheet.user_id)
+      .gte("started_at", sheet.starts_at)
+      .lt("started_at", sheet.ends_at);
+
+    if (error) {
+      console.error("Error fetching timesheet entries:", error);
+      showError(error, "Failed to load timesheet");
+      return;
+    }
+    setReviewEntries(data || []);
+  };
+
+  const handleReview = async (approve: boolean) => {
+    if (!reviewing) return;
+    setBusy(true);
+    const { error } = await supabase.rpc("review_timesheet", {
+      _timesheet_id: reviewing.id,
+      _approve: approve,
+      _comment: approve ? undefined : rejectComment.trim(),
+    });
+    setBusy(false);
+
+    if (error) {
+      console.error("Error reviewing timesheet:", error);
+      showError(error, "Failed to review timesheet");
+      return;
+    }
+
+    toast({
+      title: approve ? "Timesheet approved" : "Timesheet rejected",
+      description: `${reviewing.profiles?.full_name || "Unknown"}, week of ${format(parseISO(reviewing.week_start), "MMM d")}`,
+    });
+    setRejectOpen(false);
+    setRejectComment("");
+    setReviewing(null);
+    fetchPending();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-accent"></div>
+      </div>
+    );
+  }
+
+  const badge = STATUS_BADGES[status] || STATUS_BADGES.draft;
+
+  const myWeek = (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 space-y-0">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" title="Previous week" onClick={() => goToWeek(addWeeks(weekStart, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => goToWeek(new Date())}>
+            This week
+          </Button>
+          <Button variant="outline" size="icon" title="Next week" onClick={() => goToWeek(addWeeks(weekStart, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <CardTitle className="text-base sm:text-lg ml-2">
+            {format(weekStart, "MMM d")} – {format(addDays(weekStart, 6), "MMM d, yyyy")}
+          </CardTitle>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant={badge.variant}>{badge.label}</Badge>
+          {(status === "draft" || status === "rejected") && (
+            <Button size="sm" onClick={handleSubmit} disabled={busy || isFutureWeek}>
+              {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              {status === "rejected" ? "Resubmit" : "Submit Week"}
+            </Button>
+          )}
+          {status === "submitted" && (
+            <Button size="sm" variant="outline" onClick={handleWithdraw} disabled={busy}>
+              <Undo2 className="mr-2 h-4 w-4" />
+              Withdraw
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status === "rejected" && timesheet?.review_comment && (
+          <div className="rounded-md border border-destructive/50 bg-destructive/5 p-3 text-sm">
+            <p className="font-medium text-destructive">Rejected – fix your time and resubmit</p>
+            <p className="mt-1">{timesheet.review_comment}</p>
+          </div>
+        )}
+        {(status === "submitted" || status === "approved") && (
+          <p className="text-xs text-muted-foreground">
+            {status === "approved"
+              ? "This week is approved and its time is locked."
+              : "This week's time is locked while it is reviewed. Withdraw it to make changes."}
+          </p>
+        )}
+        <TimesheetGrid
+          entries={entries}
+          weekStart={weekStart}
+          timeZone={Intl.DateTimeFormat().resolvedOptions().timeZone}
+        />
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Timesheets</h1>
+        <p className="text-muted-foreground mt-1">Your time by week, submitted for approval</p>
+      </div>
+
+      {isReviewer ? (
+        <Tabs defaultValue="mine">
+          <TabsList>
+            <TabsTrigger value="mine">My Timesheet</TabsTrigger>
+            <TabsTrigger value="approvals">
+              <ClipboardCheck className="mr-2 h-4 w-4" />
+              Approvals{pending.length > 0 && ` (${pending.length})`}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="mine" className="mt-4">
+            {myWeek}
+          </TabsContent>
+
+          <TabsContent value="approvals" className="mt-4 space-y-4">
+            {pending.length === 0 && (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  No timesheets waiting for review
+                </CardContent>
+              </Card>
+            )}
+            {pending.map((sheet) => (
+              <Card key={sheet.id}>
+                <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 space-y-0">
+                  <div>
+                    <CardTitle className="text-base">{sheet.profiles?.full_name || "Unknown"}</CardTitle>
+                    <CardDescription>
+                      Week of {format(parseISO(sheet.week_start), "MMM d, yyyy")}
+                      {reviewing?.id === sheet.id && ` · ${formatMinutes(sumMinutes(reviewEntries))} logged`}
+                    </CardDescription>
+                  </div>
+                  {reviewing?.id === sheet.id ? (
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setRejectOpen(true)} disabled={busy}>
+                        <X className="mr-2 h-4 w-4" />
+                        Reject
+                      </Button>
+                      <Button size="sm" onClick={() => handleReview(true)} disabled={busy}>
+                        <Check className="mr-2 h-4 w-4" />
+                        Approve
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => openReview(sheet)}>
+                      Review
+                    </Button>
+                  )}
+                </CardHeader>
+                {reviewing?.id === sheet.id && (
+                  <CardContent>
+                    <TimesheetGrid
+                      entries={reviewEntries}
+                      weekStart={parseISO(sheet.week_start)}
+                      timeZone={sheet.time_zone}
+                    />
+                  </CardContent>
+                )}
+              </Card>
+            ))}
+          </TabsContent>
+        </Tabs>
+      ) : (
+        myWeek
+      )}
+
+      <Dialog open={rejectOpen} onOpenChange={setRejectOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject Timesheet</DialogTitle>
+            <DialogDescription>
+              {reviewing?.profiles?.full_name || "The submitter"} is notified with your comment and can resubmit
+              the week once it is fixed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-comment">Comment</Label>
+            <Textarea
+              id="reject-comment"
+              value={rejectComment}
+              onChange={(e) => setRejectComment(e.target.value)}
+              placeholder="What needs to change?"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={() => handleReview(false)} disabled={busy || !rejectComment.trim()}>
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
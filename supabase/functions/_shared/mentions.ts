@@ -0,0 +1,6 @@
+// Mentions are stored as @[Full Name](user-id), the same pattern as
+// src/lib/mentions.ts. Outside the app they become a plain "@Name", so user
+// ids don't leave it.
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([0-9a-f-]{36})\)/g;
+
+export const stripMentions = (text: string) => text.replace(MENTION_PATTERN, "@$1");
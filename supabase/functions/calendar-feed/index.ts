@@ -0,0 +1,170 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stripMentions } from "../_shared/mentions.ts";
+
+// Serves a user's private iCalendar feed: GET /calendar-feed?token=<token>
+// Calendar apps can't send a JWT, so the token in the URL is the credential.
+
+interface FeedTask {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: string;
+  due_date: string;
+  is_milestone: boolean;
+  is_done: boolean;
+  project_id: string;
+  project_name: string;
+  updated_at: string;
+}
+
+// Escapes TEXT values (RFC 5545 section 3.3.11)
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Folds lines longer than 75 octets (RFC 5545 section 3.1)
+const foldLine = (line: string) => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = new TextEncoder().encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    if (currentBytes + charBytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+// UTC timestamp, e.g. 20261018T093000Z
+const formatTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// Calendar date of an instant in the subscriber's time zone, e.g. 20261018
+const formatDate = (date: Date, timeZone: string) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" })
+    .format(date)
+    .replace(/-/g, "");
+
+const nextDay = (date: string) => {
+  const d = new Date(Date.UTC(+date.slice(0, 4), +date.slice(4, 6) - 1, +date.slice(6, 8) + 1));
+  return d.toISOString().slice(0, 10).replace(/-/g, "");
+};
+
+const buildCalendar = (name: string, tasks: FeedTask[], timeZone: string, appUrl: string | undefined) => {
+  const now = formatTimestamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//AgencyFlow//Task Due Dates//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const task of tasks) {
+    const day = formatDate(new Date(task.due_date), timeZone);
+    const url = appUrl ? `${appUrl.replace(/\/$/, "")}/projects/${task.project_id}/tasks/${task.id}` : null;
+    const details = [
+      `Project: ${task.project_name}`,
+      `Status: ${task.status}`,
+      `Priority: ${task.priority}`,
+      url,
+      task.description ? `\n${stripMentions(task.description)}` : null,
+    ].filter(Boolean);
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${task.id}@agencyflow`,
+      `DTSTAMP:${now}`,
+      `LAST-MODIFIED:${formatTimestamp(new Date(task.updated_at))}`,
+      `DTSTART;VALUE=DATE:${day}`,
+      `DTEND;VALUE=DATE:${nextDay(day)}`,
+      `SUMMARY:${escapeText(`${task.is_done ? "✓ " : ""}${task.is_milestone ? "◆ " : ""}${task.title}`)}`,
+      `DESCRIPTION:${escapeText(details.join("\n"))}`,
+      "TRANSP:TRANSPARENT",
+      ...(url ? [`URL:${url}`] : []),
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token) {
+      return new Response("Missing token", { status: 400 });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    // Optional, e.g. https://app.example.com; adds a link to each event
+    const appUrl = Deno.env.get("APP_URL");
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    const { data: feed, error: feedError } = await supabaseAdmin
+      .from("calendar_feed_tokens")
+      .select("id, user_id, project_id, time_zone, profiles(is_active), projects(name)")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+
+    // Revoked tokens and deactivated users get the same answer as unknown tokens
+    if (!feed || !feed.profiles?.is_active) {
+      return new Response("Calendar feed not found", { status: 404 });
+    }
+
+    const { data: tasks, error: tasksError } = await supabaseAdmin.rpc("get_calendar_feed_tasks", {
+      _user_id: feed.user_id,
+      _project_id: feed.project_id,
+    });
+
+    if (tasksError) throw tasksError;
+
+    await supabaseAdmin
+      .from("calendar_feed_tokens")
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq("id", feed.id);
+
+    const name = feed.project_id ? `AgencyFlow: ${feed.projects?.name ?? "Project"}` : "AgencyFlow: My tasks";
+    const body = buildCalendar(name, (tasks || []) as FeedTask[], feed.time_zone, appUrl);
+
+    return new Response(req.method === "HEAD" ? null : body, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="agencyflow.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error in calendar-feed function:", error);
+    return new Response("Failed to build calendar feed", { status: 500 });
+  }
+};
+
+serve(handler);
@@ -0,0 +1,224 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stripMentions } from "../_shared/mentions.ts";
+
+// Review links let clients without an account approve tasks. The app's
+// /review/:token page and the "Share for Review" dialog post one of:
+//   { action: "create", taskIds, expiresAt, recipientName }  (signed-in manager)
+//   { action: "view", token }
+//   { action: "review", token, taskId, approve, comment, reviewerName }
+// A token is "<link id>.<expiry in unix seconds>.<signature>", an HMAC-SHA256
+// made with the REVIEW_LINK_SECRET secret, so links can't be forged or
+// extended. Revoked and expired links are also refused by the database.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, "+").replace(/_/g, "/")), (char) => char.charCodeAt(0));
+
+const getSigningKey = (secret: string) =>
+  crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+
+const signToken = async (key: CryptoKey, linkId: string, expiresAt: Date) => {
+  const payload = `${linkId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  return `${payload}.${toBase64Url(signature)}`;
+};
+
+// The link id of a token with a valid signature that hasn't expired, else null
+const verifyToken = async (key: CryptoKey, token: unknown) => {
+  if (typeof token !== "string") return null;
+  const [linkId, expires, signature, ...rest] = token.split(".");
+  if (!linkId || !expires || !signature || rest.length > 0) return null;
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = fromBase64Url(signature);
+  } catch {
+    return null;
+  }
+
+  const valid = await crypto.subtle.verify("HMAC", key, signatureBytes, encoder.encode(`${linkId}.${expires}`));
+  if (!valid || Number(expires) * 1000 <= Date.now()) return null;
+  return linkId;
+};
+
+const ATTACHMENTS_BUCKET = "task-attachments";
+// Long enough to look through the files after opening the page
+const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+const LINK_NOT_FOUND = "This review link has expired or is no longer valid";
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const secret = Deno.env.get("REVIEW_LINK_SECRET");
+
+    if (!secret) {
+      console.error("REVIEW_LINK_SECRET is not set");
+      return json({ error: "Review links are not configured" }, 500);
+    }
+
+    const key = await getSigningKey(secret);
+    const body = await req.json();
+
+    if (body.action === "create") {
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader) {
+        return json({ error: "No authorization header" }, 401);
+      }
+
+      const expiresAt = new Date(body.expiresAt);
+      if (Number.isNaN(expiresAt.getTime())) {
+        return json({ error: "A valid expiry is required" }, 400);
+      }
+
+      // Acts as the signed-in user, so create_review_link checks their role
+      const supabaseUser = createClient(supabaseUrl, anonKey, {
+        global: { headers: { Authorization: authHeader } },
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      });
+
+      const { data: linkId, error } = await supabaseUser.rpc("create_review_link", {
+        _task_ids: body.taskIds,
+        _expires_at: expiresAt.toISOString(),
+        _recipient_name: body.recipientName || null,
+      });
+
+      if (error) {
+        return json({ error: error.message }, 400);
+      }
+
+      return json({ token: await signToken(key, linkId, expiresAt), expiresAt: expiresAt.toISOString() });
+    }
+
+    const linkId = await verifyToken(key, body.token);
+    if (!linkId) {
+      return json({ error: LINK_NOT_FOUND }, 404);
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    if (body.action === "view") {
+      const { data: link, error } = await supabaseAdmin
+        .from("review_links")
+        .select(
+          "id, recipient_name, expires_at, revoked_at, projects(name, brand_color), review_link_tasks(decision, reviewed_at, tasks(id, title, description, due_date, workflow_status:project_statuses!tasks_project_status_fkey(is_client_review), task_attachments(id, file_name, mime_type, size_bytes, storage_path)))"
+        )
+        .eq("id", linkId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!link || link.revoked_at || new Date(link.expires_at).getTime() <= Date.now()) {
+        return json({ error: LINK_NOT_FOUND }, 404);
+      }
+
+      await supabaseAdmin
+        .from("review_links")
+        .update({ last_opened_at: new Date().toISOString() })
+        .eq("id", link.id);
+
+      const items = (link.review_link_tasks || []).filter((item) => item.tasks);
+
+      // The bucket is private, so attachments are handed out as signed URLs
+      const paths = items.flatMap((item) => (item.tasks.task_attachments || []).map((a) => a.storage_path));
+      const urls: Record<string, string> = {};
+      if (paths.length > 0) {
+        const { data: signed, error: signError } = await supabaseAdmin.storage
+          .from(ATTACHMENTS_BUCKET)
+          .createSignedUrls(paths, ATTACHMENT_URL_TTL_SECONDS);
+
+        if (signError) throw signError;
+        for (const file of signed || []) {
+          if (file.path && file.signedUrl) urls[file.path] = file.signedUrl;
+        }
+      }
+
+      // Only what the reviewer needs; workflow status names stay internal
+      const tasks = items
+        .map((item) => ({
+          id: item.tasks.id,
+          title: item.tasks.title,
+          description: item.tasks.description && stripMentions(item.tasks.description),
+          due_date: item.tasks.due_date,
+          decision: item.decision,
+          reviewed_at: item.reviewed_at,
+          awaiting_review: item.tasks.workflow_status?.is_client_review ?? false,
+          attachments: (item.tasks.task_attachments || [])
+            .filter((a) => urls[a.storage_path])
+            .map((a) => ({
+              id: a.id,
+              file_name: a.file_name,
+              mime_type: a.mime_type,
+              size_bytes: a.size_bytes,
+              url: urls[a.storage_path],
+            })),
+        }))
+        .sort((a, b) => a.title.localeCompare(b.title));
+
+      return json({
+        recipientName: link.recipient_name,
+        expiresAt: link.expires_at,
+        project: { name: link.projects?.name ?? "Project", brandColor: link.projects?.brand_color ?? null },
+        tasks,
+      });
+    }
+
+    if (body.action === "review") {
+      const { error } = await supabaseAdmin.rpc("review_link_task", {
+        _link_id: linkId,
+        _task_id: body.taskId,
+        _approve: body.approve === true,
+        _comment: body.comment || null,
+        _reviewer_name: body.reviewerName || null,
+      });
+
+      if (error) {
+        return json({ error: error.message }, 400);
+      }
+
+      return json({ success: true });
+    }
+
+    return json({ error: "Unknown action" }, 400);
+  } catch (error: unknown) {
+    console.error("Error in review-link function:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+};
+
+serve(handler);
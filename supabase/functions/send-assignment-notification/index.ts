@@ -14,6 +14,8 @@ interface AssignmentNotification {
   dueDate?: string;
   priority: string;
   action: "assigned" | "unassigned";
+  // Absolute link to the task, e.g. https://app.example.com/projects/<id>/tasks/<id>
+  taskUrl?: string;
 }
 
 async function sendEmail(to: string, subject: string, body: string) {
@@ -134,7 +136,7 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    const { taskId, taskTitle, assigneeEmail, assigneeName, projectName, dueDate, priority, action } = body;
+    const { taskId, taskTitle, assigneeEmail, assigneeName, projectName, dueDate, priority, action, taskUrl } = body;
 
     // Validate required fields
     if (!taskId || !assigneeEmail || !action) {
@@ -168,7 +170,11 @@ const handler = async (req: Request): Promise<Response> => {
               ${dueDate ? `<p><strong>Due Date:</strong> ${new Date(dueDate).toLocaleDateString()}</p>` : ''}
             </div>
             
-            <p>Please log in to AgencyFlow to view the task details and start working on it.</p>
+            ${taskUrl ? `
+            <p style="margin: 20px 0;">
+              <a href="${taskUrl}" style="background: #0f172a; color: #ffffff; padding: 10px 20px; border-radius: 6px; text-decoration: none; display: inline-block;">View Task</a>
+            </p>
+            ` : `<p>Please log in to AgencyFlow to view the task details and start working on it.</p>`}
             
             <p style="margin-top: 30px;">
               Best regards,<br>
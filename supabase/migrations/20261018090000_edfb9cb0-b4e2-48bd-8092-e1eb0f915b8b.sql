@@ -0,0 +1,114 @@
+-- Automatic audit trail for tasks and task assignees
+-- Logs are written by triggers so every change is recorded, whether it comes
+-- from the Kanban board, the task dialog or a direct API call.
+
+-- Changes made by the service role (edge functions, scheduled jobs) have no
+-- auth.uid(), so the acting user is optional
+ALTER TABLE public.task_logs ALTER COLUMN user_id DROP NOT NULL;
+
+-- Helper used by the audit triggers to write a single log row
+CREATE OR REPLACE FUNCTION public.write_task_log(
+  _task_id uuid,
+  _action_type text,
+  _old_value text,
+  _new_value text,
+  _details jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.task_logs (task_id, user_id, action_type, old_value, new_value, details)
+  VALUES (_task_id, auth.uid(), _action_type, _old_value, _new_value, _details);
+$$;
+
+-- Only triggers may write logs, never clients through the API
+REVOKE EXECUTE ON FUNCTION public.write_task_log(uuid, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Log task creation and changes to tracked task fields
+CREATE OR REPLACE FUNCTION public.log_task_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.write_task_log(NEW.id, 'created', NULL, NEW.title);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.write_task_log(NEW.id, 'status', OLD.status::text, NEW.status::text);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    PERFORM public.write_task_log(NEW.id, 'priority', OLD.priority::text, NEW.priority::text);
+  END IF;
+
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    -- Store ISO 8601 timestamps so the client can format them
+    PERFORM public.write_task_log(
+      NEW.id, 'due_date',
+      to_jsonb(OLD.due_date) #>> '{}',
+      to_jsonb(NEW.due_date) #>> '{}'
+    );
+  END IF;
+
+  IF NEW.is_blocked IS DISTINCT FROM OLD.is_blocked THEN
+    PERFORM public.write_task_log(NEW.id, 'blocked', OLD.is_blocked::text, NEW.is_blocked::text);
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title THEN
+    PERFORM public.write_task_log(NEW.id, 'title', OLD.title, NEW.title);
+  END IF;
+
+  IF NEW.description IS DISTINCT FROM OLD.description THEN
+    PERFORM public.write_task_log(NEW.id, 'description', OLD.description, NEW.description);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_task_changes
+  AFTER INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.log_task_changes();
+
+-- Log assignments and unassignments with the assignee's name
+CREATE OR REPLACE FUNCTION public.log_task_assignee_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assignee_name text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT full_name INTO _assignee_name FROM public.profiles WHERE id = NEW.user_id;
+    PERFORM public.write_task_log(
+      NEW.task_id, 'assignee', NULL, _assignee_name,
+      jsonb_build_object('user_id', NEW.user_id)
+    );
+    RETURN NEW;
+  END IF;
+
+  -- Skip rows removed by the cascade when the task itself is deleted
+  IF NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = OLD.task_id) THEN
+    RETURN OLD;
+  END IF;
+
+  SELECT full_name INTO _assignee_name FROM public.profiles WHERE id = OLD.user_id;
+  PERFORM public.write_task_log(
+    OLD.task_id, 'assignee', _assignee_name, NULL,
+    jsonb_build_object('user_id', OLD.user_id)
+  );
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER log_task_assignee_changes
+  AFTER INSERT OR DELETE ON public.task_assignees
+  FOR EACH ROW EXECUTE FUNCTION public.log_task_assignee_changes();
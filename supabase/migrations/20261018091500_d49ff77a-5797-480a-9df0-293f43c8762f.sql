@@ -0,0 +1,136 @@
+-- Threaded task comments
+-- Replaces the single free-text tasks.comments field with an append-only
+-- thread in task_comments, supporting replies and editing own comments.
+
+ALTER TABLE public.task_comments
+ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES public.task_comments(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_task_id ON public.task_comments(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_comments_parent_id ON public.task_comments(parent_id);
+
+-- Move existing free-text comments into the thread, attributed to the task
+-- creator or the first assignee. Tasks with neither keep their legacy value.
+INSERT INTO public.task_comments (task_id, user_id, content, created_at, updated_at)
+SELECT
+  t.id,
+  COALESCE(
+    t.created_by,
+    t.assignee_id,
+    (SELECT ta.user_id FROM public.task_assignees ta WHERE ta.task_id = t.id ORDER BY ta.created_at LIMIT 1)
+  ),
+  t.comments,
+  t.updated_at,
+  t.updated_at
+FROM public.tasks t
+WHERE NULLIF(trim(t.comments), '') IS NOT NULL
+AND COALESCE(
+  t.created_by,
+  t.assignee_id,
+  (SELECT ta.user_id FROM public.task_assignees ta WHERE ta.task_id = t.id ORDER BY ta.created_at LIMIT 1)
+) IS NOT NULL;
+
+-- Replies must belong to the same task and only go one level deep
+CREATE OR REPLACE FUNCTION public.validate_task_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _parent public.task_comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _parent FROM public.task_comments WHERE id = NEW.parent_id;
+
+  IF _parent.task_id IS DISTINCT FROM NEW.task_id THEN
+    RAISE EXCEPTION 'Replies must belong to the same task as their parent comment';
+  END IF;
+
+  IF _parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Replies can only be added to top-level comments';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_task_comment_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.task_comments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_task_comment_parent();
+
+CREATE TRIGGER update_task_comments_updated_at
+  BEFORE UPDATE ON public.task_comments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record new comments in the task history under the "comment" action
+CREATE OR REPLACE FUNCTION public.log_task_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.write_task_log(
+    NEW.task_id, 'comment', NULL, left(NEW.content, 280),
+    jsonb_build_object('comment_id', NEW.id, 'parent_id', NEW.parent_id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_task_comment
+  AFTER INSERT ON public.task_comments
+  FOR EACH ROW EXECUTE FUNCTION public.log_task_comment();
+
+-- Align comment visibility with the tasks policies (admins and managers see all)
+DROP POLICY IF EXISTS "Users can view comments on accessible tasks" ON public.task_comments;
+DROP POLICY IF EXISTS "Users can insert comments on accessible tasks" ON public.task_comments;
+
+CREATE POLICY "Users can view comments on accessible tasks"
+ON public.task_comments
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_comments.task_id
+    AND (
+      has_role(auth.uid(), 'admin')
+      OR has_role(auth.uid(), 'manager')
+      OR is_project_member(auth.uid(), tasks.project_id)
+    )
+  )
+);
+
+CREATE POLICY "Users can insert comments on accessible tasks"
+ON public.task_comments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_comments.task_id
+    AND (
+      has_role(auth.uid(), 'admin')
+      OR has_role(auth.uid(), 'manager')
+      OR is_project_member(auth.uid(), tasks.project_id)
+    )
+  )
+);
+
+CREATE POLICY "Users can update own comments"
+ON public.task_comments
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own comments"
+ON public.task_comments
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
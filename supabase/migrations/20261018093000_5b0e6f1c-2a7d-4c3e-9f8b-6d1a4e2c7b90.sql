@@ -0,0 +1,37 @@
+-- Assignees live in task_assignees; copy the legacy single assignee over so nothing is lost.
+-- The audit trigger is paused so the backfill doesn't show up as new assignments in task history.
+ALTER TABLE public.task_assignees DISABLE TRIGGER log_task_assignee_changes;
+
+INSERT INTO public.task_assignees (task_id, user_id)
+SELECT id, assignee_id
+FROM public.tasks
+WHERE assignee_id IS NOT NULL
+ON CONFLICT (task_id, user_id) DO NOTHING;
+
+ALTER TABLE public.task_assignees ENABLE TRIGGER log_task_assignee_changes;
+
+COMMENT ON COLUMN public.tasks.assignee_id IS 'Deprecated: use task_assignees. Kept for historical data only.';
+
+CREATE INDEX IF NOT EXISTS idx_task_assignees_user_id ON public.task_assignees(user_id);
+
+-- Staff could only update tasks through the legacy column, so co-assignees were locked out
+DROP POLICY IF EXISTS "Staff can update assigned tasks" ON public.tasks;
+
+CREATE POLICY "Staff can update assigned tasks"
+ON public.tasks
+FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.task_assignees
+    WHERE task_assignees.task_id = tasks.id
+    AND task_assignees.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.task_assignees
+    WHERE task_assignees.task_id = tasks.id
+    AND task_assignees.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,17 @@
+-- Stream task and assignee changes to the Kanban board
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'tasks'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.tasks;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'task_assignees'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.task_assignees;
+  END IF;
+END $$;
@@ -0,0 +1,149 @@
+-- Manual ordering of tasks within a Kanban column.
+-- Positions are sparse floats so a card can be dropped between two others by
+-- taking the midpoint; a column is renumbered only when the gap runs out.
+ALTER TABLE public.tasks ADD COLUMN position double precision;
+
+-- Keep the current board order (newest first) as the starting order
+UPDATE public.tasks t
+SET position = ordered.rn * 1024
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY project_id, status ORDER BY created_at DESC) AS rn
+  FROM public.tasks
+) ordered
+WHERE ordered.id = t.id;
+
+CREATE INDEX idx_tasks_project_status_position ON public.tasks(project_id, status, position);
+
+-- New tasks, and tasks moved to another column without an explicit position,
+-- go to the top of their column
+CREATE OR REPLACE FUNCTION public.set_task_position()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.position IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.status IS NOT DISTINCT FROM OLD.status
+    OR NEW.position IS DISTINCT FROM OLD.position
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MIN(position), 2048) - 1024 INTO NEW.position
+  FROM public.tasks
+  WHERE project_id = NEW.project_id
+    AND status = NEW.status
+    AND id <> NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_task_position
+  BEFORE INSERT OR UPDATE OF status, position ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.set_task_position();
+
+-- Renumber a column, keeping its order, when there is no room left between two cards
+CREATE OR REPLACE FUNCTION public.rebalance_task_positions(_project_id uuid, _status task_status)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'manager'::app_role)
+    OR is_project_member(auth.uid(), _project_id)
+  ) THEN
+    RAISE EXCEPTION 'You do not have access to this project';
+  END IF;
+
+  UPDATE public.tasks t
+  SET position = ordered.rn * 1024
+  FROM (
+    SELECT id, row_number() OVER (ORDER BY position, created_at) AS rn
+    FROM public.tasks
+    WHERE project_id = _project_id AND status = _status
+  ) ordered
+  WHERE ordered.id = t.id;
+END;
+$$;
+
+-- Move a task to a column, between two neighbouring cards (either may be null
+-- for the top or bottom of the column). Runs with the caller's rights so the
+-- usual task update policies apply to the moved task.
+CREATE OR REPLACE FUNCTION public.move_task(
+  _task_id uuid,
+  _status task_status,
+  _prev_task_id uuid DEFAULT NULL,
+  _next_task_id uuid DEFAULT NULL
+)
+RETURNS double precision
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _project_id uuid;
+  _prev_position double precision;
+  _next_position double precision;
+  _position double precision;
+  _attempt integer := 0;
+BEGIN
+  SELECT project_id INTO _project_id FROM public.tasks WHERE id = _task_id;
+  IF _project_id IS NULL THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  -- Serialise moves within a project so concurrent drops can't compute the same slot
+  PERFORM pg_advisory_xact_lock(hashtext('move_task:' || _project_id::text));
+
+  LOOP
+    -- Neighbours are read after taking the lock, so they reflect any move that just finished.
+    -- A neighbour that has since left the column is ignored.
+    SELECT position INTO _prev_position FROM public.tasks
+    WHERE id = _prev_task_id AND project_id = _project_id AND status = _status AND id <> _task_id;
+
+    SELECT position INTO _next_position FROM public.tasks
+    WHERE id = _next_task_id AND project_id = _project_id AND status = _status AND id <> _task_id;
+
+    IF _prev_position IS NULL AND _next_position IS NULL THEN
+      SELECT COALESCE(MAX(position), 0) + 1024 INTO _position
+      FROM public.tasks
+      WHERE project_id = _project_id AND status = _status AND id <> _task_id;
+    ELSIF _prev_position IS NULL THEN
+      _position := _next_position - 1024;
+    ELSIF _next_position IS NULL THEN
+      _position := _prev_position + 1024;
+    ELSE
+      _position := (_prev_position + _next_position) / 2;
+    END IF;
+
+    EXIT WHEN _prev_position IS NULL
+      OR _next_position IS NULL
+      OR (_position > _prev_position AND _position < _next_position);
+
+    _attempt := _attempt + 1;
+    IF _attempt > 1 THEN
+      RAISE EXCEPTION 'Could not find a position between the given tasks';
+    END IF;
+
+    PERFORM public.rebalance_task_positions(_project_id, _status);
+  END LOOP;
+
+  UPDATE public.tasks
+  SET status = _status, position = _position
+  WHERE id = _task_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You do not have permission to move this task';
+  END IF;
+
+  RETURN _position;
+END;
+$$;
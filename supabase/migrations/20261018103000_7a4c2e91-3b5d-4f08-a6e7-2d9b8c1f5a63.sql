@@ -0,0 +1,256 @@
+-- Per-project workflow statuses, replacing the fixed task_status enum
+CREATE TABLE public.project_statuses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  color TEXT NOT NULL DEFAULT '#64748b' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  position INTEGER NOT NULL DEFAULT 0,
+  is_done BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (project_id, name)
+);
+
+CREATE INDEX idx_project_statuses_project_id ON public.project_statuses(project_id, position);
+
+ALTER TABLE public.project_statuses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view statuses of accessible projects"
+ON public.project_statuses
+FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  has_role(auth.uid(), 'manager'::app_role) OR
+  is_project_member(auth.uid(), project_id)
+);
+
+CREATE POLICY "Admins and managers can manage project statuses"
+ON public.project_statuses
+FOR ALL
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  (is_project_member(auth.uid(), project_id) AND has_role(auth.uid(), 'manager'::app_role))
+)
+WITH CHECK (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  (is_project_member(auth.uid(), project_id) AND has_role(auth.uid(), 'manager'::app_role))
+);
+
+CREATE TRIGGER update_project_statuses_updated_at
+  BEFORE UPDATE ON public.project_statuses
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The default pipeline every new project starts with
+CREATE OR REPLACE FUNCTION public.seed_project_statuses(_project_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.project_statuses (project_id, name, color, position, is_done)
+  VALUES
+    (_project_id, 'Todo', '#94a3b8', 0, false),
+    (_project_id, 'In Progress', '#f59e0b', 1, false),
+    (_project_id, 'Internal Review', '#6366f1', 2, false),
+    (_project_id, 'Pending Client Review', '#8b5cf6', 3, false),
+    (_project_id, 'Done', '#22c55e', 4, true)
+  ON CONFLICT (project_id, name) DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_project_statuses(uuid) FROM PUBLIC, anon, authenticated;
+
+SELECT public.seed_project_statuses(id) FROM public.projects;
+
+CREATE OR REPLACE FUNCTION public.handle_new_project_statuses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_project_statuses(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER seed_project_statuses
+  AFTER INSERT ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_project_statuses();
+
+-- tasks.status becomes a plain name that must exist in the task's project workflow.
+-- Renaming a status cascades to its tasks; deleting a status that still has tasks is refused.
+DROP TRIGGER set_task_position ON public.tasks;
+DROP FUNCTION public.move_task(uuid, task_status, uuid, uuid);
+DROP FUNCTION public.rebalance_task_positions(uuid, task_status);
+
+ALTER TABLE public.tasks ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.tasks ALTER COLUMN status TYPE text USING status::text;
+
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_project_status_fkey
+  FOREIGN KEY (project_id, status)
+  REFERENCES public.project_statuses(project_id, name)
+  ON UPDATE CASCADE;
+
+DROP TYPE public.task_status;
+
+-- Tasks created without a status start in the first column of their project
+CREATE OR REPLACE FUNCTION public.set_task_default_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NULL THEN
+    SELECT name INTO NEW.status
+    FROM public.project_statuses
+    WHERE project_id = NEW.project_id
+    ORDER BY position, created_at
+    LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_task_default_status
+  BEFORE INSERT ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.set_task_default_status();
+
+CREATE OR REPLACE FUNCTION public.set_task_position()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.position IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.status IS NOT DISTINCT FROM OLD.status
+    OR NEW.position IS DISTINCT FROM OLD.position
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- A renamed status cascades here; the task stays where it was
+  IF TG_OP = 'UPDATE' AND NOT EXISTS (
+    SELECT 1 FROM public.project_statuses
+    WHERE project_id = OLD.project_id AND name = OLD.status
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MIN(position), 2048) - 1024 INTO NEW.position
+  FROM public.tasks
+  WHERE project_id = NEW.project_id
+    AND status = NEW.status
+    AND id <> NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_task_position
+  BEFORE INSERT OR UPDATE OF status, position ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.set_task_position();
+
+CREATE OR REPLACE FUNCTION public.rebalance_task_positions(_project_id uuid, _status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'manager'::app_role)
+    OR is_project_member(auth.uid(), _project_id)
+  ) THEN
+    RAISE EXCEPTION 'You do not have access to this project';
+  END IF;
+
+  UPDATE public.tasks t
+  SET position = ordered.rn * 1024
+  FROM (
+    SELECT id, row_number() OVER (ORDER BY position, created_at) AS rn
+    FROM public.tasks
+    WHERE project_id = _project_id AND status = _status
+  ) ordered
+  WHERE ordered.id = t.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.move_task(
+  _task_id uuid,
+  _status text,
+  _prev_task_id uuid DEFAULT NULL,
+  _next_task_id uuid DEFAULT NULL
+)
+RETURNS double precision
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _project_id uuid;
+  _prev_position double precision;
+  _next_position double precision;
+  _position double precision;
+  _attempt integer := 0;
+BEGIN
+  SELECT project_id INTO _project_id FROM public.tasks WHERE id = _task_id;
+  IF _project_id IS NULL THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  -- Serialise moves within a project so concurrent drops can't compute the same slot
+  PERFORM pg_advisory_xact_lock(hashtext('move_task:' || _project_id::text));
+
+  LOOP
+    -- Neighbours are read after taking the lock, so they reflect any move that just finished.
+    -- A neighbour that has since left the column is ignored.
+    SELECT position INTO _prev_position FROM public.tasks
+    WHERE id = _prev_task_id AND project_id = _project_id AND status = _status AND id <> _task_id;
+
+    SELECT position INTO _next_position FROM public.tasks
+    WHERE id = _next_task_id AND project_id = _project_id AND status = _status AND id <> _task_id;
+
+    IF _prev_position IS NULL AND _next_position IS NULL THEN
+      SELECT COALESCE(MAX(position), 0) + 1024 INTO _position
+      FROM public.tasks
+      WHERE project_id = _project_id AND status = _status AND id <> _task_id;
+    ELSIF _prev_position IS NULL THEN
+      _position := _next_position - 1024;
+    ELSIF _next_position IS NULL THEN
+      _position := _prev_position + 1024;
+    ELSE
+      _position := (_prev_position + _next_position) / 2;
+    END IF;
+
+    EXIT WHEN _prev_position IS NULL
+      OR _next_position IS NULL
+      OR (_position > _prev_position AND _position < _next_position);
+
+    _attempt := _attempt + 1;
+    IF _attempt > 1 THEN
+      RAISE EXCEPTION 'Could not find a position between the given tasks';
+    END IF;
+
+    PERFORM public.rebalance_task_positions(_project_id, _status);
+  END LOOP;
+
+  UPDATE public.tasks
+  SET status = _status, position = _position
+  WHERE id = _task_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You do not have permission to move this task';
+  END IF;
+
+  RETURN _position;
+END;
+$$;
@@ -0,0 +1,270 @@
+-- Workflow transition rules. Once a project defines at least one rule, tasks may
+-- only move along the listed from -> to transitions. Projects without rules are unrestricted.
+CREATE TABLE public.project_status_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  from_status_id UUID NOT NULL REFERENCES public.project_statuses(id) ON DELETE CASCADE,
+  to_status_id UUID NOT NULL REFERENCES public.project_statuses(id) ON DELETE CASCADE,
+  -- Empty means any user who can update the task
+  allowed_roles app_role[] NOT NULL DEFAULT '{}',
+  requires_note BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (from_status_id, to_status_id),
+  CHECK (from_status_id <> to_status_id)
+);
+
+CREATE INDEX idx_project_status_transitions_project_id ON public.project_status_transitions(project_id);
+
+ALTER TABLE public.project_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view transitions of accessible projects"
+ON public.project_status_transitions
+FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  has_role(auth.uid(), 'manager'::app_role) OR
+  is_project_member(auth.uid(), project_id)
+);
+
+CREATE POLICY "Admins and managers can manage transitions"
+ON public.project_status_transitions
+FOR ALL
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  (is_project_member(auth.uid(), project_id) AND has_role(auth.uid(), 'manager'::app_role))
+)
+WITH CHECK (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  (is_project_member(auth.uid(), project_id) AND has_role(auth.uid(), 'manager'::app_role))
+);
+
+-- Both ends of a rule must belong to the rule's project
+CREATE OR REPLACE FUNCTION public.validate_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.project_statuses
+    WHERE id = NEW.from_status_id AND project_id = NEW.project_id
+  ) OR NOT EXISTS (
+    SELECT 1 FROM public.project_statuses
+    WHERE id = NEW.to_status_id AND project_id = NEW.project_id
+  ) THEN
+    RAISE EXCEPTION 'Transition statuses must belong to the same project';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_status_transition
+  BEFORE INSERT OR UPDATE ON public.project_status_transitions
+  FOR EACH ROW EXECUTE FUNCTION public.validate_status_transition();
+
+-- Note supplied with the latest status change (e.g. a review note when moving to Done)
+ALTER TABLE public.tasks ADD COLUMN status_note TEXT;
+
+-- Enforce transition rules on every status change, whatever the client.
+-- Errors use custom SQLSTATEs so the app can tell them apart:
+--   AF001 - transition not allowed (or not allowed for the user's role)
+--   AF002 - a note is required for this transition
+-- Changes made without a user (service role, scheduled jobs) or by trusted
+-- database functions that set app.bypass_workflow = 'on' are not checked.
+CREATE OR REPLACE FUNCTION public.enforce_task_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _from_status public.project_statuses%ROWTYPE;
+  _to_status public.project_statuses%ROWTYPE;
+  _rule public.project_status_transitions%ROWTYPE;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- A note only counts for the status change it was sent with
+  IF NEW.status_note IS NOT DISTINCT FROM OLD.status_note THEN
+    NEW.status_note := NULL;
+  END IF;
+
+  IF auth.uid() IS NULL OR current_setting('app.bypass_workflow', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _from_status FROM public.project_statuses
+  WHERE project_id = OLD.project_id AND name = OLD.status;
+
+  -- The old status was renamed and this update is the cascade
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _to_status FROM public.project_statuses
+  WHERE project_id = NEW.project_id AND name = NEW.status;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.project_status_transitions WHERE project_id = NEW.project_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _rule FROM public.project_status_transitions
+  WHERE from_status_id = _from_status.id AND to_status_id = _to_status.id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tasks cannot move from "%" to "%" in this project', OLD.status, NEW.status
+      USING ERRCODE = 'AF001';
+  END IF;
+
+  IF cardinality(_rule.allowed_roles) > 0 AND NOT EXISTS (
+    SELECT 1 FROM unnest(_rule.allowed_roles) AS r(role)
+    WHERE has_role(auth.uid(), r.role)
+  ) THEN
+    RAISE EXCEPTION 'Only % can move tasks from "%" to "%"',
+      array_to_string(_rule.allowed_roles, ', '), OLD.status, NEW.status
+      USING ERRCODE = 'AF001';
+  END IF;
+
+  IF _rule.requires_note AND btrim(COALESCE(NEW.status_note, '')) = '' THEN
+    RAISE EXCEPTION 'A note is required to move tasks from "%" to "%"', OLD.status, NEW.status
+      USING ERRCODE = 'AF002';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_task_transition
+  BEFORE UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_task_transition();
+
+-- Record the note alongside the status change in task history
+CREATE OR REPLACE FUNCTION public.log_task_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.write_task_log(NEW.id, 'created', NULL, NEW.title);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.write_task_log(
+      NEW.id, 'status', OLD.status::text, NEW.status::text,
+      CASE WHEN NEW.status_note IS NOT NULL THEN jsonb_build_object('note', NEW.status_note) END
+    );
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    PERFORM public.write_task_log(NEW.id, 'priority', OLD.priority::text, NEW.priority::text);
+  END IF;
+
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    -- Store ISO 8601 timestamps so the client can format them
+    PERFORM public.write_task_log(
+      NEW.id, 'due_date',
+      to_jsonb(OLD.due_date) #>> '{}',
+      to_jsonb(NEW.due_date) #>> '{}'
+    );
+  END IF;
+
+  IF NEW.is_blocked IS DISTINCT FROM OLD.is_blocked THEN
+    PERFORM public.write_task_log(NEW.id, 'blocked', OLD.is_blocked::text, NEW.is_blocked::text);
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title THEN
+    PERFORM public.write_task_log(NEW.id, 'title', OLD.title, NEW.title);
+  END IF;
+
+  IF NEW.description IS DISTINCT FROM OLD.description THEN
+    PERFORM public.write_task_log(NEW.id, 'description', OLD.description, NEW.description);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- move_task gains an optional note for transitions that require one
+DROP FUNCTION public.move_task(uuid, text, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION public.move_task(
+  _task_id uuid,
+  _status text,
+  _prev_task_id uuid DEFAULT NULL,
+  _next_task_id uuid DEFAULT NULL,
+  _note text DEFAULT NULL
+)
+RETURNS double precision
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _project_id uuid;
+  _prev_position double precision;
+  _next_position double precision;
+  _position double precision;
+  _attempt integer := 0;
+BEGIN
+  SELECT project_id INTO _project_id FROM public.tasks WHERE id = _task_id;
+  IF _project_id IS NULL THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  -- Serialise moves within a project so concurrent drops can't compute the same slot
+  PERFORM pg_advisory_xact_lock(hashtext('move_task:' || _project_id::text));
+
+  LOOP
+    -- Neighbours are read after taking the lock, so they reflect any move that just finished.
+    -- A neighbour that has since left the column is ignored.
+    SELECT position INTO _prev_position FROM public.tasks
+    WHERE id = _prev_task_id AND project_id = _project_id AND status = _status AND id <> _task_id;
+
+    SELECT position INTO _next_position FROM public.tasks
+    WHERE id = _next_task_id AND project_id = _project_id AND status = _status AND id <> _task_id;
+
+    IF _prev_position IS NULL AND _next_position IS NULL THEN
+      SELECT COALESCE(MAX(position), 0) + 1024 INTO _position
+      FROM public.tasks
+      WHERE project_id = _project_id AND status = _status AND id <> _task_id;
+    ELSIF _prev_position IS NULL THEN
+      _position := _next_position - 1024;
+    ELSIF _next_position IS NULL THEN
+      _position := _prev_position + 1024;
+    ELSE
+      _position := (_prev_position + _next_position) / 2;
+    END IF;
+
+    EXIT WHEN _prev_position IS NULL
+      OR _next_position IS NULL
+      OR (_position > _prev_position AND _position < _next_position);
+
+    _attempt := _attempt + 1;
+    IF _attempt > 1 THEN
+      RAISE EXCEPTION 'Could not find a position between the given tasks';
+    END IF;
+
+    PERFORM public.rebalance_task_positions(_project_id, _status);
+  END LOOP;
+
+  UPDATE public.tasks
+  SET status = _status,
+      position = _position,
+      status_note = CASE WHEN status = _status THEN status_note ELSE _note END
+  WHERE id = _task_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You do not have permission to move this task';
+  END IF;
+
+  RETURN _position;
+END;
+$$;
@@ -0,0 +1,137 @@
+-- Work-in-progress limits per workflow status. NULL means no limit.
+--   wip_limit           - max tasks in the column
+--   wip_limit_per_user  - max tasks in the column assigned to any one person
+--   wip_hard_limit      - reject moves that would exceed a limit instead of only warning
+ALTER TABLE public.project_statuses
+  ADD COLUMN wip_limit INTEGER CHECK (wip_limit > 0),
+  ADD COLUMN wip_limit_per_user INTEGER CHECK (wip_limit_per_user > 0),
+  ADD COLUMN wip_hard_limit BOOLEAN NOT NULL DEFAULT false;
+
+-- Raises AF003 when adding _task_id to _status would break a hard WIP limit.
+-- _user_ids are the people to check the per-person limit for.
+CREATE OR REPLACE FUNCTION public.check_wip_limit(
+  _project_id UUID,
+  _status TEXT,
+  _task_id UUID,
+  _user_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _column public.project_statuses%ROWTYPE;
+  _over_user TEXT;
+BEGIN
+  SELECT * INTO _column FROM public.project_statuses
+  WHERE project_id = _project_id AND name = _status;
+
+  IF NOT FOUND OR NOT _column.wip_hard_limit
+     OR (_column.wip_limit IS NULL AND _column.wip_limit_per_user IS NULL) THEN
+    RETURN;
+  END IF;
+
+  -- Serialise checks within a project so two concurrent drops can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext('wip:' || _project_id::text));
+
+  IF _column.wip_limit IS NOT NULL AND (
+    SELECT count(*) FROM public.tasks
+    WHERE project_id = _project_id AND status = _status AND id <> _task_id
+  ) >= _column.wip_limit THEN
+    RAISE EXCEPTION '"%" is at its limit of % tasks', _status, _column.wip_limit
+      USING ERRCODE = 'AF003';
+  END IF;
+
+  IF _column.wip_limit_per_user IS NOT NULL THEN
+    SELECT p.full_name INTO _over_user
+    FROM unnest(_user_ids) AS u(user_id)
+    JOIN public.profiles p ON p.id = u.user_id
+    WHERE (
+      SELECT count(*) FROM public.tasks t
+      JOIN public.task_assignees ta ON ta.task_id = t.id
+      WHERE t.project_id = _project_id AND t.status = _status
+        AND t.id <> _task_id AND ta.user_id = u.user_id
+    ) >= _column.wip_limit_per_user
+    LIMIT 1;
+
+    IF _over_user IS NOT NULL THEN
+      RAISE EXCEPTION '% already has % tasks in "%"', _over_user, _column.wip_limit_per_user, _status
+        USING ERRCODE = 'AF003';
+    END IF;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_wip_limit(UUID, TEXT, UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Tasks entering a column count against its limits
+CREATE OR REPLACE FUNCTION public.enforce_task_wip_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+      RETURN NEW;
+    END IF;
+
+    -- The old status was renamed and this update is the cascade
+    IF NOT EXISTS (
+      SELECT 1 FROM public.project_statuses
+      WHERE project_id = OLD.project_id AND name = OLD.status
+    ) THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  PERFORM public.check_wip_limit(
+    NEW.project_id,
+    NEW.status,
+    NEW.id,
+    ARRAY(SELECT user_id FROM public.task_assignees WHERE task_id = NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Triggers fire in name order; this one must run after set_task_default_status
+-- has filled in the status of new tasks
+CREATE TRIGGER validate_task_wip_limit
+  BEFORE INSERT OR UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_task_wip_limit();
+
+-- Assigning someone counts against their per-person limit in the task's column
+CREATE OR REPLACE FUNCTION public.enforce_assignee_wip_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _task FROM public.tasks WHERE id = NEW.task_id;
+
+  IF FOUND THEN
+    PERFORM public.check_wip_limit(_task.project_id, _task.status, _task.id, ARRAY[NEW.user_id]);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_assignee_wip_limit
+  BEFORE INSERT ON public.task_assignees
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_assignee_wip_limit();
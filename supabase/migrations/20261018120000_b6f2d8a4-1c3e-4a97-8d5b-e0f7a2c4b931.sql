@@ -0,0 +1,178 @@
+-- Subtasks: a task can be split into child tasks in the same project, each
+-- with its own assignees, status and due date. One level of nesting only.
+ALTER TABLE public.tasks
+  ADD COLUMN parent_task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_tasks_parent_task_id ON public.tasks(parent_task_id);
+
+CREATE OR REPLACE FUNCTION public.validate_task_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _parent public.tasks%ROWTYPE;
+BEGIN
+  IF NEW.parent_task_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_task_id = NEW.id THEN
+    RAISE EXCEPTION 'A task cannot be its own subtask';
+  END IF;
+
+  SELECT * INTO _parent FROM public.tasks WHERE id = NEW.parent_task_id;
+
+  IF _parent.project_id IS DISTINCT FROM NEW.project_id THEN
+    RAISE EXCEPTION 'Subtasks must belong to the same project as their parent';
+  END IF;
+
+  IF _parent.parent_task_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Subtasks cannot have subtasks of their own';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.tasks WHERE parent_task_id = NEW.id) THEN
+    RAISE EXCEPTION 'A task with subtasks cannot become a subtask';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_task_parent
+  BEFORE INSERT OR UPDATE OF parent_task_id, project_id ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.validate_task_parent();
+
+-- Assignees can break their own tasks down without needing a manager
+CREATE POLICY "Assignees can add subtasks to their tasks"
+ON public.tasks
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  parent_task_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.tasks parent
+    JOIN public.task_assignees ta ON ta.task_id = parent.id
+    WHERE parent.id = tasks.parent_task_id
+    AND parent.project_id = tasks.project_id
+    AND ta.user_id = auth.uid()
+  )
+);
+
+-- A parent task can't move into a done status while any subtask is still open.
+-- Raises AF004 so the app can show the message as is.
+CREATE OR REPLACE FUNCTION public.enforce_subtasks_complete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _open_count INTEGER;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.project_statuses
+    WHERE project_id = NEW.project_id AND name = NEW.status AND is_done
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Renaming a done status cascades to its tasks; they were already done
+  IF NOT EXISTS (
+    SELECT 1 FROM public.project_statuses
+    WHERE project_id = OLD.project_id AND name = OLD.status
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO _open_count
+  FROM public.tasks child
+  JOIN public.project_statuses ps
+    ON ps.project_id = child.project_id AND ps.name = child.status
+  WHERE child.parent_task_id = NEW.id AND NOT ps.is_done;
+
+  IF _open_count > 0 THEN
+    RAISE EXCEPTION 'Complete the % open subtask(s) before marking this task as %', _open_count, NEW.status
+      USING ERRCODE = 'AF004';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_subtasks_complete
+  BEFORE UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_subtasks_complete();
+
+-- Checklists: lightweight steps inside a task that don't need their own assignee or status
+CREATE TABLE public.task_checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (btrim(content) <> ''),
+  is_done BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_checklist_items_task_id ON public.task_checklist_items(task_id);
+
+ALTER TABLE public.task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view checklists on accessible tasks"
+ON public.task_checklist_items
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_checklist_items.task_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR has_role(auth.uid(), 'manager'::app_role)
+      OR is_project_member(auth.uid(), tasks.project_id)
+    )
+  )
+);
+
+-- Same people who can edit the task: admins, the project's managers and the assignees
+CREATE POLICY "Task editors can manage checklists"
+ON public.task_checklist_items
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_checklist_items.task_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR (is_project_member(auth.uid(), tasks.project_id) AND has_role(auth.uid(), 'manager'::app_role))
+      OR EXISTS (
+        SELECT 1 FROM public.task_assignees
+        WHERE task_assignees.task_id = tasks.id AND task_assignees.user_id = auth.uid()
+      )
+    )
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_checklist_items.task_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR (is_project_member(auth.uid(), tasks.project_id) AND has_role(auth.uid(), 'manager'::app_role))
+      OR EXISTS (
+        SELECT 1 FROM public.task_assignees
+        WHERE task_assignees.task_id = tasks.id AND task_assignees.user_id = auth.uid()
+      )
+    )
+  )
+);
+
+CREATE TRIGGER update_task_checklist_items_updated_at
+  BEFORE UPDATE ON public.task_checklist_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,295 @@
+-- Task dependencies: task_id is blocked by depends_on_task_id until the latter
+-- reaches a done status. The two tasks may be in different projects.
+CREATE TABLE public.task_dependencies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  depends_on_task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (task_id, depends_on_task_id),
+  CHECK (task_id <> depends_on_task_id)
+);
+
+CREATE INDEX idx_task_dependencies_depends_on ON public.task_dependencies(depends_on_task_id);
+
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- Visible to anyone who can see either end; the other task's details stay behind tasks RLS
+CREATE POLICY "Users can view dependencies of accessible tasks"
+ON public.task_dependencies
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id IN (task_dependencies.task_id, task_dependencies.depends_on_task_id)
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR has_role(auth.uid(), 'manager'::app_role)
+      OR is_project_member(auth.uid(), tasks.project_id)
+    )
+  )
+);
+
+-- Whoever can edit the blocked task can change what blocks it, as long as they can see the blocker
+CREATE POLICY "Task editors can manage dependencies"
+ON public.task_dependencies
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_dependencies.task_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR (is_project_member(auth.uid(), tasks.project_id) AND has_role(auth.uid(), 'manager'::app_role))
+      OR EXISTS (
+        SELECT 1 FROM public.task_assignees
+        WHERE task_assignees.task_id = tasks.id AND task_assignees.user_id = auth.uid()
+      )
+    )
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_dependencies.task_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR (is_project_member(auth.uid(), tasks.project_id) AND has_role(auth.uid(), 'manager'::app_role))
+      OR EXISTS (
+        SELECT 1 FROM public.task_assignees
+        WHERE task_assignees.task_id = tasks.id AND task_assignees.user_id = auth.uid()
+      )
+    )
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_dependencies.depends_on_task_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR has_role(auth.uid(), 'manager'::app_role)
+      OR is_project_member(auth.uid(), tasks.project_id)
+    )
+  )
+);
+
+-- Reject dependencies that would close a loop (A waits on B waits on ... A).
+-- Raises AF005 so the app can show the message as is.
+CREATE OR REPLACE FUNCTION public.prevent_dependency_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialise inserts so two concurrent edges can't form a cycle together
+  PERFORM pg_advisory_xact_lock(hashtext('task_dependencies'));
+
+  IF EXISTS (
+    WITH RECURSIVE upstream(task_id) AS (
+      SELECT NEW.depends_on_task_id
+      UNION
+      SELECT d.depends_on_task_id
+      FROM public.task_dependencies d
+      JOIN upstream u ON d.task_id = u.task_id
+    )
+    SELECT 1 FROM upstream WHERE task_id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'This dependency would create a cycle: the blocking task already depends on this task'
+      USING ERRCODE = 'AF005';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_dependency_cycle
+  BEFORE INSERT OR UPDATE ON public.task_dependencies
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_dependency_cycle();
+
+-- Whether a task is in a done status of its project's workflow
+CREATE OR REPLACE FUNCTION public.is_task_done(_task_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tasks t
+    JOIN public.project_statuses ps ON ps.project_id = t.project_id AND ps.name = t.status
+    WHERE t.id = _task_id AND ps.is_done
+  );
+$$;
+
+-- is_blocked is derived from dependencies: a task is blocked while any task it
+-- depends on is not done. Only this function may change it.
+CREATE OR REPLACE FUNCTION public.refresh_task_blocked(_task_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.computing_blocked', 'on', true);
+
+  UPDATE public.tasks t
+  SET is_blocked = blocked.value
+  FROM (
+    SELECT id, EXISTS (
+      SELECT 1 FROM public.task_dependencies d
+      WHERE d.task_id = tasks.id AND NOT public.is_task_done(d.depends_on_task_id)
+    ) AS value
+    FROM public.tasks
+    WHERE id = ANY(_task_ids)
+  ) blocked
+  WHERE t.id = blocked.id AND t.is_blocked IS DISTINCT FROM blocked.value;
+
+  PERFORM set_config('app.computing_blocked', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_task_blocked(UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Ignore direct writes to is_blocked from clients
+CREATE OR REPLACE FUNCTION public.protect_task_blocked()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.computing_blocked', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- A new task has no dependencies yet
+    NEW.is_blocked := false;
+  ELSE
+    NEW.is_blocked := OLD.is_blocked;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_task_blocked
+  BEFORE INSERT OR UPDATE OF is_blocked ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.protect_task_blocked();
+
+CREATE OR REPLACE FUNCTION public.handle_dependency_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_task_blocked(ARRAY[OLD.task_id]);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.refresh_task_blocked(ARRAY[NEW.task_id]);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER handle_dependency_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.task_dependencies
+  FOR EACH ROW EXECUTE FUNCTION public.handle_dependency_change();
+
+-- When a blocker changes status, recompute its dependents and, if it just
+-- became done, tell the dependents' assignees (except whoever moved it)
+CREATE OR REPLACE FUNCTION public.handle_blocker_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _was_done BOOLEAN;
+  _is_done BOOLEAN;
+  _dependent RECORD;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.task_dependencies WHERE depends_on_task_id = NEW.id) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.refresh_task_blocked(
+    ARRAY(SELECT task_id FROM public.task_dependencies WHERE depends_on_task_id = NEW.id)
+  );
+
+  SELECT is_done INTO _was_done FROM public.project_statuses
+  WHERE project_id = OLD.project_id AND name = OLD.status;
+
+  -- The old status was renamed and this update is the cascade
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT is_done INTO _is_done FROM public.project_statuses
+  WHERE project_id = NEW.project_id AND name = NEW.status;
+
+  IF _is_done AND NOT _was_done THEN
+    FOR _dependent IN
+      SELECT t.id, t.title, t.project_id, t.is_blocked
+      FROM public.task_dependencies d
+      JOIN public.tasks t ON t.id = d.task_id
+      WHERE d.depends_on_task_id = NEW.id
+    LOOP
+      INSERT INTO public.notifications (user_id, title, message, type, link)
+      SELECT
+        ta.user_id,
+        'Blocker Done',
+        CASE WHEN _dependent.is_blocked
+          THEN format('"%s" is done, but "%s" is still waiting on other tasks', NEW.title, _dependent.title)
+          ELSE format('"%s" is done, so "%s" is ready to start', NEW.title, _dependent.title)
+        END,
+        'task_dependency',
+        format('/projects/%s/tasks/%s', _dependent.project_id, _dependent.id)
+      FROM public.task_assignees ta
+      WHERE ta.task_id = _dependent.id
+      AND ta.user_id IS DISTINCT FROM auth.uid();
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER handle_blocker_status_change
+  AFTER UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.handle_blocker_status_change();
+
+-- Marking a status as done (or not) changes whether its tasks still block others
+CREATE OR REPLACE FUNCTION public.handle_status_done_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_done IS DISTINCT FROM OLD.is_done THEN
+    PERFORM public.refresh_task_blocked(ARRAY(
+      SELECT d.task_id
+      FROM public.task_dependencies d
+      JOIN public.tasks t ON t.id = d.depends_on_task_id
+      WHERE t.project_id = NEW.project_id AND t.status = NEW.name
+    ));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER handle_status_done_change
+  AFTER UPDATE OF is_done ON public.project_statuses
+  FOR EACH ROW EXECUTE FUNCTION public.handle_status_done_change();
+
+-- is_blocked used to be a manual switch; from now on it reflects dependencies,
+-- so clear it on tasks that have none
+SELECT public.refresh_task_blocked(ARRAY(SELECT id FROM public.tasks WHERE is_blocked));
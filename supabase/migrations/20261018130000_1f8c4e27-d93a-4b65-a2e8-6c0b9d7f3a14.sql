@@ -0,0 +1,69 @@
+-- Timeline planning: tasks get an optional start date alongside the due date,
+-- and can be flagged as milestones (shown as a marker on the due date)
+ALTER TABLE public.tasks
+  ADD COLUMN start_date TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN is_milestone BOOLEAN NOT NULL DEFAULT false,
+  ADD CONSTRAINT tasks_start_before_due CHECK (start_date IS NULL OR due_date IS NULL OR start_date <= due_date);
+
+CREATE INDEX idx_tasks_project_start_date ON public.tasks(project_id, start_date);
+
+-- Record start date and milestone changes in task history
+CREATE OR REPLACE FUNCTION public.log_task_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.write_task_log(NEW.id, 'created', NULL, NEW.title);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.write_task_log(
+      NEW.id, 'status', OLD.status::text, NEW.status::text,
+      CASE WHEN NEW.status_note IS NOT NULL THEN jsonb_build_object('note', NEW.status_note) END
+    );
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    PERFORM public.write_task_log(NEW.id, 'priority', OLD.priority::text, NEW.priority::text);
+  END IF;
+
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    -- Store ISO 8601 timestamps so the client can format them
+    PERFORM public.write_task_log(
+      NEW.id, 'due_date',
+      to_jsonb(OLD.due_date) #>> '{}',
+      to_jsonb(NEW.due_date) #>> '{}'
+    );
+  END IF;
+
+  IF NEW.start_date IS DISTINCT FROM OLD.start_date THEN
+    PERFORM public.write_task_log(
+      NEW.id, 'start_date',
+      to_jsonb(OLD.start_date) #>> '{}',
+      to_jsonb(NEW.start_date) #>> '{}'
+    );
+  END IF;
+
+  IF NEW.is_milestone IS DISTINCT FROM OLD.is_milestone THEN
+    PERFORM public.write_task_log(NEW.id, 'milestone', OLD.is_milestone::text, NEW.is_milestone::text);
+  END IF;
+
+  IF NEW.is_blocked IS DISTINCT FROM OLD.is_blocked THEN
+    PERFORM public.write_task_log(NEW.id, 'blocked', OLD.is_blocked::text, NEW.is_blocked::text);
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title THEN
+    PERFORM public.write_task_log(NEW.id, 'title', OLD.title, NEW.title);
+  END IF;
+
+  IF NEW.description IS DISTINCT FROM OLD.description THEN
+    PERFORM public.write_task_log(NEW.id, 'description', OLD.description, NEW.description);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
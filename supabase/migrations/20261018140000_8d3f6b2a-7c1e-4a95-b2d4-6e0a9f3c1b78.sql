@@ -0,0 +1,231 @@
+-- Recurring tasks. The rule is a subset of the iCalendar RRULE syntax:
+--   FREQ=DAILY|WEEKLY|MONTHLY|YEARLY, INTERVAL=n, BYDAY=MO,TU,... (weekly),
+--   BYMONTHDAY=n or -1 for the last day (monthly), UNTIL=YYYYMMDD
+-- The rule lives on the latest occurrence: creating the next occurrence moves
+-- the rule to it, so each series has exactly one task that repeats.
+--   recurrence_trigger   - 'on_complete': the next one is created when this one is done
+--                          'on_schedule': the next one is created when this one falls due
+--   recurrence_time_zone - weekdays and days of the month are counted in this zone
+ALTER TABLE public.tasks
+  ADD COLUMN recurrence_rule TEXT
+    CHECK (recurrence_rule ~ '^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;(INTERVAL=[1-9][0-9]{0,2}|BYDAY=(MO|TU|WE|TH|FR|SA|SU)(,(MO|TU|WE|TH|FR|SA|SU))*|BYMONTHDAY=(-1|[1-9]|[12][0-9]|3[01])|UNTIL=[0-9]{8}))*$'),
+  ADD COLUMN recurrence_trigger TEXT NOT NULL DEFAULT 'on_complete'
+    CHECK (recurrence_trigger IN ('on_complete', 'on_schedule')),
+  ADD COLUMN recurrence_time_zone TEXT NOT NULL DEFAULT 'UTC',
+  ADD CONSTRAINT tasks_recurrence_needs_due_date CHECK (recurrence_rule IS NULL OR due_date IS NOT NULL);
+
+CREATE INDEX idx_tasks_recurring_schedule ON public.tasks(due_date)
+  WHERE recurrence_rule IS NOT NULL AND recurrence_trigger = 'on_schedule';
+
+-- First occurrence of _rule after both _from (the current due date) and _after,
+-- keeping the time of day. NULL when the series has ended.
+CREATE OR REPLACE FUNCTION public.next_recurrence_date(
+  _rule TEXT,
+  _from TIMESTAMP WITH TIME ZONE,
+  _after TIMESTAMP WITH TIME ZONE,
+  _time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _part TEXT;
+  _freq TEXT;
+  _interval INTEGER := 1;
+  _by_day INTEGER[];
+  _month_day INTEGER;
+  _until DATE;
+  -- Wall-clock time in the task's zone, so weekdays and month days are local
+  _local TIMESTAMP := _from AT TIME ZONE _time_zone;
+  _limit TIMESTAMP := greatest(_from, _after) AT TIME ZONE _time_zone;
+  _time_of_day INTERVAL := _local - date_trunc('day', _local);
+  _anchor_week DATE := date_trunc('week', _local)::date;
+  _candidate TIMESTAMP;
+  _month TIMESTAMP;
+  _step INTEGER := -1;
+BEGIN
+  FOREACH _part IN ARRAY string_to_array(_rule, ';') LOOP
+    CASE split_part(_part, '=', 1)
+      WHEN 'FREQ' THEN _freq := split_part(_part, '=', 2);
+      WHEN 'INTERVAL' THEN _interval := split_part(_part, '=', 2)::integer;
+      WHEN 'BYDAY' THEN
+        _by_day := ARRAY(
+          SELECT array_position(ARRAY['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'], d)
+          FROM unnest(string_to_array(split_part(_part, '=', 2), ',')) AS d
+        );
+      WHEN 'BYMONTHDAY' THEN _month_day := split_part(_part, '=', 2)::integer;
+      WHEN 'UNTIL' THEN _until := to_date(split_part(_part, '=', 2), 'YYYYMMDD');
+      ELSE NULL;
+    END CASE;
+  END LOOP;
+
+  LOOP
+    _step := _step + 1;
+    -- Gives up on series that are years behind rather than looping forever
+    IF _step > 5000 THEN
+      RETURN NULL;
+    END IF;
+
+    IF _freq = 'DAILY' THEN
+      _candidate := _local + make_interval(days => _step * _interval);
+    ELSIF _freq = 'WEEKLY' AND _by_day IS NULL THEN
+      _candidate := _local + make_interval(weeks => _step * _interval);
+    ELSIF _freq = 'WEEKLY' THEN
+      -- Walk day by day, keeping listed weekdays in every _interval-th week
+      _candidate := _local + make_interval(days => _step);
+      CONTINUE WHEN NOT (extract(isodow FROM _candidate)::integer = ANY(_by_day))
+        OR ((_candidate::date - _anchor_week) / 7) % _interval <> 0;
+    ELSIF _freq = 'MONTHLY' THEN
+      _month := date_trunc('month', _local) + make_interval(months => _step * _interval);
+      -- Days past the end of a short month (and -1) fall on its last day
+      _candidate := _month
+        + make_interval(days => least(
+            CASE WHEN _month_day = -1 THEN 31 ELSE coalesce(_month_day, extract(day FROM _local)::integer) END,
+            extract(day FROM _month + interval '1 month - 1 day')::integer
+          ) - 1)
+        + _time_of_day;
+    ELSIF _freq = 'YEARLY' THEN
+      _candidate := _local + make_interval(years => _step * _interval);
+    ELSE
+      RETURN NULL;
+    END IF;
+
+    EXIT WHEN _candidate > _local AND _candidate > _limit;
+  END LOOP;
+
+  IF _until IS NOT NULL AND _candidate::date > _until THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN _candidate AT TIME ZONE _time_zone;
+END;
+$$;
+
+-- Creates the next occurrence of a recurring task and moves the rule to it.
+-- Copies the title, description, priority, assignees and checklist; the due
+-- date (and start date, if any) move to the next date in the series.
+CREATE OR REPLACE FUNCTION public.create_next_occurrence(_task_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _next_due TIMESTAMP WITH TIME ZONE;
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id FOR UPDATE;
+
+  IF NOT FOUND OR _task.recurrence_rule IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Late occurrences skip the dates already missed instead of creating overdue tasks
+  _next_due := public.next_recurrence_date(
+    _task.recurrence_rule, _task.due_date, now(), _task.recurrence_time_zone
+  );
+
+  UPDATE public.tasks SET recurrence_rule = NULL WHERE id = _task_id;
+
+  IF _next_due IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Status and position are filled in by the database, as for any new task
+  INSERT INTO public.tasks (
+    project_id, parent_task_id, title, description, priority, is_milestone,
+    due_date, start_date, recurrence_rule, recurrence_trigger, recurrence_time_zone, created_by
+  )
+  VALUES (
+    _task.project_id, _task.parent_task_id, _task.title, _task.description, _task.priority, _task.is_milestone,
+    _next_due, _task.start_date + (_next_due - _task.due_date),
+    _task.recurrence_rule, _task.recurrence_trigger, _task.recurrence_time_zone, _task.created_by
+  )
+  RETURNING id INTO _new_id;
+
+  INSERT INTO public.task_assignees (task_id, user_id)
+  SELECT _new_id, user_id FROM public.task_assignees WHERE task_id = _task_id;
+
+  INSERT INTO public.task_checklist_items (task_id, content, position)
+  SELECT _new_id, content, position FROM public.task_checklist_items WHERE task_id = _task_id;
+
+  RETURN _new_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_next_occurrence(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 'on_complete' series continue as soon as the current occurrence is done
+CREATE OR REPLACE FUNCTION public.handle_recurring_task_done()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _was_done BOOLEAN;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT is_done INTO _was_done FROM public.project_statuses
+  WHERE project_id = OLD.project_id AND name = OLD.status;
+
+  -- The old status was renamed and this update is the cascade
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT _was_done AND public.is_task_done(NEW.id) THEN
+    PERFORM public.create_next_occurrence(NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER handle_recurring_task_done
+  AFTER UPDATE OF status ON public.tasks
+  FOR EACH ROW
+  WHEN (NEW.recurrence_rule IS NOT NULL AND NEW.recurrence_trigger = 'on_complete')
+  EXECUTE FUNCTION public.handle_recurring_task_done();
+
+-- 'on_schedule' series continue when the current occurrence falls due,
+-- whether or not it is done. Run by pg_cron every hour.
+CREATE OR REPLACE FUNCTION public.create_scheduled_occurrences()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task_id UUID;
+  _count INTEGER := 0;
+BEGIN
+  FOR _task_id IN
+    SELECT id FROM public.tasks
+    WHERE recurrence_rule IS NOT NULL
+      AND recurrence_trigger = 'on_schedule'
+      AND due_date <= now()
+  LOOP
+    PERFORM public.create_next_occurrence(_task_id);
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_scheduled_occurrences() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'create-scheduled-occurrences',
+  '5 * * * *',
+  $$SELECT public.create_scheduled_occurrences()$$
+);
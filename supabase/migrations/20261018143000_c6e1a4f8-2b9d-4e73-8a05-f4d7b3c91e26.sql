@@ -0,0 +1,208 @@
+-- Reusable project templates. A template is a document: its workflow statuses
+-- and task list are stored as JSON arrays.
+--   statuses: [{ name, color, is_done, wip_limit, wip_limit_per_user, wip_hard_limit }]
+--   tasks:    [{ title, description, priority, start_offset_days, due_offset_days,
+--                assignee_role, is_milestone, checklist: [text] }]
+-- Offsets are days from the project start date chosen when the template is used.
+-- assignee_role is a placeholder such as "Designer" that is mapped to a person then.
+CREATE TABLE public.project_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  brand_color TEXT NOT NULL DEFAULT '#0f172a',
+  statuses JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(statuses) = 'array'),
+  tasks JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(tasks) = 'array'),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.project_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and managers can view project templates"
+ON public.project_templates
+FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  has_role(auth.uid(), 'manager'::app_role)
+);
+
+CREATE POLICY "Admins and managers can manage project templates"
+ON public.project_templates
+FOR ALL
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  has_role(auth.uid(), 'manager'::app_role)
+)
+WITH CHECK (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  has_role(auth.uid(), 'manager'::app_role)
+);
+
+CREATE TRIGGER update_project_templates_updated_at
+  BEFORE UPDATE ON public.project_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Single-task templates, offered when creating a task in any project
+CREATE TABLE public.task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  title TEXT NOT NULL,
+  description TEXT,
+  priority task_priority NOT NULL DEFAULT 'P2-Medium',
+  -- Days from the day the task is created; NULL leaves the due date empty
+  due_offset_days INTEGER CHECK (due_offset_days >= 0),
+  checklist TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view task templates"
+ON public.task_templates
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can create task templates"
+ON public.task_templates
+FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners, admins and managers can manage task templates"
+ON public.task_templates
+FOR UPDATE
+TO authenticated
+USING (
+  created_by = auth.uid() OR
+  has_role(auth.uid(), 'admin'::app_role) OR
+  has_role(auth.uid(), 'manager'::app_role)
+);
+
+CREATE POLICY "Owners, admins and managers can delete task templates"
+ON public.task_templates
+FOR DELETE
+TO authenticated
+USING (
+  created_by = auth.uid() OR
+  has_role(auth.uid(), 'admin'::app_role) OR
+  has_role(auth.uid(), 'manager'::app_role)
+);
+
+CREATE TRIGGER update_task_templates_updated_at
+  BEFORE UPDATE ON public.task_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Creates a project from a template in one go: the project, its workflow, its
+-- tasks with dates counted from _start_date, and the people filling each role
+-- as members and assignees. _role_assignees maps role names to user ids.
+CREATE OR REPLACE FUNCTION public.create_project_from_template(
+  _template_id UUID,
+  _name TEXT,
+  _description TEXT DEFAULT NULL,
+  _start_date TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  _role_assignees JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template public.project_templates%ROWTYPE;
+  _project_id UUID;
+  _status JSONB;
+  _task JSONB;
+  _task_id UUID;
+  _assignee UUID;
+  _position INTEGER := 0;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) THEN
+    RAISE EXCEPTION 'Only admins and managers can create projects';
+  END IF;
+
+  SELECT * INTO _template FROM public.project_templates WHERE id = _template_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  INSERT INTO public.projects (name, description, brand_color)
+  VALUES (_name, coalesce(_description, _template.description), _template.brand_color)
+  RETURNING id INTO _project_id;
+
+  -- The new project was seeded with the default workflow; a template with its
+  -- own workflow replaces it before any task exists
+  IF jsonb_array_length(_template.statuses) > 0 THEN
+    DELETE FROM public.project_statuses WHERE project_id = _project_id;
+
+    FOR _status IN SELECT * FROM jsonb_array_elements(_template.statuses) LOOP
+      INSERT INTO public.project_statuses (
+        project_id, name, color, position, is_done, wip_limit, wip_limit_per_user, wip_hard_limit
+      )
+      VALUES (
+        _project_id,
+        _status->>'name',
+        coalesce(_status->>'color', '#64748b'),
+        _position,
+        coalesce((_status->>'is_done')::boolean, false),
+        (_status->>'wip_limit')::integer,
+        (_status->>'wip_limit_per_user')::integer,
+        coalesce((_status->>'wip_hard_limit')::boolean, false)
+      );
+      _position := _position + 1;
+    END LOOP;
+  END IF;
+
+  INSERT INTO public.project_members (project_id, user_id)
+  SELECT DISTINCT _project_id, p.id
+  FROM jsonb_each_text(_role_assignees) AS r(role, user_id)
+  JOIN public.profiles p ON p.id = r.user_id::uuid AND p.is_active
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.notifications (user_id, title, message, type, link)
+  SELECT user_id, 'Added to Project', format('You have been added to the project "%s"', _name), 'project_member',
+    format('/projects/%s', _project_id)
+  FROM public.project_members
+  WHERE project_id = _project_id AND user_id IS DISTINCT FROM auth.uid();
+
+  -- Tasks are created in template order, each at the bottom of the first column
+  _position := 0;
+  FOR _task IN SELECT * FROM jsonb_array_elements(_template.tasks) LOOP
+    _position := _position + 1;
+
+    INSERT INTO public.tasks (
+      project_id, title, description, priority, is_milestone, start_date, due_date, position, created_by
+    )
+    VALUES (
+      _project_id,
+      _task->>'title',
+      nullif(_task->>'description', ''),
+      coalesce(_task->>'priority', 'P2-Medium')::task_priority,
+      coalesce((_task->>'is_milestone')::boolean, false),
+      _start_date + make_interval(days => (_task->>'start_offset_days')::integer),
+      _start_date + make_interval(days => (_task->>'due_offset_days')::integer),
+      _position * 1024,
+      auth.uid()
+    )
+    RETURNING id INTO _task_id;
+
+    _assignee := (_role_assignees->>(_task->>'assignee_role'))::uuid;
+    IF _assignee IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.project_members WHERE project_id = _project_id AND user_id = _assignee
+    ) THEN
+      INSERT INTO public.task_assignees (task_id, user_id) VALUES (_task_id, _assignee);
+    END IF;
+
+    INSERT INTO public.task_checklist_items (task_id, content, position)
+    SELECT _task_id, item.content, item.position - 1
+    FROM jsonb_array_elements_text(coalesce(_task->'checklist', '[]'::jsonb)) WITH ORDINALITY AS item(content, position);
+  END LOOP;
+
+  RETURN _project_id;
+END;
+$$;
@@ -0,0 +1,136 @@
+-- Time tracking: an estimate per task and time entries per user per task.
+-- A time entry is either a running timer (ended_at and minutes are NULL) or a
+-- finished block of time, from a stopped timer or entered by hand.
+ALTER TABLE public.tasks
+  ADD COLUMN estimate_minutes INTEGER CHECK (estimate_minutes > 0);
+
+CREATE TABLE public.time_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  minutes INTEGER CHECK (minutes > 0),
+  note TEXT,
+  is_billable BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT time_entries_finished_has_minutes CHECK ((ended_at IS NULL) = (minutes IS NULL)),
+  CONSTRAINT time_entries_ends_after_start CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+CREATE INDEX idx_time_entries_task_id ON public.time_entries(task_id);
+CREATE INDEX idx_time_entries_user_started ON public.time_entries(user_id, started_at);
+
+-- One running timer per user
+CREATE UNIQUE INDEX idx_time_entries_one_running ON public.time_entries(user_id) WHERE ended_at IS NULL;
+
+CREATE TRIGGER update_time_entries_updated_at
+  BEFORE UPDATE ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view time on accessible tasks"
+ON public.time_entries
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = time_entries.task_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR has_role(auth.uid(), 'manager'::app_role)
+      OR is_project_member(auth.uid(), tasks.project_id)
+    )
+  )
+);
+
+-- Anyone who can see a task can log their own time on it
+CREATE POLICY "Users can log their own time"
+ON public.time_entries
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = time_entries.task_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR has_role(auth.uid(), 'manager'::app_role)
+      OR is_project_member(auth.uid(), tasks.project_id)
+    )
+  )
+);
+
+CREATE POLICY "Users can edit their own time"
+ON public.time_entries
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (user_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can delete their own time"
+ON public.time_entries
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Stops the current user's running timer. Timers stopped within a minute are
+-- discarded rather than logged. Returns the finished entry, if one was kept.
+CREATE OR REPLACE FUNCTION public.stop_timer()
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _entry public.time_entries%ROWTYPE;
+  _minutes INTEGER;
+BEGIN
+  SELECT * INTO _entry
+  FROM public.time_entries
+  WHERE user_id = auth.uid() AND ended_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  _minutes := round(extract(epoch FROM now() - _entry.started_at) / 60);
+
+  IF _minutes < 1 THEN
+    DELETE FROM public.time_entries WHERE id = _entry.id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.time_entries
+  SET ended_at = now(), minutes = _minutes
+  WHERE id = _entry.id;
+
+  RETURN _entry.id;
+END;
+$$;
+
+-- Starts a timer on a task for the current user, stopping the one already
+-- running so only one runs at a time. Returns the new entry.
+CREATE OR REPLACE FUNCTION public.start_timer(_task_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _entry_id UUID;
+BEGIN
+  PERFORM public.stop_timer();
+
+  INSERT INTO public.time_entries (task_id, user_id)
+  VALUES (_task_id, auth.uid())
+  RETURNING id INTO _entry_id;
+
+  RETURN _entry_id;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.time_entries;
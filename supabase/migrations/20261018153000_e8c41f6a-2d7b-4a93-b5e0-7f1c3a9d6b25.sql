@@ -0,0 +1,225 @@
+-- Weekly timesheets. A week without a row is a draft; submitting it creates
+-- the row, and a manager or admin then approves or rejects it. Submitted and
+-- approved weeks lock the time entries that fall in them; rejecting a week
+-- unlocks it so it can be fixed and submitted again.
+--   starts_at/ends_at - the week (Monday to Monday) in the submitter's time zone
+CREATE TABLE public.timesheets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL CHECK (extract(isodow FROM week_start) = 1),
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'approved', 'rejected')),
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, week_start)
+);
+
+CREATE INDEX idx_timesheets_status ON public.timesheets(status);
+
+CREATE TRIGGER update_timesheets_updated_at
+  BEFORE UPDATE ON public.timesheets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.timesheets ENABLE ROW LEVEL SECURITY;
+
+-- Submitting and reviewing go through the functions below
+CREATE POLICY "Users can view their own timesheets"
+ON public.timesheets
+FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR has_role(auth.uid(), 'admin'::app_role)
+  OR has_role(auth.uid(), 'manager'::app_role)
+);
+
+-- Withdrawing a submitted week makes it a draft again
+CREATE POLICY "Users can withdraw their submitted timesheets"
+ON public.timesheets
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid() AND status = 'submitted');
+
+-- Status of the submitted or approved timesheet covering a user's moment in
+-- time, or NULL when that week is still open
+CREATE OR REPLACE FUNCTION public.get_locking_timesheet_status(_user_id UUID, _at TIMESTAMP WITH TIME ZONE)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT status
+  FROM public.timesheets
+  WHERE user_id = _user_id
+    AND status IN ('submitted', 'approved')
+    AND _at >= starts_at
+    AND _at < ends_at
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_locking_timesheet_status(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Keeps time entries in submitted and approved weeks from changing, including
+-- moving an entry into or out of one.
+-- Raises AF006 so the app can show the message as is.
+CREATE OR REPLACE FUNCTION public.enforce_timesheet_lock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Entries deleted along with their task or user aren't edits
+  IF TG_OP = 'DELETE' AND (
+    NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = OLD.task_id)
+    OR NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = OLD.user_id)
+  ) THEN
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    _status := public.get_locking_timesheet_status(OLD.user_id, OLD.started_at);
+  END IF;
+
+  IF _status IS NULL AND TG_OP IN ('INSERT', 'UPDATE') THEN
+    _status := public.get_locking_timesheet_status(NEW.user_id, NEW.started_at);
+  END IF;
+
+  IF _status IS NOT NULL THEN
+    RAISE EXCEPTION 'The timesheet for this week has been %; its time can''t be changed', _status
+      USING ERRCODE = 'AF006';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER enforce_timesheet_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_timesheet_lock();
+
+-- Submits the current user's week starting _week_start (a Monday), counted in
+-- _time_zone. Resubmits a rejected week.
+CREATE OR REPLACE FUNCTION public.submit_timesheet(_week_start DATE, _time_zone TEXT DEFAULT 'UTC')
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _starts_at TIMESTAMP WITH TIME ZONE;
+  _ends_at TIMESTAMP WITH TIME ZONE;
+  _existing public.timesheets%ROWTYPE;
+  _timesheet_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF extract(isodow FROM _week_start) <> 1 THEN
+    RAISE EXCEPTION 'Weeks start on a Monday';
+  END IF;
+
+  _starts_at := _week_start::timestamp AT TIME ZONE _time_zone;
+  _ends_at := (_week_start + 7)::timestamp AT TIME ZONE _time_zone;
+
+  IF _starts_at > now() THEN
+    RAISE EXCEPTION 'Future weeks can''t be submitted';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.time_entries
+    WHERE user_id = auth.uid() AND ended_at IS NULL
+      AND started_at >= _starts_at AND started_at < _ends_at
+  ) THEN
+    RAISE EXCEPTION 'Stop your running timer before submitting this week';
+  END IF;
+
+  SELECT * INTO _existing
+  FROM public.timesheets
+  WHERE user_id = auth.uid() AND week_start = _week_start
+  FOR UPDATE;
+
+  IF FOUND AND _existing.status <> 'rejected' THEN
+    RAISE EXCEPTION 'This week has already been %', _existing.status;
+  END IF;
+
+  IF FOUND THEN
+    UPDATE public.timesheets
+    SET status = 'submitted', time_zone = _time_zone, starts_at = _starts_at, ends_at = _ends_at,
+      submitted_at = now(), reviewed_by = NULL, reviewed_at = NULL, review_comment = NULL
+    WHERE id = _existing.id;
+    _timesheet_id := _existing.id;
+  ELSE
+    INSERT INTO public.timesheets (user_id, week_start, time_zone, starts_at, ends_at)
+    VALUES (auth.uid(), _week_start, _time_zone, _starts_at, _ends_at)
+    RETURNING id INTO _timesheet_id;
+  END IF;
+
+  RETURN _timesheet_id;
+END;
+$$;
+
+-- Approves or rejects a submitted week. Rejecting needs a comment, which is
+-- sent to the submitter as an in-app notification. Nobody reviews their own week.
+CREATE OR REPLACE FUNCTION public.review_timesheet(_timesheet_id UUID, _approve BOOLEAN, _comment TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _timesheet public.timesheets%ROWTYPE;
+  _comment_text TEXT := nullif(btrim(_comment), '');
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role)) THEN
+    RAISE EXCEPTION 'Only managers and admins can review timesheets';
+  END IF;
+
+  SELECT * INTO _timesheet FROM public.timesheets WHERE id = _timesheet_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Timesheet not found';
+  END IF;
+
+  IF _timesheet.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t review your own timesheet';
+  END IF;
+
+  IF _timesheet.status <> 'submitted' THEN
+    RAISE EXCEPTION 'This timesheet has already been %', _timesheet.status;
+  END IF;
+
+  IF NOT _approve AND _comment_text IS NULL THEN
+    RAISE EXCEPTION 'Add a comment explaining what needs to change';
+  END IF;
+
+  UPDATE public.timesheets
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+    reviewed_by = auth.uid(), reviewed_at = now(), review_comment = _comment_text
+  WHERE id = _timesheet_id;
+
+  IF NOT _approve THEN
+    INSERT INTO public.notifications (user_id, title, message, type, link)
+    VALUES (
+      _timesheet.user_id,
+      'Timesheet Rejected',
+      format('Your timesheet for the week of %s was rejected: %s', to_char(_timesheet.week_start, 'Mon DD, YYYY'), _comment_text),
+      'timesheet',
+      format('/timesheets?week=%s', _timesheet.week_start)
+    );
+  END IF;
+END;
+$$;
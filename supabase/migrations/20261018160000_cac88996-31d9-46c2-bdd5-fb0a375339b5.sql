@@ -0,0 +1,314 @@
+-- Client billing: who a project bills, its hourly rates, and invoices drafted
+-- from approved billable time.
+ALTER TABLE public.projects
+  ADD COLUMN client_name TEXT,
+  ADD COLUMN billing_contact_name TEXT,
+  ADD COLUMN billing_contact_email TEXT,
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Same people who can edit the project: admins, and managers on its team
+CREATE OR REPLACE FUNCTION public.can_bill_project(_user_id UUID, _project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'admin'::app_role)
+    OR (has_role(_user_id, 'manager'::app_role) AND is_project_member(_user_id, _project_id))
+$$;
+
+-- Hourly rates. Kept out of projects so staff on the team can't read them.
+--   user_id and role both NULL - the project's default rate
+--   role                       - everyone with that app role
+--   user_id                    - one person; wins over their role's rate
+CREATE TABLE public.project_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role app_role,
+  hourly_rate NUMERIC(10, 2) NOT NULL CHECK (hourly_rate >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (user_id IS NULL OR role IS NULL),
+  UNIQUE (project_id, user_id),
+  UNIQUE (project_id, role)
+);
+
+CREATE UNIQUE INDEX idx_project_rates_default
+  ON public.project_rates(project_id)
+  WHERE user_id IS NULL AND role IS NULL;
+
+CREATE TRIGGER update_project_rates_updated_at
+  BEFORE UPDATE ON public.project_rates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.project_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Billing users can manage project rates"
+ON public.project_rates
+FOR ALL
+TO authenticated
+USING (can_bill_project(auth.uid(), project_id))
+WITH CHECK (can_bill_project(auth.uid(), project_id));
+
+CREATE SEQUENCE public.invoice_number_seq;
+
+-- Invoices start as drafts, which can be edited freely, and are then issued,
+-- after which they are read-only.
+--   period_start/period_end - days of the approved time they bill, inclusive
+CREATE TABLE public.invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  number TEXT NOT NULL UNIQUE DEFAULT 'INV-' || lpad(nextval('public.invoice_number_seq')::TEXT, 5, '0'),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'issued')),
+  currency TEXT NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  issued_on DATE,
+  due_on DATE,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (period_end >= period_start),
+  CHECK (status = 'draft' OR issued_on IS NOT NULL)
+);
+
+CREATE INDEX idx_invoices_project_id ON public.invoices(project_id);
+
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+--   kind - 'time' lines are drafted from time entries, 'fixed' are fixed fees
+--          and 'adjustment' lines may be negative (discounts, write-offs)
+CREATE TABLE public.invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('time', 'fixed', 'adjustment')),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  quantity NUMERIC(10, 2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price NUMERIC(12, 2) NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (kind = 'adjustment' OR unit_price >= 0)
+);
+
+CREATE INDEX idx_invoice_lines_invoice_id ON public.invoice_lines(invoice_id);
+
+-- The line a time entry was billed on, so it is never billed twice. Deleting
+-- the line (or its draft invoice) makes the time billable again.
+ALTER TABLE public.time_entries
+  ADD COLUMN invoice_line_id UUID REFERENCES public.invoice_lines(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_time_entries_invoice_line_id ON public.time_entries(invoice_line_id);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_lines ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are created by create_invoice_draft below
+CREATE POLICY "Billing users can view invoices"
+ON public.invoices
+FOR SELECT
+TO authenticated
+USING (can_bill_project(auth.uid(), project_id));
+
+CREATE POLICY "Billing users can update draft invoices"
+ON public.invoices
+FOR UPDATE
+TO authenticated
+USING (status = 'draft' AND can_bill_project(auth.uid(), project_id))
+WITH CHECK (can_bill_project(auth.uid(), project_id));
+
+CREATE POLICY "Billing users can delete draft invoices"
+ON public.invoices
+FOR DELETE
+TO authenticated
+USING (status = 'draft' AND can_bill_project(auth.uid(), project_id));
+
+CREATE POLICY "Billing users can view invoice lines"
+ON public.invoice_lines
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE invoices.id = invoice_lines.invoice_id
+      AND can_bill_project(auth.uid(), invoices.project_id)
+  )
+);
+
+CREATE POLICY "Billing users can manage lines of draft invoices"
+ON public.invoice_lines
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE invoices.id = invoice_lines.invoice_id
+      AND invoices.status = 'draft'
+      AND can_bill_project(auth.uid(), invoices.project_id)
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE invoices.id = invoice_lines.invoice_id
+      AND invoices.status = 'draft'
+      AND can_bill_project(auth.uid(), invoices.project_id)
+  )
+);
+
+-- Billing a time entry only sets invoice_line_id, which is allowed in locked
+-- weeks for the people who bill the project
+CREATE OR REPLACE FUNCTION public.enforce_timesheet_lock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Entries deleted along with their task or user aren't edits
+  IF TG_OP = 'DELETE' AND (
+    NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = OLD.task_id)
+    OR NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = OLD.user_id)
+  ) THEN
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND (NEW.task_id, NEW.user_id, NEW.started_at, NEW.ended_at, NEW.minutes, NEW.note, NEW.is_billable)
+      IS NOT DISTINCT FROM (OLD.task_id, OLD.user_id, OLD.started_at, OLD.ended_at, OLD.minutes, OLD.note, OLD.is_billable)
+    AND can_bill_project(auth.uid(), (SELECT project_id FROM public.tasks WHERE id = NEW.task_id))
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    _status := public.get_locking_timesheet_status(OLD.user_id, OLD.started_at);
+  END IF;
+
+  IF _status IS NULL AND TG_OP IN ('INSERT', 'UPDATE') THEN
+    _status := public.get_locking_timesheet_status(NEW.user_id, NEW.started_at);
+  END IF;
+
+  IF _status IS NOT NULL THEN
+    RAISE EXCEPTION 'The timesheet for this week has been %; its time can''t be changed', _status
+      USING ERRCODE = 'AF006';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- Hourly rate for a person's time on a project: their own rate, else their
+-- role's, else the project's default. NULL when none is set.
+CREATE OR REPLACE FUNCTION public.get_hourly_rate(_project_id UUID, _user_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT hourly_rate
+  FROM public.project_rates
+  WHERE project_id = _project_id
+    AND (
+      user_id = _user_id
+      OR role = (SELECT role FROM public.user_roles WHERE user_id = _user_id LIMIT 1)
+      OR (user_id IS NULL AND role IS NULL)
+    )
+  ORDER BY (user_id IS NOT NULL) DESC, (role IS NOT NULL) DESC
+  LIMIT 1
+$$;
+
+-- Billable, not yet invoiced time on a project from approved timesheets whose
+-- day (in the timesheet's time zone) falls between _from and _to
+CREATE OR REPLACE FUNCTION public.get_billable_time_entries(_project_id UUID, _from DATE, _to DATE)
+RETURNS TABLE (id UUID, task_id UUID, user_id UUID, minutes INTEGER, hourly_rate NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT te.id, te.task_id, te.user_id, te.minutes, public.get_hourly_rate(_project_id, te.user_id)
+  FROM public.time_entries te
+  JOIN public.tasks t ON t.id = te.task_id
+  JOIN public.timesheets ts
+    ON ts.user_id = te.user_id
+    AND ts.status = 'approved'
+    AND te.started_at >= ts.starts_at
+    AND te.started_at < ts.ends_at
+  WHERE t.project_id = _project_id
+    AND te.is_billable
+    AND te.minutes IS NOT NULL
+    AND te.invoice_line_id IS NULL
+    AND (te.started_at AT TIME ZONE ts.time_zone)::DATE BETWEEN _from AND _to
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_hourly_rate(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_billable_time_entries(UUID, DATE, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Drafts an invoice for a project's approved billable time between _from and
+-- _to: one line per task and rate, in hours. The time is marked as invoiced.
+CREATE OR REPLACE FUNCTION public.create_invoice_draft(_project_id UUID, _from DATE, _to DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invoice_id UUID;
+  _line_id UUID;
+  _unpriced TEXT;
+  _group RECORD;
+  _position INTEGER := 0;
+BEGIN
+  IF NOT can_bill_project(auth.uid(), _project_id) THEN
+    RAISE EXCEPTION 'You don''t have permission to bill this project';
+  END IF;
+
+  IF _to < _from THEN
+    RAISE EXCEPTION 'The period must end on or after its start';
+  END IF;
+
+  SELECT p.full_name INTO _unpriced
+  FROM public.get_billable_time_entries(_project_id, _from, _to) b
+  JOIN public.profiles p ON p.id = b.user_id
+  WHERE b.hourly_rate IS NULL
+  LIMIT 1;
+
+  IF _unpriced IS NOT NULL THEN
+    RAISE EXCEPTION 'No hourly rate applies to %. Set a default rate for the project or a rate for them first', _unpriced;
+  END IF;
+
+  INSERT INTO public.invoices (project_id, currency, period_start, period_end)
+  SELECT id, currency, _from, _to FROM public.projects WHERE id = _project_id
+  RETURNING id INTO _invoice_id;
+
+  FOR _group IN
+    SELECT b.task_id, t.title, b.hourly_rate, sum(b.minutes) AS minutes, array_agg(b.id) AS entry_ids
+    FROM public.get_billable_time_entries(_project_id, _from, _to) b
+    JOIN public.tasks t ON t.id = b.task_id
+    GROUP BY b.task_id, t.title, b.hourly_rate
+    ORDER BY t.title, b.hourly_rate DESC
+  LOOP
+    INSERT INTO public.invoice_lines (invoice_id, kind, task_id, description, quantity, unit_price, position)
+    VALUES (_invoice_id, 'time', _group.task_id, _group.title, round(_group.minutes / 60.0, 2), _group.hourly_rate, _position)
+    RETURNING id INTO _line_id;
+
+    UPDATE public.time_entries SET invoice_line_id = _line_id WHERE id = ANY(_group.entry_ids);
+    _position := _position + 1;
+  END LOOP;
+
+  RETURN _invoice_id;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- External client reviewers. Added on its own because a new enum value can't
+-- be used in the transaction that adds it.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'client';
@@ -0,0 +1,216 @@
+-- Client portal. Users with the 'client' role are attached to projects through
+-- project_members like anyone else, which already limits them to those
+-- projects' tasks. The restrictive policies below keep them to reading the
+-- project, its workflow and its tasks: tasks only change through
+-- client_review_task, and comments, time and history stay internal.
+CREATE POLICY "Clients can't create tasks"
+ON public.tasks
+AS RESTRICTIVE
+FOR INSERT
+TO authenticated
+WITH CHECK (NOT has_role(auth.uid(), 'client'::app_role));
+
+CREATE POLICY "Clients can't update tasks"
+ON public.tasks
+AS RESTRICTIVE
+FOR UPDATE
+TO authenticated
+USING (NOT has_role(auth.uid(), 'client'::app_role));
+
+CREATE POLICY "Clients can't delete tasks"
+ON public.tasks
+AS RESTRICTIVE
+FOR DELETE
+TO authenticated
+USING (NOT has_role(auth.uid(), 'client'::app_role));
+
+CREATE POLICY "Clients have no access to assignees"
+ON public.task_assignees
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT has_role(auth.uid(), 'client'::app_role))
+WITH CHECK (NOT has_role(auth.uid(), 'client'::app_role));
+
+CREATE POLICY "Clients have no access to checklists"
+ON public.task_checklist_items
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT has_role(auth.uid(), 'client'::app_role))
+WITH CHECK (NOT has_role(auth.uid(), 'client'::app_role));
+
+CREATE POLICY "Clients have no access to comments"
+ON public.task_comments
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT has_role(auth.uid(), 'client'::app_role))
+WITH CHECK (NOT has_role(auth.uid(), 'client'::app_role));
+
+CREATE POLICY "Clients have no access to dependencies"
+ON public.task_dependencies
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT has_role(auth.uid(), 'client'::app_role))
+WITH CHECK (NOT has_role(auth.uid(), 'client'::app_role));
+
+CREATE POLICY "Clients have no access to task history"
+ON public.task_logs
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT has_role(auth.uid(), 'client'::app_role))
+WITH CHECK (NOT has_role(auth.uid(), 'client'::app_role));
+
+CREATE POLICY "Clients have no access to task templates"
+ON public.task_templates
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT has_role(auth.uid(), 'client'::app_role))
+WITH CHECK (NOT has_role(auth.uid(), 'client'::app_role));
+
+CREATE POLICY "Clients have no access to time entries"
+ON public.time_entries
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT has_role(auth.uid(), 'client'::app_role))
+WITH CHECK (NOT has_role(auth.uid(), 'client'::app_role));
+
+CREATE POLICY "Clients have no access to timesheets"
+ON public.timesheets
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT has_role(auth.uid(), 'client'::app_role))
+WITH CHECK (NOT has_role(auth.uid(), 'client'::app_role));
+
+CREATE POLICY "Clients have no access to calendar feeds"
+ON public.calendar_feed_tokens
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (NOT has_role(auth.uid(), 'client'::app_role))
+WITH CHECK (NOT has_role(auth.uid(), 'client'::app_role));
+
+-- Tells a project's clients when one of its tasks is ready for their review
+CREATE OR REPLACE FUNCTION public.notify_client_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'Pending Client Review' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.notifications (user_id, title, message, type, link)
+    SELECT
+      pm.user_id,
+      'Ready for Your Review',
+      format('"%s" is waiting for your review', NEW.title),
+      'client_review',
+      '/portal'
+    FROM public.project_members pm
+    WHERE pm.project_id = NEW.project_id
+      AND has_role(pm.user_id, 'client'::app_role);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_client_review
+  AFTER UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.notify_client_review();
+
+-- A client's verdict on a task in "Pending Client Review". Approving moves it
+-- to the next status in the workflow; requesting changes (which needs a
+-- comment) moves it back to the status it was sent for review from. The
+-- comment is kept as the status note and the assignees are notified.
+-- Returns the task's new status.
+CREATE OR REPLACE FUNCTION public.client_review_task(_task_id UUID, _approve BOOLEAN, _comment TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _review_position INTEGER;
+  _target TEXT;
+  _comment_text TEXT := nullif(btrim(_comment), '');
+  _reviewer TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'client'::app_role) THEN
+    RAISE EXCEPTION 'Only client reviewers can review tasks here';
+  END IF;
+
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_project_member(auth.uid(), _task.project_id) THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  IF _task.status <> 'Pending Client Review' THEN
+    RAISE EXCEPTION 'This task is no longer waiting for your review';
+  END IF;
+
+  IF NOT _approve AND _comment_text IS NULL THEN
+    RAISE EXCEPTION 'Describe the changes you need';
+  END IF;
+
+  SELECT position INTO _review_position
+  FROM public.project_statuses
+  WHERE project_id = _task.project_id AND name = _task.status;
+
+  IF _approve THEN
+    SELECT name INTO _target
+    FROM public.project_statuses
+    WHERE project_id = _task.project_id AND position > _review_position
+    ORDER BY position, created_at
+    LIMIT 1;
+  ELSE
+    SELECT l.old_value INTO _target
+    FROM public.task_logs l
+    JOIN public.project_statuses s ON s.project_id = _task.project_id AND s.name = l.old_value
+    WHERE l.task_id = _task_id AND l.action_type = 'status' AND l.new_value = _task.status
+    ORDER BY l.created_at DESC
+    LIMIT 1;
+
+    IF _target IS NULL THEN
+      SELECT name INTO _target
+      FROM public.project_statuses
+      WHERE project_id = _task.project_id AND position < _review_position
+      ORDER BY position DESC, created_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  IF _target IS NULL THEN
+    RAISE EXCEPTION 'This project''s workflow has no status to move the task to';
+  END IF;
+
+  -- Transition rules are for the team; the client's verdict always applies
+  PERFORM set_config('app.bypass_workflow', 'on', true);
+  UPDATE public.tasks SET status = _target, status_note = _comment_text WHERE id = _task_id;
+  PERFORM set_config('app.bypass_workflow', 'off', true);
+
+  SELECT full_name INTO _reviewer FROM public.profiles WHERE id = auth.uid();
+
+  INSERT INTO public.notifications (user_id, title, message, type, link)
+  SELECT
+    ta.user_id,
+    CASE WHEN _approve THEN 'Client Approved' ELSE 'Changes Requested' END,
+    CASE WHEN _approve
+      THEN format('%s approved "%s"', _reviewer, _task.title)
+      ELSE format('%s requested changes to "%s"', _reviewer, _task.title)
+    END || COALESCE(': ' || _comment_text, ''),
+    'client_review',
+    format('/projects/%s/tasks/%s', _task.project_id, _task.id)
+  FROM public.task_assignees ta
+  WHERE ta.task_id = _task_id;
+
+  RETURN _target;
+END;
+$$;
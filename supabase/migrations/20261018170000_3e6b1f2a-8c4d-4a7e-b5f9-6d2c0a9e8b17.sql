@@ -0,0 +1,309 @@
+-- Review links let a client approve tasks in "Pending Client Review" without an
+-- account. A manager shares a batch of one project's tasks; the review-link
+-- edge function signs the link's id and expiry into the URL and is the only
+-- thing that reads the link or records a verdict, using the service role.
+CREATE TABLE public.review_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  recipient_name TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  last_opened_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_review_links_project_id ON public.review_links(project_id);
+
+CREATE TABLE public.review_link_tasks (
+  review_link_id UUID NOT NULL REFERENCES public.review_links(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  decision TEXT CHECK (decision IN ('approved', 'changes_requested')),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (review_link_id, task_id)
+);
+
+CREATE INDEX idx_review_link_tasks_task_id ON public.review_link_tasks(task_id);
+
+ALTER TABLE public.review_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.review_link_tasks ENABLE ROW LEVEL SECURITY;
+
+-- Links are only created through create_review_link; managers can list and revoke them
+CREATE POLICY "Admins and managers can view review links"
+ON public.review_links
+FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  (is_project_member(auth.uid(), project_id) AND has_role(auth.uid(), 'manager'::app_role))
+);
+
+CREATE POLICY "Admins and managers can revoke review links"
+ON public.review_links
+FOR UPDATE
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  (is_project_member(auth.uid(), project_id) AND has_role(auth.uid(), 'manager'::app_role))
+)
+WITH CHECK (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  (is_project_member(auth.uid(), project_id) AND has_role(auth.uid(), 'manager'::app_role))
+);
+
+CREATE POLICY "Admins and managers can view review link tasks"
+ON public.review_link_tasks
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.review_links
+    WHERE review_links.id = review_link_tasks.review_link_id
+      AND (
+        has_role(auth.uid(), 'admin'::app_role) OR
+        (is_project_member(auth.uid(), review_links.project_id) AND has_role(auth.uid(), 'manager'::app_role))
+      )
+  )
+);
+
+-- Shares tasks of one project for review until _expires_at (at most 30 days
+-- away). Every task must be waiting in "Pending Client Review".
+CREATE OR REPLACE FUNCTION public.create_review_link(
+  _task_ids UUID[],
+  _expires_at TIMESTAMP WITH TIME ZONE,
+  _recipient_name TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ids UUID[];
+  _project_id UUID;
+  _link_id UUID;
+BEGIN
+  SELECT array_agg(DISTINCT id) INTO _ids FROM unnest(_task_ids) AS id;
+
+  IF _ids IS NULL THEN
+    RAISE EXCEPTION 'Pick at least one task to share';
+  END IF;
+
+  IF (SELECT count(DISTINCT project_id) FROM public.tasks WHERE id = ANY(_ids)) <> 1
+    OR (SELECT count(*) FROM public.tasks WHERE id = ANY(_ids)) <> cardinality(_ids) THEN
+    RAISE EXCEPTION 'A review link can only share tasks of one project';
+  END IF;
+
+  SELECT project_id INTO _project_id FROM public.tasks WHERE id = _ids[1];
+
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    (is_project_member(auth.uid(), _project_id) AND has_role(auth.uid(), 'manager'::app_role))
+  ) THEN
+    RAISE EXCEPTION 'Only admins and project managers can share tasks for review';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.tasks WHERE id = ANY(_ids) AND status <> 'Pending Client Review') THEN
+    RAISE EXCEPTION 'Only tasks in "Pending Client Review" can be shared for review';
+  END IF;
+
+  IF _expires_at <= now() OR _expires_at > now() + interval '30 days' THEN
+    RAISE EXCEPTION 'Review links must expire within 30 days';
+  END IF;
+
+  INSERT INTO public.review_links (project_id, recipient_name, expires_at)
+  VALUES (_project_id, nullif(btrim(_recipient_name), ''), _expires_at)
+  RETURNING id INTO _link_id;
+
+  INSERT INTO public.review_link_tasks (review_link_id, task_id)
+  SELECT _link_id, id FROM unnest(_ids) AS id;
+
+  RETURN _link_id;
+END;
+$$;
+
+-- Applies a client's verdict on a task in "Pending Client Review". Approving
+-- moves it to the next status in the workflow; requesting changes (which
+-- needs a comment) moves it back to the status it was sent for review from.
+-- The verdict is written to the task's history, the comment is kept as the
+-- status note and the assignees are notified. Returns the task's new status.
+-- Callers check who may review; _source is 'portal' or 'review_link'.
+CREATE OR REPLACE FUNCTION public.apply_client_review(
+  _task_id UUID,
+  _approve BOOLEAN,
+  _comment TEXT,
+  _reviewer TEXT,
+  _source TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _review_position INTEGER;
+  _target TEXT;
+  _comment_text TEXT := nullif(btrim(_comment), '');
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  IF _task.status <> 'Pending Client Review' THEN
+    RAISE EXCEPTION 'This task is no longer waiting for your review';
+  END IF;
+
+  IF NOT _approve AND _comment_text IS NULL THEN
+    RAISE EXCEPTION 'Describe the changes you need';
+  END IF;
+
+  SELECT position INTO _review_position
+  FROM public.project_statuses
+  WHERE project_id = _task.project_id AND name = _task.status;
+
+  IF _approve THEN
+    SELECT name INTO _target
+    FROM public.project_statuses
+    WHERE project_id = _task.project_id AND position > _review_position
+    ORDER BY position, created_at
+    LIMIT 1;
+  ELSE
+    SELECT l.old_value INTO _target
+    FROM public.task_logs l
+    JOIN public.project_statuses s ON s.project_id = _task.project_id AND s.name = l.old_value
+    WHERE l.task_id = _task_id AND l.action_type = 'status' AND l.new_value = _task.status
+    ORDER BY l.created_at DESC
+    LIMIT 1;
+
+    IF _target IS NULL THEN
+      SELECT name INTO _target
+      FROM public.project_statuses
+      WHERE project_id = _task.project_id AND position < _review_position
+      ORDER BY position DESC, created_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  IF _target IS NULL THEN
+    RAISE EXCEPTION 'This project''s workflow has no status to move the task to';
+  END IF;
+
+  -- Transition rules are for the team; the client's verdict always applies
+  PERFORM set_config('app.bypass_workflow', 'on', true);
+  UPDATE public.tasks SET status = _target, status_note = _comment_text WHERE id = _task_id;
+  PERFORM set_config('app.bypass_workflow', 'off', true);
+
+  PERFORM public.write_task_log(
+    _task_id,
+    'client_review',
+    NULL,
+    CASE WHEN _approve THEN 'approved' ELSE 'changes_requested' END,
+    jsonb_build_object('reviewer', _reviewer, 'comment', _comment_text, 'source', _source)
+  );
+
+  INSERT INTO public.notifications (user_id, title, message, type, link)
+  SELECT
+    ta.user_id,
+    CASE WHEN _approve THEN 'Client Approved' ELSE 'Changes Requested' END,
+    CASE WHEN _approve
+      THEN format('%s approved "%s"', _reviewer, _task.title)
+      ELSE format('%s requested changes to "%s"', _reviewer, _task.title)
+    END || COALESCE(': ' || _comment_text, ''),
+    'client_review',
+    format('/projects/%s/tasks/%s', _task.project_id, _task.id)
+  FROM public.task_assignees ta
+  WHERE ta.task_id = _task_id;
+
+  RETURN _target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_client_review(UUID, BOOLEAN, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The client portal's verdict, now sharing apply_client_review with review links
+CREATE OR REPLACE FUNCTION public.client_review_task(_task_id UUID, _approve BOOLEAN, _comment TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reviewer TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'client'::app_role) THEN
+    RAISE EXCEPTION 'Only client reviewers can review tasks here';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE id = _task_id AND is_project_member(auth.uid(), project_id)
+  ) THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  SELECT full_name INTO _reviewer FROM public.profiles WHERE id = auth.uid();
+
+  RETURN public.apply_client_review(_task_id, _approve, _comment, _reviewer, 'portal');
+END;
+$$;
+
+-- A verdict sent through a review link. Each task on a link can be reviewed
+-- once, and only while the link is neither revoked nor expired. Only the
+-- review-link edge function calls this, after checking the link's signature.
+CREATE OR REPLACE FUNCTION public.review_link_task(
+  _link_id UUID,
+  _task_id UUID,
+  _approve BOOLEAN,
+  _comment TEXT,
+  _reviewer_name TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _link public.review_links%ROWTYPE;
+  _decision TEXT;
+  _target TEXT;
+BEGIN
+  SELECT * INTO _link FROM public.review_links WHERE id = _link_id FOR UPDATE;
+
+  IF NOT FOUND OR _link.revoked_at IS NOT NULL OR _link.expires_at <= now() THEN
+    RAISE EXCEPTION 'This review link has expired';
+  END IF;
+
+  SELECT decision INTO _decision
+  FROM public.review_link_tasks
+  WHERE review_link_id = _link_id AND task_id = _task_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  IF _decision IS NOT NULL THEN
+    RAISE EXCEPTION 'This task has already been reviewed';
+  END IF;
+
+  _target := public.apply_client_review(
+    _task_id,
+    _approve,
+    _comment,
+    COALESCE(nullif(btrim(_reviewer_name), ''), _link.recipient_name, 'Client'),
+    'review_link'
+  );
+
+  UPDATE public.review_link_tasks
+  SET decision = CASE WHEN _approve THEN 'approved' ELSE 'changes_requested' END,
+      reviewed_at = now()
+  WHERE review_link_id = _link_id AND task_id = _task_id;
+
+  RETURN _target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_link_task(UUID, UUID, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
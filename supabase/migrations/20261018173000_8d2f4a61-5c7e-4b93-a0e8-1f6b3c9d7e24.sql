@@ -0,0 +1,131 @@
+-- File attachments on tasks. Files live in the private task-attachments bucket
+-- under "<task id>/<random id>-<file name>"; task_attachments keeps one row per
+-- file. Access follows the task: whoever can see a task (admins, managers and
+-- project members, through the tasks RLS) can see and download its files.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('task-attachments', 'task-attachments', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.task_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL CHECK (btrim(file_name) <> ''),
+  mime_type TEXT,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  uploaded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_attachments_task_id ON public.task_attachments(task_id);
+
+ALTER TABLE public.task_attachments ENABLE ROW LEVEL SECURITY;
+
+-- The subqueries on tasks run under the tasks RLS, so these mirror it
+CREATE POLICY "Users can view attachments on accessible tasks"
+ON public.task_attachments
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_attachments.task_id));
+
+CREATE POLICY "Users can add attachments to accessible tasks"
+ON public.task_attachments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  uploaded_by = auth.uid()
+  AND NOT has_role(auth.uid(), 'client'::app_role)
+  AND EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_attachments.task_id)
+  -- The file must be stored under its task
+  AND storage_path LIKE task_id::text || '/%'
+);
+
+-- Uploaders remove their own files; admins and the project's managers any file
+CREATE POLICY "Uploaders, admins and managers can delete attachments"
+ON public.task_attachments
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_attachments.task_id
+      AND (
+        task_attachments.uploaded_by = auth.uid() OR
+        has_role(auth.uid(), 'admin'::app_role) OR
+        (is_project_member(auth.uid(), tasks.project_id) AND has_role(auth.uid(), 'manager'::app_role))
+      )
+  )
+);
+
+-- Storage follows the rows: a file can be read once its row is visible, and
+-- removed by whoever may delete its row. Uploads go under a visible task.
+CREATE POLICY "Users can view files on accessible tasks"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'task-attachments'
+  AND EXISTS (SELECT 1 FROM public.task_attachments WHERE task_attachments.storage_path = objects.name)
+);
+
+CREATE POLICY "Users can upload files to accessible tasks"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'task-attachments'
+  AND NOT has_role(auth.uid(), 'client'::app_role)
+  AND EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id::text = (storage.foldername(objects.name))[1])
+);
+
+CREATE POLICY "Uploaders, admins and managers can delete files"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'task-attachments'
+  AND EXISTS (
+    SELECT 1
+    FROM public.task_attachments
+    JOIN public.tasks ON tasks.id = task_attachments.task_id
+    WHERE task_attachments.storage_path = objects.name
+      AND (
+        task_attachments.uploaded_by = auth.uid() OR
+        has_role(auth.uid(), 'admin'::app_role) OR
+        (is_project_member(auth.uid(), tasks.project_id) AND has_role(auth.uid(), 'manager'::app_role))
+      )
+  )
+);
+
+-- Log added and removed files with their name
+CREATE OR REPLACE FUNCTION public.log_task_attachment_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.write_task_log(
+      NEW.task_id, 'attachment', NULL, NEW.file_name,
+      jsonb_build_object('attachment_id', NEW.id)
+    );
+    RETURN NEW;
+  END IF;
+
+  -- Skip rows removed by the cascade when the task itself is deleted
+  IF NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = OLD.task_id) THEN
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.write_task_log(
+    OLD.task_id, 'attachment', OLD.file_name, NULL,
+    jsonb_build_object('attachment_id', OLD.id)
+  );
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER log_task_attachment_changes
+  AFTER INSERT OR DELETE ON public.task_attachments
+  FOR EACH ROW EXECUTE FUNCTION public.log_task_attachment_changes();
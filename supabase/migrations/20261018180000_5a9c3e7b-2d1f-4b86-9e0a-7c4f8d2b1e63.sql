@@ -0,0 +1,316 @@
+-- Versioned deliverables. A deliverable (e.g. "Homepage mockup") belongs to a
+-- task and keeps every uploaded version (v1, v2, ...), one of which is
+-- current. Version files share the task-attachments bucket, under the task.
+-- A current version counts as a review round the first time the task is in
+-- "Internal Review" or "Pending Client Review" with it, so the rounds show how
+-- many times a deliverable went back for review.
+ALTER TABLE public.projects
+ADD COLUMN included_review_rounds INTEGER NOT NULL DEFAULT 3 CHECK (included_review_rounds >= 1);
+
+CREATE TABLE public.task_deliverables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_deliverables_task_id ON public.task_deliverables(task_id);
+
+CREATE TABLE public.deliverable_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  deliverable_id UUID NOT NULL REFERENCES public.task_deliverables(id) ON DELETE CASCADE,
+  -- Both set by assign_deliverable_version
+  version_number INTEGER NOT NULL,
+  review_round INTEGER,
+  is_current BOOLEAN NOT NULL DEFAULT true,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL CHECK (btrim(file_name) <> ''),
+  mime_type TEXT,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  notes TEXT,
+  uploaded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (deliverable_id, version_number)
+);
+
+CREATE UNIQUE INDEX deliverable_versions_one_current
+ON public.deliverable_versions(deliverable_id)
+WHERE is_current;
+
+-- Review feedback can be left on a specific version
+ALTER TABLE public.task_comments
+ADD COLUMN deliverable_version_id UUID REFERENCES public.deliverable_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.task_deliverables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deliverable_versions ENABLE ROW LEVEL SECURITY;
+
+-- As for attachments, the subqueries on tasks run under the tasks RLS
+CREATE POLICY "Users can view deliverables on accessible tasks"
+ON public.task_deliverables
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_deliverables.task_id));
+
+CREATE POLICY "Users can add deliverables to accessible tasks"
+ON public.task_deliverables
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid()
+  AND NOT has_role(auth.uid(), 'client'::app_role)
+  AND EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_deliverables.task_id)
+);
+
+CREATE POLICY "Users can rename deliverables on accessible tasks"
+ON public.task_deliverables
+FOR UPDATE
+TO authenticated
+USING (
+  NOT has_role(auth.uid(), 'client'::app_role)
+  AND EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_deliverables.task_id)
+)
+WITH CHECK (
+  NOT has_role(auth.uid(), 'client'::app_role)
+  AND EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_deliverables.task_id)
+);
+
+CREATE POLICY "Admins and managers can delete deliverables"
+ON public.task_deliverables
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_deliverables.task_id
+      AND (
+        has_role(auth.uid(), 'admin'::app_role) OR
+        (is_project_member(auth.uid(), tasks.project_id) AND has_role(auth.uid(), 'manager'::app_role))
+      )
+  )
+);
+
+CREATE POLICY "Users can view versions on accessible tasks"
+ON public.deliverable_versions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.task_deliverables
+    JOIN public.tasks ON tasks.id = task_deliverables.task_id
+    WHERE task_deliverables.id = deliverable_versions.deliverable_id
+  )
+);
+
+-- Versions are never edited or deleted one by one: every version is kept, and
+-- the current one is switched with set_current_deliverable_version
+CREATE POLICY "Users can upload versions to accessible tasks"
+ON public.deliverable_versions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  uploaded_by = auth.uid()
+  AND NOT has_role(auth.uid(), 'client'::app_role)
+  AND EXISTS (
+    SELECT 1
+    FROM public.task_deliverables
+    JOIN public.tasks ON tasks.id = task_deliverables.task_id
+    WHERE task_deliverables.id = deliverable_versions.deliverable_id
+      -- The file must be stored under its task
+      AND deliverable_versions.storage_path LIKE tasks.id::text || '/%'
+  )
+);
+
+-- Version files can be read like attachments, and removed (with their
+-- deliverable) by admins and the project's managers
+DROP POLICY IF EXISTS "Users can view files on accessible tasks" ON storage.objects;
+
+CREATE POLICY "Users can view files on accessible tasks"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'task-attachments'
+  AND (
+    EXISTS (SELECT 1 FROM public.task_attachments WHERE task_attachments.storage_path = objects.name) OR
+    EXISTS (SELECT 1 FROM public.deliverable_versions WHERE deliverable_versions.storage_path = objects.name)
+  )
+);
+
+CREATE POLICY "Admins and managers can delete deliverable files"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'task-attachments'
+  AND EXISTS (
+    SELECT 1
+    FROM public.deliverable_versions
+    JOIN public.task_deliverables ON task_deliverables.id = deliverable_versions.deliverable_id
+    JOIN public.tasks ON tasks.id = task_deliverables.task_id
+    WHERE deliverable_versions.storage_path = objects.name
+      AND (
+        has_role(auth.uid(), 'admin'::app_role) OR
+        (is_project_member(auth.uid(), tasks.project_id) AND has_role(auth.uid(), 'manager'::app_role))
+      )
+  )
+);
+
+-- Numbers each new version and makes it the current one. Uploaded while the
+-- task is already in review, it starts the next review round straight away.
+CREATE OR REPLACE FUNCTION public.assign_deliverable_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task_status TEXT;
+BEGIN
+  -- Serialises uploads to the same deliverable
+  PERFORM 1 FROM public.task_deliverables WHERE id = NEW.deliverable_id FOR UPDATE;
+
+  SELECT COALESCE(max(version_number), 0) + 1 INTO NEW.version_number
+  FROM public.deliverable_versions
+  WHERE deliverable_id = NEW.deliverable_id;
+
+  UPDATE public.deliverable_versions
+  SET is_current = false
+  WHERE deliverable_id = NEW.deliverable_id AND is_current;
+
+  NEW.is_current := true;
+  NEW.review_round := NULL;
+
+  SELECT t.status INTO _task_status
+  FROM public.tasks t
+  JOIN public.task_deliverables d ON d.task_id = t.id
+  WHERE d.id = NEW.deliverable_id;
+
+  IF _task_status IN ('Internal Review', 'Pending Client Review') THEN
+    SELECT COALESCE(max(review_round), 0) + 1 INTO NEW.review_round
+    FROM public.deliverable_versions
+    WHERE deliverable_id = NEW.deliverable_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_deliverable_version
+  BEFORE INSERT ON public.deliverable_versions
+  FOR EACH ROW EXECUTE FUNCTION public.assign_deliverable_version();
+
+-- Moving a task into review starts a round for each deliverable whose current
+-- version hasn't been reviewed yet; moving it again without a new version doesn't
+CREATE OR REPLACE FUNCTION public.count_deliverable_review_rounds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('Internal Review', 'Pending Client Review') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    UPDATE public.deliverable_versions v
+    SET review_round = (
+      SELECT COALESCE(max(r.review_round), 0) + 1
+      FROM public.deliverable_versions r
+      WHERE r.deliverable_id = v.deliverable_id
+    )
+    FROM public.task_deliverables d
+    WHERE d.id = v.deliverable_id
+      AND d.task_id = NEW.id
+      AND v.is_current
+      AND v.review_round IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER count_deliverable_review_rounds
+  AFTER UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.count_deliverable_review_rounds();
+
+-- Makes an earlier (or later) version the current one again
+CREATE OR REPLACE FUNCTION public.set_current_deliverable_version(_version_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deliverable_id UUID;
+BEGIN
+  IF has_role(auth.uid(), 'client'::app_role) THEN
+    RAISE EXCEPTION 'Clients can''t change deliverables';
+  END IF;
+
+  SELECT v.deliverable_id INTO _deliverable_id
+  FROM public.deliverable_versions v
+  JOIN public.task_deliverables d ON d.id = v.deliverable_id
+  JOIN public.tasks t ON t.id = d.task_id
+  WHERE v.id = _version_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role) OR
+      has_role(auth.uid(), 'manager'::app_role) OR
+      is_project_member(auth.uid(), t.project_id)
+    );
+
+  IF _deliverable_id IS NULL THEN
+    RAISE EXCEPTION 'Version not found';
+  END IF;
+
+  PERFORM 1 FROM public.task_deliverables WHERE id = _deliverable_id FOR UPDATE;
+
+  UPDATE public.deliverable_versions SET is_current = false WHERE deliverable_id = _deliverable_id AND is_current;
+  UPDATE public.deliverable_versions SET is_current = true WHERE id = _version_id;
+END;
+$$;
+
+-- Feedback must be on a version of one of the comment's task's deliverables
+CREATE OR REPLACE FUNCTION public.check_comment_deliverable_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deliverable_version_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM public.deliverable_versions v
+    JOIN public.task_deliverables d ON d.id = v.deliverable_id
+    WHERE v.id = NEW.deliverable_version_id AND d.task_id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'Feedback must be on a version of this task''s deliverables';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_comment_deliverable_version
+  BEFORE INSERT OR UPDATE OF deliverable_version_id ON public.task_comments
+  FOR EACH ROW EXECUTE FUNCTION public.check_comment_deliverable_version();
+
+-- Log each uploaded version with its deliverable and number
+CREATE OR REPLACE FUNCTION public.log_deliverable_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deliverable public.task_deliverables%ROWTYPE;
+BEGIN
+  SELECT * INTO _deliverable FROM public.task_deliverables WHERE id = NEW.deliverable_id;
+
+  PERFORM public.write_task_log(
+    _deliverable.task_id, 'deliverable', NULL, format('%s v%s', _deliverable.name, NEW.version_number),
+    jsonb_build_object('deliverable_id', _deliverable.id, 'version_id', NEW.id, 'file_name', NEW.file_name)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_deliverable_version
+  AFTER INSERT ON public.deliverable_versions
+  FOR EACH ROW EXECUTE FUNCTION public.log_deliverable_version();
@@ -0,0 +1,36 @@
+-- Profile pictures. The app crops and resizes them before upload, so the
+-- public avatars bucket only takes small images. Each user has a folder named
+-- after their id and can only write into their own; files get a new random
+-- name on every upload, so a changed avatar never shows a cached old one.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 1048576, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Public URLs don't need a policy to be read; listing is limited to the
+-- user's own folder, which is how old avatars are found and cleaned up
+CREATE POLICY "Users can list their own avatars"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can upload their own avatar"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own avatars"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
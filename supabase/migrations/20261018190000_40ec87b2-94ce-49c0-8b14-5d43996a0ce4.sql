@@ -0,0 +1,4 @@
+-- Task logs are written by the audit triggers only. The original insert
+-- policy still let project members add log rows through the API, which
+-- would let anyone forge entries in a task's history.
+DROP POLICY IF EXISTS "Project members can insert logs" ON public.task_logs;
@@ -0,0 +1,20 @@
+-- Comments stay on the task they were posted on. The update policy only
+-- checks the author, so without this an author could move a comment onto a
+-- task they can't see (and away from its replies and deliverable version).
+CREATE OR REPLACE FUNCTION public.prevent_comment_task_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.task_id IS DISTINCT FROM OLD.task_id THEN
+    RAISE EXCEPTION 'Comments can''t be moved to another task';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_comment_task_change
+  BEFORE UPDATE OF task_id ON public.task_comments
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_comment_task_change();
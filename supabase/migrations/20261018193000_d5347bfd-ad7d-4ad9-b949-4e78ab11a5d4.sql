@@ -0,0 +1,35 @@
+-- Assignees decide who may edit a task ("Staff can update assigned tasks"),
+-- so only admins and the project's managers may add or remove them. The
+-- original policy let any project member assign themselves to any task in
+-- the project and then edit it.
+DROP POLICY IF EXISTS "Project members can manage task assignees" ON public.task_assignees;
+
+CREATE POLICY "Admins and managers can assign tasks"
+ON public.task_assignees
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_assignees.task_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR (is_project_member(auth.uid(), tasks.project_id) AND has_role(auth.uid(), 'manager'::app_role))
+    )
+  )
+);
+
+CREATE POLICY "Admins and managers can unassign tasks"
+ON public.task_assignees
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_assignees.task_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR (is_project_member(auth.uid(), tasks.project_id) AND has_role(auth.uid(), 'manager'::app_role))
+    )
+  )
+);
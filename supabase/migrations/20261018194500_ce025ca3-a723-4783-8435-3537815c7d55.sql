@@ -0,0 +1,5 @@
+-- rebalance_task_positions ran as its owner, so anyone who could call it over
+-- RPC (clients included) could rewrite card positions in a column without
+-- being allowed to update those tasks. Like move_task, which calls it, it now
+-- runs as the caller and only touches tasks the tasks RLS lets them update.
+ALTER FUNCTION public.rebalance_task_positions(uuid, text) SECURITY INVOKER;
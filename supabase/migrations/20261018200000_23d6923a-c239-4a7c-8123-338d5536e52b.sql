@@ -0,0 +1,95 @@
+-- Transition rules also apply to new tasks. A task is created as if it were
+-- moving out of the project's first status, so creating it in any other
+-- status needs a rule from the first one (with its roles and note), just like
+-- moving it there later would. Before, inserting a task straight into e.g.
+-- Done skipped the workflow entirely.
+CREATE OR REPLACE FUNCTION public.enforce_task_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _from_status public.project_statuses%ROWTYPE;
+  _to_status public.project_statuses%ROWTYPE;
+  _rule public.project_status_transitions%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+      RETURN NEW;
+    END IF;
+
+    -- A note only counts for the status change it was sent with
+    IF NEW.status_note IS NOT DISTINCT FROM OLD.status_note THEN
+      NEW.status_note := NULL;
+    END IF;
+  END IF;
+
+  -- Left empty, set_task_default_status puts the task in the first status
+  IF NEW.status IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NULL OR current_setting('app.bypass_workflow', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO _from_status FROM public.project_statuses
+    WHERE project_id = NEW.project_id
+    ORDER BY position, created_at
+    LIMIT 1;
+
+    IF NOT FOUND OR _from_status.name = NEW.status THEN
+      RETURN NEW;
+    END IF;
+  ELSE
+    SELECT * INTO _from_status FROM public.project_statuses
+    WHERE project_id = OLD.project_id AND name = OLD.status;
+
+    -- The old status was renamed and this update is the cascade
+    IF NOT FOUND THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  SELECT * INTO _to_status FROM public.project_statuses
+  WHERE project_id = NEW.project_id AND name = NEW.status;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.project_status_transitions WHERE project_id = NEW.project_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _rule FROM public.project_status_transitions
+  WHERE from_status_id = _from_status.id AND to_status_id = _to_status.id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tasks cannot move from "%" to "%" in this project', _from_status.name, NEW.status
+      USING ERRCODE = 'AF001';
+  END IF;
+
+  IF cardinality(_rule.allowed_roles) > 0 AND NOT EXISTS (
+    SELECT 1 FROM unnest(_rule.allowed_roles) AS r(role)
+    WHERE has_role(auth.uid(), r.role)
+  ) THEN
+    RAISE EXCEPTION 'Only % can move tasks from "%" to "%"',
+      array_to_string(_rule.allowed_roles, ', '), _from_status.name, NEW.status
+      USING ERRCODE = 'AF001';
+  END IF;
+
+  IF _rule.requires_note AND btrim(COALESCE(NEW.status_note, '')) = '' THEN
+    RAISE EXCEPTION 'A note is required to move tasks from "%" to "%"', _from_status.name, NEW.status
+      USING ERRCODE = 'AF002';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_task_transition ON public.tasks;
+
+CREATE TRIGGER enforce_task_transition
+  BEFORE INSERT OR UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_task_transition();
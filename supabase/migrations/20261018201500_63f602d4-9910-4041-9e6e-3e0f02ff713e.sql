@@ -0,0 +1,119 @@
+-- The next occurrence of a recurring task is created inside the user's move
+-- to Done, so a hard WIP limit on the first column rolled back that move with
+-- a confusing AF003 error. WIP limits now skip inserts made while
+-- app.bypass_wip is on, which create_next_occurrence sets around its inserts.
+CREATE OR REPLACE FUNCTION public.check_wip_limit(
+  _project_id UUID,
+  _status TEXT,
+  _task_id UUID,
+  _user_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _column public.project_statuses%ROWTYPE;
+  _over_user TEXT;
+BEGIN
+  -- Tasks the database creates on its own, such as the next occurrence of a
+  -- recurring task, don't count against limits
+  IF current_setting('app.bypass_wip', true) = 'on' THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _column FROM public.project_statuses
+  WHERE project_id = _project_id AND name = _status;
+
+  IF NOT FOUND OR NOT _column.wip_hard_limit
+     OR (_column.wip_limit IS NULL AND _column.wip_limit_per_user IS NULL) THEN
+    RETURN;
+  END IF;
+
+  -- Serialise checks within a project so two concurrent drops can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext('wip:' || _project_id::text));
+
+  IF _column.wip_limit IS NOT NULL AND (
+    SELECT count(*) FROM public.tasks
+    WHERE project_id = _project_id AND status = _status AND id <> _task_id
+  ) >= _column.wip_limit THEN
+    RAISE EXCEPTION '"%" is at its limit of % tasks', _status, _column.wip_limit
+      USING ERRCODE = 'AF003';
+  END IF;
+
+  IF _column.wip_limit_per_user IS NOT NULL THEN
+    SELECT p.full_name INTO _over_user
+    FROM unnest(_user_ids) AS u(user_id)
+    JOIN public.profiles p ON p.id = u.user_id
+    WHERE (
+      SELECT count(*) FROM public.tasks t
+      JOIN public.task_assignees ta ON ta.task_id = t.id
+      WHERE t.project_id = _project_id AND t.status = _status
+        AND t.id <> _task_id AND ta.user_id = u.user_id
+    ) >= _column.wip_limit_per_user
+    LIMIT 1;
+
+    IF _over_user IS NOT NULL THEN
+      RAISE EXCEPTION '% already has % tasks in "%"', _over_user, _column.wip_limit_per_user, _status
+        USING ERRCODE = 'AF003';
+    END IF;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_next_occurrence(_task_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _next_due TIMESTAMP WITH TIME ZONE;
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id FOR UPDATE;
+
+  IF NOT FOUND OR _task.recurrence_rule IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Late occurrences skip the dates already missed instead of creating overdue tasks
+  _next_due := public.next_recurrence_date(
+    _task.recurrence_rule, _task.due_date, now(), _task.recurrence_time_zone
+  );
+
+  UPDATE public.tasks SET recurrence_rule = NULL WHERE id = _task_id;
+
+  IF _next_due IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- This runs inside the move that completed the task; a full first column
+  -- must not undo that move
+  PERFORM set_config('app.bypass_wip', 'on', true);
+
+  -- Status and position are filled in by the database, as for any new task
+  INSERT INTO public.tasks (
+    project_id, parent_task_id, title, description, priority, is_milestone,
+    due_date, start_date, recurrence_rule, recurrence_trigger, recurrence_time_zone, created_by
+  )
+  VALUES (
+    _task.project_id, _task.parent_task_id, _task.title, _task.description, _task.priority, _task.is_milestone,
+    _next_due, _task.start_date + (_next_due - _task.due_date),
+    _task.recurrence_rule, _task.recurrence_trigger, _task.recurrence_time_zone, _task.created_by
+  )
+  RETURNING id INTO _new_id;
+
+  INSERT INTO public.task_assignees (task_id, user_id)
+  SELECT _new_id, user_id FROM public.task_assignees WHERE task_id = _task_id;
+
+  INSERT INTO public.task_checklist_items (task_id, content, position)
+  SELECT _new_id, content, position FROM public.task_checklist_items WHERE task_id = _task_id;
+
+  PERFORM set_config('app.bypass_wip', 'off', true);
+
+  RETURN _new_id;
+END;
+$$;
@@ -0,0 +1,22 @@
+-- Editing an entry must leave it on a task the user can log time on, as
+-- when it was created. Without the task check an entry could be moved onto
+-- a task in any project and billed to that project's client.
+DROP POLICY IF EXISTS "Users can edit their own time" ON public.time_entries;
+
+CREATE POLICY "Users can edit their own time"
+ON public.time_entries
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (
+  (user_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+  AND EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = time_entries.task_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR has_role(auth.uid(), 'manager'::app_role)
+      OR is_project_member(auth.uid(), tasks.project_id)
+    )
+  )
+);
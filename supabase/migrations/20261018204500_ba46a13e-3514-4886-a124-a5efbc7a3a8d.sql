@@ -0,0 +1,68 @@
+-- Drafting two invoices for a project at the same time could put the same
+-- time on both: each read the uninvoiced entries before the other marked
+-- them, and the second draft silently re-pointed them. Drafts now take a lock
+-- per project and only claim entries that are still uninvoiced.
+CREATE OR REPLACE FUNCTION public.create_invoice_draft(_project_id UUID, _from DATE, _to DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invoice_id UUID;
+  _line_id UUID;
+  _unpriced TEXT;
+  _group RECORD;
+  _position INTEGER := 0;
+  _claimed INTEGER;
+BEGIN
+  IF NOT can_bill_project(auth.uid(), _project_id) THEN
+    RAISE EXCEPTION 'You don''t have permission to bill this project';
+  END IF;
+
+  IF _to < _from THEN
+    RAISE EXCEPTION 'The period must end on or after its start';
+  END IF;
+
+  -- Serialise drafts per project so two at once can't both pick up the same time
+  PERFORM pg_advisory_xact_lock(hashtext('invoice:' || _project_id::text));
+
+  SELECT p.full_name INTO _unpriced
+  FROM public.get_billable_time_entries(_project_id, _from, _to) b
+  JOIN public.profiles p ON p.id = b.user_id
+  WHERE b.hourly_rate IS NULL
+  LIMIT 1;
+
+  IF _unpriced IS NOT NULL THEN
+    RAISE EXCEPTION 'No hourly rate applies to %. Set a default rate for the project or a rate for them first', _unpriced;
+  END IF;
+
+  INSERT INTO public.invoices (project_id, currency, period_start, period_end)
+  SELECT id, currency, _from, _to FROM public.projects WHERE id = _project_id
+  RETURNING id INTO _invoice_id;
+
+  FOR _group IN
+    SELECT b.task_id, t.title, b.hourly_rate, sum(b.minutes) AS minutes, array_agg(b.id) AS entry_ids
+    FROM public.get_billable_time_entries(_project_id, _from, _to) b
+    JOIN public.tasks t ON t.id = b.task_id
+    GROUP BY b.task_id, t.title, b.hourly_rate
+    ORDER BY t.title, b.hourly_rate DESC
+  LOOP
+    INSERT INTO public.invoice_lines (invoice_id, kind, task_id, description, quantity, unit_price, position)
+    VALUES (_invoice_id, 'time', _group.task_id, _group.title, round(_group.minutes / 60.0, 2), _group.hourly_rate, _position)
+    RETURNING id INTO _line_id;
+
+    -- Never re-point time that is already on an invoice
+    UPDATE public.time_entries SET invoice_line_id = _line_id
+    WHERE id = ANY(_group.entry_ids) AND invoice_line_id IS NULL;
+
+    GET DIAGNOSTICS _claimed = ROW_COUNT;
+    IF _claimed <> cardinality(_group.entry_ids) THEN
+      RAISE EXCEPTION 'Some of this time was invoiced while the draft was being created. Please try again';
+    END IF;
+    _position := _position + 1;
+  END LOOP;
+
+  RETURN _invoice_id;
+END;
+$$;
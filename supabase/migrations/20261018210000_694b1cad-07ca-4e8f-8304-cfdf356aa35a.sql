@@ -0,0 +1,43 @@
+-- Clients are project members so they can review its tasks, but they can't
+-- be assigned to them: assignment, WIP and comment notifications would send
+-- them to pages they're redirected away from. The app leaves clients out of
+-- its people pickers; this enforces it for every other client.
+CREATE OR REPLACE FUNCTION public.prevent_client_assignees()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF has_role(NEW.user_id, 'client'::app_role) THEN
+    RAISE EXCEPTION 'Clients can''t be assigned to tasks';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_client_assignees
+  BEFORE INSERT OR UPDATE OF user_id ON public.task_assignees
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_client_assignees();
+
+-- Someone who becomes a client loses their assignments
+CREATE OR REPLACE FUNCTION public.remove_client_assignments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.task_assignees WHERE user_id = NEW.user_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER remove_client_assignments
+  AFTER INSERT OR UPDATE OF role ON public.user_roles
+  FOR EACH ROW
+  WHEN (NEW.role = 'client'::app_role)
+  EXECUTE FUNCTION public.remove_client_assignments();
+
+DELETE FROM public.task_assignees WHERE has_role(user_id, 'client'::app_role);
@@ -0,0 +1,57 @@
+-- Client review used to look for the status by its name, "Pending Client
+-- Review", so renaming it in a project's workflow quietly switched the portal
+-- and client notifications off. Statuses now carry the role as flags:
+-- is_client_review marks where tasks wait for the client and
+-- is_internal_review where the team reviews.
+ALTER TABLE public.project_statuses
+ADD COLUMN is_internal_review BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN is_client_review BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.project_statuses SET is_internal_review = true WHERE name = 'Internal Review';
+UPDATE public.project_statuses SET is_client_review = true WHERE name = 'Pending Client Review';
+
+-- The default pipeline every new project starts with
+CREATE OR REPLACE FUNCTION public.seed_project_statuses(_project_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.project_statuses (project_id, name, color, position, is_done, is_internal_review, is_client_review)
+  VALUES
+    (_project_id, 'Todo', '#94a3b8', 0, false, false, false),
+    (_project_id, 'In Progress', '#f59e0b', 1, false, false, false),
+    (_project_id, 'Internal Review', '#6366f1', 2, false, true, false),
+    (_project_id, 'Pending Client Review', '#8b5cf6', 3, false, false, true),
+    (_project_id, 'Done', '#22c55e', 4, true, false, false)
+  ON CONFLICT (project_id, name) DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_project_statuses(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Tells a project's clients when one of its tasks is ready for their review
+CREATE OR REPLACE FUNCTION public.notify_client_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND EXISTS (
+    SELECT 1 FROM public.project_statuses
+    WHERE project_id = NEW.project_id AND name = NEW.status AND is_client_review
+  ) THEN
+    INSERT INTO public.notifications (user_id, title, message, type, link)
+    SELECT
+      pm.user_id,
+      'Ready for Your Review',
+      format('"%s" is waiting for your review', NEW.title),
+      'client_review',
+      '/portal'
+    FROM public.project_members pm
+    WHERE pm.project_id = NEW.project_id
+      AND has_role(pm.user_id, 'client'::app_role);
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,156 @@
+-- Review links key on the client review flag instead of the status name
+CREATE OR REPLACE FUNCTION public.create_review_link(
+  _task_ids UUID[],
+  _expires_at TIMESTAMP WITH TIME ZONE,
+  _recipient_name TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ids UUID[];
+  _project_id UUID;
+  _link_id UUID;
+BEGIN
+  SELECT array_agg(DISTINCT id) INTO _ids FROM unnest(_task_ids) AS id;
+
+  IF _ids IS NULL THEN
+    RAISE EXCEPTION 'Pick at least one task to share';
+  END IF;
+
+  IF (SELECT count(DISTINCT project_id) FROM public.tasks WHERE id = ANY(_ids)) <> 1
+    OR (SELECT count(*) FROM public.tasks WHERE id = ANY(_ids)) <> cardinality(_ids) THEN
+    RAISE EXCEPTION 'A review link can only share tasks of one project';
+  END IF;
+
+  SELECT project_id INTO _project_id FROM public.tasks WHERE id = _ids[1];
+
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    (is_project_member(auth.uid(), _project_id) AND has_role(auth.uid(), 'manager'::app_role))
+  ) THEN
+    RAISE EXCEPTION 'Only admins and project managers can share tasks for review';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.tasks t
+    JOIN public.project_statuses s ON s.project_id = t.project_id AND s.name = t.status
+    WHERE t.id = ANY(_ids) AND NOT s.is_client_review
+  ) THEN
+    RAISE EXCEPTION 'Only tasks waiting for client review can be shared for review';
+  END IF;
+
+  IF _expires_at <= now() OR _expires_at > now() + interval '30 days' THEN
+    RAISE EXCEPTION 'Review links must expire within 30 days';
+  END IF;
+
+  INSERT INTO public.review_links (project_id, recipient_name, expires_at)
+  VALUES (_project_id, nullif(btrim(_recipient_name), ''), _expires_at)
+  RETURNING id INTO _link_id;
+
+  INSERT INTO public.review_link_tasks (review_link_id, task_id)
+  SELECT _link_id, id FROM unnest(_ids) AS id;
+
+  RETURN _link_id;
+END;
+$$;
+
+-- The client's verdict only applies while the task is in a client review status
+CREATE OR REPLACE FUNCTION public.apply_client_review(
+  _task_id UUID,
+  _approve BOOLEAN,
+  _comment TEXT,
+  _reviewer TEXT,
+  _source TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _review_position INTEGER;
+  _target TEXT;
+  _comment_text TEXT := nullif(btrim(_comment), '');
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.project_statuses
+    WHERE project_id = _task.project_id AND name = _task.status AND is_client_review
+  ) THEN
+    RAISE EXCEPTION 'This task is no longer waiting for your review';
+  END IF;
+
+  IF NOT _approve AND _comment_text IS NULL THEN
+    RAISE EXCEPTION 'Describe the changes you need';
+  END IF;
+
+  SELECT position INTO _review_position
+  FROM public.project_statuses
+  WHERE project_id = _task.project_id AND name = _task.status;
+
+  IF _approve THEN
+    SELECT name INTO _target
+    FROM public.project_statuses
+    WHERE project_id = _task.project_id AND position > _review_position
+    ORDER BY position, created_at
+    LIMIT 1;
+  ELSE
+    SELECT l.old_value INTO _target
+    FROM public.task_logs l
+    JOIN public.project_statuses s ON s.project_id = _task.project_id AND s.name = l.old_value
+    WHERE l.task_id = _task_id AND l.action_type = 'status' AND l.new_value = _task.status
+    ORDER BY l.created_at DESC
+    LIMIT 1;
+
+    IF _target IS NULL THEN
+      SELECT name INTO _target
+      FROM public.project_statuses
+      WHERE project_id = _task.project_id AND position < _review_position
+      ORDER BY position DESC, created_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  IF _target IS NULL THEN
+    RAISE EXCEPTION 'This project''s workflow has no status to move the task to';
+  END IF;
+
+  -- Transition rules are for the team; the client's verdict always applies
+  PERFORM set_config('app.bypass_workflow', 'on', true);
+  UPDATE public.tasks SET status = _target, status_note = _comment_text WHERE id = _task_id;
+  PERFORM set_config('app.bypass_workflow', 'off', true);
+
+  PERFORM public.write_task_log(
+    _task_id,
+    'client_review',
+    NULL,
+    CASE WHEN _approve THEN 'approved' ELSE 'changes_requested' END,
+    jsonb_build_object('reviewer', _reviewer, 'comment', _comment_text, 'source', _source)
+  );
+
+  INSERT INTO public.notifications (user_id, title, message, type, link)
+  SELECT
+    ta.user_id,
+    CASE WHEN _approve THEN 'Client Approved' ELSE 'Changes Requested' END,
+    CASE WHEN _approve
+      THEN format('%s approved "%s"', _reviewer, _task.title)
+      ELSE format('%s requested changes to "%s"', _reviewer, _task.title)
+    END || COALESCE(': ' || _comment_text, ''),
+    'client_review',
+    format('/projects/%s/tasks/%s', _task.project_id, _task.id)
+  FROM public.task_assignees ta
+  WHERE ta.task_id = _task_id;
+
+  RETURN _target;
+END;
+$$;
@@ -0,0 +1,68 @@
+-- Review rounds start in any status flagged for internal or client review
+-- instead of the two default status names
+CREATE OR REPLACE FUNCTION public.assign_deliverable_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _in_review BOOLEAN;
+BEGIN
+  -- Serialises uploads to the same deliverable
+  PERFORM 1 FROM public.task_deliverables WHERE id = NEW.deliverable_id FOR UPDATE;
+
+  SELECT COALESCE(max(version_number), 0) + 1 INTO NEW.version_number
+  FROM public.deliverable_versions
+  WHERE deliverable_id = NEW.deliverable_id;
+
+  UPDATE public.deliverable_versions
+  SET is_current = false
+  WHERE deliverable_id = NEW.deliverable_id AND is_current;
+
+  NEW.is_current := true;
+  NEW.review_round := NULL;
+
+  SELECT s.is_internal_review OR s.is_client_review INTO _in_review
+  FROM public.tasks t
+  JOIN public.task_deliverables d ON d.task_id = t.id
+  JOIN public.project_statuses s ON s.project_id = t.project_id AND s.name = t.status
+  WHERE d.id = NEW.deliverable_id;
+
+  IF _in_review THEN
+    SELECT COALESCE(max(review_round), 0) + 1 INTO NEW.review_round
+    FROM public.deliverable_versions
+    WHERE deliverable_id = NEW.deliverable_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Moving a task into either kind of review starts a round for unreviewed versions
+CREATE OR REPLACE FUNCTION public.count_deliverable_review_rounds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND EXISTS (
+    SELECT 1 FROM public.project_statuses
+    WHERE project_id = NEW.project_id AND name = NEW.status AND (is_internal_review OR is_client_review)
+  ) THEN
+    UPDATE public.deliverable_versions v
+    SET review_round = (
+      SELECT COALESCE(max(r.review_round), 0) + 1
+      FROM public.deliverable_versions r
+      WHERE r.deliverable_id = v.deliverable_id
+    )
+    FROM public.task_deliverables d
+    WHERE d.id = v.deliverable_id
+      AND d.task_id = NEW.id
+      AND v.is_current
+      AND v.review_round IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,31 @@
+-- Staff may add subtasks to tasks they're assigned to, but only admins and
+-- managers can assign people. Left unassigned, such a subtask couldn't be
+-- edited by the person who created it, and its open status would keep them
+-- from completing the parent. The creator is now assigned to it straight away.
+CREATE OR REPLACE FUNCTION public.assign_subtask_creator()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_task_id IS NULL OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Admins and managers assign subtasks themselves
+  IF has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.task_assignees (task_id, user_id)
+  VALUES (NEW.id, auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_subtask_creator
+  AFTER INSERT ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.assign_subtask_creator();
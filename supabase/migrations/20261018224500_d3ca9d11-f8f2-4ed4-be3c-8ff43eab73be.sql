@@ -0,0 +1,117 @@
+-- A client's verdict from the portal runs as the client, so the team's hard
+-- WIP limits (AF003) and the open-subtask check (AF004) rejected it with an
+-- internal error, while the same verdict through a review link went through.
+-- Both now skip WIP limits, and approving a task whose subtasks are still
+-- open is refused with a plain message instead.
+CREATE OR REPLACE FUNCTION public.apply_client_review(
+  _task_id UUID,
+  _approve BOOLEAN,
+  _comment TEXT,
+  _reviewer TEXT,
+  _source TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _review_position INTEGER;
+  _target TEXT;
+  _comment_text TEXT := nullif(btrim(_comment), '');
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.project_statuses
+    WHERE project_id = _task.project_id AND name = _task.status AND is_client_review
+  ) THEN
+    RAISE EXCEPTION 'This task is no longer waiting for your review';
+  END IF;
+
+  IF NOT _approve AND _comment_text IS NULL THEN
+    RAISE EXCEPTION 'Describe the changes you need';
+  END IF;
+
+  SELECT position INTO _review_position
+  FROM public.project_statuses
+  WHERE project_id = _task.project_id AND name = _task.status;
+
+  IF _approve THEN
+    SELECT name INTO _target
+    FROM public.project_statuses
+    WHERE project_id = _task.project_id AND position > _review_position
+    ORDER BY position, created_at
+    LIMIT 1;
+  ELSE
+    SELECT l.old_value INTO _target
+    FROM public.task_logs l
+    JOIN public.project_statuses s ON s.project_id = _task.project_id AND s.name = l.old_value
+    WHERE l.task_id = _task_id AND l.action_type = 'status' AND l.new_value = _task.status
+    ORDER BY l.created_at DESC
+    LIMIT 1;
+
+    IF _target IS NULL THEN
+      SELECT name INTO _target
+      FROM public.project_statuses
+      WHERE project_id = _task.project_id AND position < _review_position
+      ORDER BY position DESC, created_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  IF _target IS NULL THEN
+    RAISE EXCEPTION 'This project''s workflow has no status to move the task to';
+  END IF;
+
+  -- Checked here rather than left to enforce_subtasks_complete, which skips
+  -- review links (no signed-in user) and reports with an internal code
+  IF _approve AND EXISTS (
+    SELECT 1 FROM public.project_statuses
+    WHERE project_id = _task.project_id AND name = _target AND is_done
+  ) AND EXISTS (
+    SELECT 1
+    FROM public.tasks child
+    JOIN public.project_statuses ps ON ps.project_id = child.project_id AND ps.name = child.status
+    WHERE child.parent_task_id = _task_id AND NOT ps.is_done
+  ) THEN
+    RAISE EXCEPTION 'This task can''t be approved until the team finishes its subtasks';
+  END IF;
+
+  -- Transition rules and WIP limits are for the team; the client's verdict
+  -- always applies
+  PERFORM set_config('app.bypass_workflow', 'on', true);
+  PERFORM set_config('app.bypass_wip', 'on', true);
+  UPDATE public.tasks SET status = _target, status_note = _comment_text WHERE id = _task_id;
+  PERFORM set_config('app.bypass_wip', 'off', true);
+  PERFORM set_config('app.bypass_workflow', 'off', true);
+
+  PERFORM public.write_task_log(
+    _task_id,
+    'client_review',
+    NULL,
+    CASE WHEN _approve THEN 'approved' ELSE 'changes_requested' END,
+    jsonb_build_object('reviewer', _reviewer, 'comment', _comment_text, 'source', _source)
+  );
+
+  INSERT INTO public.notifications (user_id, title, message, type, link)
+  SELECT
+    ta.user_id,
+    CASE WHEN _approve THEN 'Client Approved' ELSE 'Changes Requested' END,
+    CASE WHEN _approve
+      THEN format('%s approved "%s"', _reviewer, _task.title)
+      ELSE format('%s requested changes to "%s"', _reviewer, _task.title)
+    END || COALESCE(': ' || _comment_text, ''),
+    'client_review',
+    format('/projects/%s/tasks/%s', _task.project_id, _task.id)
+  FROM public.task_assignees ta
+  WHERE ta.task_id = _task_id;
+
+  RETURN _target;
+END;
+$$;
@@ -0,0 +1,100 @@
+-- Clients have no access to calendar feeds, but create_calendar_feed runs as
+-- SECURITY DEFINER, so the restrictive policy on calendar_feed_tokens never
+-- applied to it, and clients count as project members. A client could create
+-- a project feed whose URL serves every task in the project to anyone.
+CREATE OR REPLACE FUNCTION public.create_calendar_feed(_project_id UUID DEFAULT NULL, _time_zone TEXT DEFAULT 'UTC')
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF has_role(auth.uid(), 'client'::app_role) THEN
+    RAISE EXCEPTION 'Client reviewers can''t create calendar feeds';
+  END IF;
+
+  IF _project_id IS NOT NULL AND NOT (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'manager'::app_role)
+    OR is_project_member(auth.uid(), _project_id)
+  ) THEN
+    RAISE EXCEPTION 'You don''t have access to this project';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = _time_zone) THEN
+    _time_zone := 'UTC';
+  END IF;
+
+  _token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  DELETE FROM public.calendar_feed_tokens
+  WHERE user_id = auth.uid() AND project_id IS NOT DISTINCT FROM _project_id;
+
+  INSERT INTO public.calendar_feed_tokens (user_id, project_id, token, time_zone)
+  VALUES (auth.uid(), _project_id, _token, _time_zone);
+
+  RETURN _token;
+END;
+$$;
+
+-- Feeds owned by clients serve nothing, including ones created before this
+CREATE OR REPLACE FUNCTION public.get_calendar_feed_tasks(_user_id UUID, _project_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  status TEXT,
+  priority TEXT,
+  due_date TIMESTAMP WITH TIME ZONE,
+  is_milestone BOOLEAN,
+  is_done BOOLEAN,
+  project_id UUID,
+  project_name TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.title,
+    t.description,
+    t.status,
+    t.priority::text,
+    t.due_date,
+    t.is_milestone,
+    COALESCE(ps.is_done, false),
+    t.project_id,
+    p.name,
+    t.updated_at
+  FROM public.tasks t
+  JOIN public.projects p ON p.id = t.project_id
+  LEFT JOIN public.project_statuses ps ON ps.project_id = t.project_id AND ps.name = t.status
+  WHERE t.due_date IS NOT NULL
+  -- Keep feeds small: calendar apps re-download the whole file on every sync
+  AND t.due_date > now() - interval '180 days'
+  AND NOT has_role(_user_id, 'client'::app_role)
+  AND (
+    has_role(_user_id, 'admin'::app_role)
+    OR has_role(_user_id, 'manager'::app_role)
+    OR is_project_member(_user_id, t.project_id)
+  )
+  AND CASE
+    WHEN _project_id IS NULL THEN EXISTS (
+      SELECT 1 FROM public.task_assignees ta
+      WHERE ta.task_id = t.id AND ta.user_id = _user_id
+    )
+    ELSE t.project_id = _project_id
+  END
+  ORDER BY t.due_date;
+$$;
+
+DELETE FROM public.calendar_feed_tokens WHERE has_role(user_id, 'client'::app_role);
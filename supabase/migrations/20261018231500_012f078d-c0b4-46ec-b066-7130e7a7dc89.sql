@@ -0,0 +1,87 @@
+-- Running rebalance_task_positions as the caller broke crowded columns for
+-- staff: RLS skipped the cards they aren't assigned to, so no gap opened and
+-- move_task gave up. It runs as its owner again and only move_task may call
+-- it. move_task now runs as its owner too, checking who may move the task
+-- the same way the tasks UPDATE policies do.
+ALTER FUNCTION public.rebalance_task_positions(uuid, text) SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.rebalance_task_positions(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.move_task(
+  _task_id uuid,
+  _status text,
+  _prev_task_id uuid DEFAULT NULL,
+  _next_task_id uuid DEFAULT NULL,
+  _note text DEFAULT NULL
+)
+RETURNS double precision
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_id uuid;
+  _prev_position double precision;
+  _next_position double precision;
+  _position double precision;
+  _attempt integer := 0;
+BEGIN
+  SELECT project_id INTO _project_id FROM public.tasks WHERE id = _task_id;
+  IF _project_id IS NULL THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  -- The same people the tasks UPDATE policies let edit this task
+  IF has_role(auth.uid(), 'client'::app_role) OR NOT (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR (is_project_member(auth.uid(), _project_id) AND has_role(auth.uid(), 'manager'::app_role))
+    OR EXISTS (SELECT 1 FROM public.task_assignees WHERE task_id = _task_id AND user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to move this task';
+  END IF;
+
+  -- Serialise moves within a project so concurrent drops can't compute the same slot
+  PERFORM pg_advisory_xact_lock(hashtext('move_task:' || _project_id::text));
+
+  LOOP
+    -- Neighbours are read after taking the lock, so they reflect any move that just finished.
+    -- A neighbour that has since left the column is ignored.
+    SELECT position INTO _prev_position FROM public.tasks
+    WHERE id = _prev_task_id AND project_id = _project_id AND status = _status AND id <> _task_id;
+
+    SELECT position INTO _next_position FROM public.tasks
+    WHERE id = _next_task_id AND project_id = _project_id AND status = _status AND id <> _task_id;
+
+    IF _prev_position IS NULL AND _next_position IS NULL THEN
+      SELECT COALESCE(MAX(position), 0) + 1024 INTO _position
+      FROM public.tasks
+      WHERE project_id = _project_id AND status = _status AND id <> _task_id;
+    ELSIF _prev_position IS NULL THEN
+      _position := _next_position - 1024;
+    ELSIF _next_position IS NULL THEN
+      _position := _prev_position + 1024;
+    ELSE
+      _position := (_prev_position + _next_position) / 2;
+    END IF;
+
+    EXIT WHEN _prev_position IS NULL
+      OR _next_position IS NULL
+      OR (_position > _prev_position AND _position < _next_position);
+
+    _attempt := _attempt + 1;
+    IF _attempt > 1 THEN
+      RAISE EXCEPTION 'Could not find a position between the given tasks';
+    END IF;
+
+    PERFORM public.rebalance_task_positions(_project_id, _status);
+  END LOOP;
+
+  UPDATE public.tasks
+  SET status = _status,
+      position = _position,
+      status_note = CASE WHEN status = _status THEN status_note ELSE _note END
+  WHERE id = _task_id;
+
+  RETURN _position;
+END;
+$$;
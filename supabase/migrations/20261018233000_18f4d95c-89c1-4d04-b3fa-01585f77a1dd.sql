@@ -0,0 +1,29 @@
+-- Replies are deleted with their parent comment, so an author deleting their
+-- comment also deleted other people's replies, which they can't delete
+-- themselves. A comment with replies from someone else now stays. Deleting
+-- the task, or a user through the admin tools, still removes whole threads.
+CREATE OR REPLACE FUNCTION public.prevent_comment_with_replies_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = OLD.task_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.task_comments
+    WHERE parent_id = OLD.id AND user_id <> OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'Comments with replies from other people can''t be deleted';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_comment_with_replies_delete
+  BEFORE DELETE ON public.task_comments
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_comment_with_replies_delete();